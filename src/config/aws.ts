@@ -27,6 +27,7 @@ logger.info('AWS SQS Client initialized');
 export const AWS_CONFIG = {
   S3_BUCKET_IMAGES: process.env.S3_BUCKET_IMAGES || 'unite-images-bucket',
   S3_BUCKET_CSV: process.env.S3_BUCKET_CSV || 'unite-csv-bucket',
+  S3_BUCKET_EXPORTS: process.env.S3_BUCKET_EXPORTS || process.env.S3_BUCKET_CSV || 'unite-csv-bucket',
   SNS_TOPIC_ARN: process.env.SNS_TOPIC_ARN || '',
   SQS_QUEUE_URL: process.env.SQS_QUEUE_URL || '',
   REGION: process.env.AWS_REGION || 'us-east-1',
@@ -1,4 +1,5 @@
 import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
 import logger from '../utils/logger';
 import 'dotenv/config';
 
@@ -39,6 +40,17 @@ export const cacheService = {
     }
   },
 
+  getMany: async (keys: string[]): Promise<any[]> => {
+    if (keys.length === 0) return [];
+    try {
+      const data = await redis.mget(...keys);
+      return data.map(value => (value ? JSON.parse(value) : null));
+    } catch (error) {
+      logger.error(`Cache get error for ${keys.length} keys:`, error);
+      return keys.map(() => null);
+    }
+  },
+
   set: async (key: string, value: any, ttlSeconds: number = 300): Promise<any> => {
     try {
       await redis.setex(key, ttlSeconds, JSON.stringify(value));
@@ -59,6 +71,17 @@ export const cacheService = {
     }
   },
 
+  delMany: async (keys: string[]): Promise<any> => {
+    if (keys.length === 0) return true;
+    try {
+      await redis.del(...keys);
+      return true;
+    } catch (error) {
+      logger.error(`Cache delete error for ${keys.length} keys:`, error);
+      return false;
+    }
+  },
+
   exists: async (key: string): Promise<any> => {
     try {
       const result = await redis.exists(key);
@@ -69,6 +92,37 @@ export const cacheService = {
     }
   },
 
+  /**
+   * Take a lock shared by all instances. Returns a token for releaseLock, or null
+   * if someone else holds it (or Redis is unreachable).
+   */
+  acquireLock: async (key: string, ttlSeconds: number): Promise<string | null> => {
+    const token = randomUUID();
+    try {
+      const result = await redis.set(key, token, 'EX', ttlSeconds, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      logger.error(`Lock acquire error for key ${key}:`, error);
+      return null;
+    }
+  },
+
+  // Only the holder may release; a lock that expired and was retaken is left alone
+  releaseLock: async (key: string, token: string): Promise<boolean> => {
+    try {
+      await redis.eval(
+        "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end",
+        1,
+        key,
+        token
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Lock release error for key ${key}:`, error);
+      return false;
+    }
+  },
+
   flushPattern: async (pattern: string): Promise<any>=> {
     try {
       const keys = await redis.keys(pattern);
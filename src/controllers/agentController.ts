@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { AvailabilityService } from '../services/availabilityService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class AgentController {
+  /**
+   * List availability and open leads of all active agents
+   * GET /api/agents/availability
+   */
+  static async listAvailability(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const agents = await AvailabilityService.listAvailability();
+
+      const response: ApiResponse = {
+        success: true,
+        data: agents,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List agent availability error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an agent's availability
+   * GET /api/agents/:id/availability
+   */
+  static async getAvailability(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const availability = await AvailabilityService.getAvailability(userId, req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        data: availability,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get agent availability error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an agent's status, working hours or capacity
+   * PUT /api/agents/:id/availability
+   */
+  static async updateAvailability(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const availability = await AvailabilityService.updateAvailability(userId, req.body, req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        data: availability,
+        message: 'Availability updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update agent availability error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { ApiKeyService } from '../services/apiKeyService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class ApiKeyController {
+  /**
+   * List API keys
+   * GET /api/api-keys
+   */
+  static async list(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const apiKeys = await ApiKeyService.listKeys();
+
+      const response: ApiResponse = {
+        success: true,
+        data: apiKeys,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List API keys error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get API key
+   * GET /api/api-keys/:id
+   */
+  static async getById(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const apiKey = await ApiKeyService.getKey(parseInt(req.params.id));
+
+      const response: ApiResponse = {
+        success: true,
+        data: apiKey,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get API key error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create API key (the key itself is only returned here)
+   * POST /api/api-keys
+   */
+  static async create(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const result = await ApiKeyService.createKey(req.body, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'API key created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create API key error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a new secret for an API key
+   * POST /api/api-keys/:id/rotate
+   */
+  static async rotate(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const result = await ApiKeyService.rotateKey(parseInt(req.params.id), req.body.grace_minutes, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'API key rotated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Rotate API key error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke API key
+   * DELETE /api/api-keys/:id
+   */
+  static async revoke(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      await ApiKeyService.revokeKey(parseInt(req.params.id), req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'API key revoked successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Revoke API key error:', error);
+      throw error;
+    }
+  }
+}
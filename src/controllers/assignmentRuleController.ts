@@ -0,0 +1,125 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { AssignmentService } from '../services/assignmentService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class AssignmentRuleController {
+  /**
+   * List assignment rules in evaluation order
+   * GET /api/assignment-rules
+   */
+  static async list(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const rules = await AssignmentService.getRules();
+
+      const response: ApiResponse = {
+        success: true,
+        data: rules,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List assignment rules error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create assignment rule
+   * POST /api/assignment-rules
+   */
+  static async create(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const rule = await AssignmentService.createRule(req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Assignment rule created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create assignment rule error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update assignment rule
+   * PUT /api/assignment-rules/:id
+   */
+  static async update(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const ruleId = parseInt(req.params.id);
+      const rule = await AssignmentService.updateRule(ruleId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: rule,
+        message: 'Assignment rule updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update assignment rule error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete assignment rule
+   * DELETE /api/assignment-rules/:id
+   */
+  static async delete(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const ruleId = parseInt(req.params.id);
+      await AssignmentService.deleteRule(ruleId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Assignment rule deleted successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Delete assignment rule error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get logged assignment decisions
+   * GET /api/assignment-rules/decisions
+   */
+  static async getDecisions(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const { lead_id, agent_id, page = 1, limit = 20 } = req.query;
+
+      const result = await AssignmentService.getDecisionLog(
+        {
+          lead_id: lead_id ? parseInt(lead_id as string) : undefined,
+          agent_id: agent_id ? parseInt(agent_id as string) : undefined
+        },
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get assignment decisions error:', error);
+      throw error;
+    }
+  }
+}
@@ -1,48 +1,68 @@
 import { Response } from 'express';
 import { AuthRequest } from '../types';
 import { AuthService } from '../services/authService';
-import { UserRole } from '../types';
-import { ApiResponse } from '../types';
+import { MfaService } from '../services/mfaService';
+import { ApiResponse, ClientInfo } from '../types';
 import logger from '../utils/logger';
 
+// Recorded on the session so users can tell their devices apart
+const clientInfo = (req: AuthRequest): ClientInfo => ({
+    user_agent: req.get('user-agent'),
+    ip_address: req.ip
+});
+
 export class AuthController {
 
-    static async register(req: AuthRequest, res: Response): Promise<any> {
+    static async acceptInvite(req: AuthRequest, res: Response): Promise<any> {
         try {
-            const { email, password, role, phone } = req.body;
+            const { token, password, phone } = req.body;
 
-            const result = await AuthService.register(
-                email,
-                password,
-                role as UserRole,
-                phone
-            );
+            const result = await AuthService.acceptInvite(token, password, phone, clientInfo(req));
 
             const response: ApiResponse = {
                 success: true,
                 data: result,
-                message: 'User registered successfully',
+                message: 'Account created successfully',
                 correlationId: req.correlationId
             };
 
             res.status(201).json(response);
         } catch (error: any) {
-            logger.error('Registration error:', error);
+            logger.error('Accept invite error:', error);
             throw error;
         }
     }
 
+    static async bootstrap(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const { email, password, phone } = req.body;
+
+            const result = await AuthService.bootstrap(email, password, phone, clientInfo(req));
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'Admin account created successfully',
+                correlationId: req.correlationId
+            };
+
+            res.status(201).json(response);
+        } catch (error: any) {
+            logger.error('Bootstrap error:', error);
+            throw error;
+        }
+    }
 
     static async login(req: AuthRequest, res: Response): Promise<any> {
         try {
             const { email, password } = req.body;
 
-            const result = await AuthService.login(email, password);
+            const result = await AuthService.login(email, password, clientInfo(req));
 
             const response: ApiResponse = {
                 success: true,
                 data: result,
-                message: 'Login successful',
+                message: 'mfa_required' in result ? 'MFA verification required' : 'Login successful',
                 correlationId: req.correlationId
             };
 
@@ -58,7 +78,7 @@ export class AuthController {
         try {
             const { refreshToken } = req.body;
 
-            const result = await AuthService.refreshAccessToken(refreshToken);
+            const result = await AuthService.refreshAccessToken(refreshToken, clientInfo(req));
 
             const response: ApiResponse = {
                 success: true,
@@ -79,7 +99,7 @@ export class AuthController {
             const { refreshToken } = req.body;
             const userId = req.user!.id;
 
-            await AuthService.logout(userId, refreshToken);
+            await AuthService.logout(userId, refreshToken, req.user);
 
             const response: ApiResponse = {
                 success: true,
@@ -94,6 +114,243 @@ export class AuthController {
         }
     }
 
+    static async listSessions(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const result = await AuthService.listSessions(req.user!.id, req.user!.sid);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('List sessions error:', error);
+            throw error;
+        }
+    }
+
+    static async revokeSession(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            await AuthService.revokeSession(req.user!.id, req.params.id);
+
+            const response: ApiResponse = {
+                success: true,
+                message: 'Session revoked successfully',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Revoke session error:', error);
+            throw error;
+        }
+    }
+
+    static async changePassword(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const { currentPassword, newPassword } = req.body;
+
+            const result = await AuthService.changePassword(req.user!.id, currentPassword, newPassword, req.user!.sid);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'Password changed successfully. Other sessions have been signed out',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Change password error:', error);
+            throw error;
+        }
+    }
+
+    static async forgotPassword(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            await AuthService.requestPasswordReset(req.body.email);
+
+            const response: ApiResponse = {
+                success: true,
+                message: 'If an account exists for this email, a reset code has been sent',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Forgot password error:', error);
+            throw error;
+        }
+    }
+
+    static async resetPassword(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const { token, newPassword } = req.body;
+
+            await AuthService.resetPassword(token, newPassword);
+
+            const response: ApiResponse = {
+                success: true,
+                message: 'Password reset successfully. Please log in again',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Reset password error:', error);
+            throw error;
+        }
+    }
+
+    static async verifyMfa(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const { challengeToken, code } = req.body;
+
+            const result = await AuthService.verifyMfaLogin(challengeToken, code, clientInfo(req));
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'Login successful',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('MFA verify error:', error);
+            throw error;
+        }
+    }
+
+    static async getMfaStatus(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const result = await MfaService.getStatus(req.user!.id, req.user!.role);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Get MFA status error:', error);
+            throw error;
+        }
+    }
+
+    static async setupMfa(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const user = AuthService.mfaSetupUser(req.user, req.body.challengeToken);
+
+            const result = await MfaService.beginSetup(user);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'Scan the secret with an authenticator app, then confirm a code to enable MFA',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('MFA setup error:', error);
+            throw error;
+        }
+    }
+
+    static async enableMfa(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const { code, challengeToken } = req.body;
+
+            const result = await AuthService.enableMfa(code, req.user, challengeToken, clientInfo(req));
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'MFA enabled. Store the recovery codes somewhere safe',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Enable MFA error:', error);
+            throw error;
+        }
+    }
+
+    static async disableMfa(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            await MfaService.disable(req.user!.id, req.user!.role, req.body.code);
+
+            const response: ApiResponse = {
+                success: true,
+                message: 'MFA disabled',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Disable MFA error:', error);
+            throw error;
+        }
+    }
+
+    static async regenerateRecoveryCodes(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const result = await MfaService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'Recovery codes regenerated',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Regenerate recovery codes error:', error);
+            throw error;
+        }
+    }
+
+    static async getMfaPolicy(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const result = await MfaService.getPolicy();
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Get MFA policy error:', error);
+            throw error;
+        }
+    }
+
+    static async updateMfaPolicy(req: AuthRequest, res: Response): Promise<any> {
+        try {
+            const result = await AuthService.setMfaPolicy(req.body, req.user!.id);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: 'MFA policy updated',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Update MFA policy error:', error);
+            throw error;
+        }
+    }
+
     static async getCurrentUser(req: AuthRequest, res: Response): Promise<any> {
         try {
             const response: ApiResponse = {
@@ -1,5 +1,5 @@
 import { Response } from 'express';
-import { AuthRequest, CallTaskStatus, UserRole } from '../types';
+import { AuthRequest, CallTaskStatus } from '../types';
 import { CallTaskService } from '../services/callTaskService';
 import { ApiResponse } from '../types';
 import logger from '../utils/logger';
@@ -12,7 +12,7 @@ export class CallTaskController {
   static async create(req: AuthRequest, res: Response): Promise<any | object> {
     try {
        
-      const task = await CallTaskService.createCallTask(req.body);
+      const task = await CallTaskService.createCallTask(req.body, req.user);
 
       const response: ApiResponse = {
         success: true,
@@ -91,12 +91,15 @@ export class CallTaskController {
   static async getMyTasks(req: AuthRequest, res: Response): Promise<any | object> {
     try {
       const agentId = req.user!.id;
-      const { status } = req.query;
+      // Query already validated and converted by schemas.myTasksQuery
+      const { status, limit, cursor, include_total } = req.query as Record<string, any>;
 
-      const tasks = await CallTaskService.getAgentTasks(
-        agentId,
-        status as CallTaskStatus | undefined
-      );
+      // Without paging parameters keep returning the full task list as before
+      const paged = limit !== undefined || cursor !== undefined || include_total !== undefined;
+      const taskStatus = status as CallTaskStatus | undefined;
+      const tasks = paged
+        ? await CallTaskService.getAgentTaskPage(agentId, taskStatus, { limit, cursor, include_total })
+        : await CallTaskService.getAgentTasks(agentId, taskStatus);
 
       const response: ApiResponse = {
         success: true,
@@ -137,24 +140,12 @@ export class CallTaskController {
   }
 
   /**
-   * Get overdue tasks (admin/manager only)
+   * Get overdue tasks (admins see all, managers their teams', agents their own)
    * GET /api/call-tasks/overdue
    */
   static async getOverdue(req: AuthRequest, res: Response): Promise<any | object> {
     try {
-      // Only admin and manager can see all overdue tasks
-      if (req.user!.role === UserRole.AGENT) {
-        const tasks = await CallTaskService.getOverdueTasks(req.user!.id);
-        const response: ApiResponse = {
-          success: true,
-          data: tasks,
-          correlationId: req.correlationId
-        };
-        res.status(200).json(response);
-        return;
-      }
-
-      const tasks = await CallTaskService.getOverdueTasks();
+      const tasks = await CallTaskService.getOverdueTasks(req.user);
 
       const response: ApiResponse = {
         success: true,
@@ -205,7 +196,8 @@ export class CallTaskController {
       const stats = await CallTaskService.getAgentTaskStats(
         agentId,
         startDate as string,
-        endDate as string
+        endDate as string,
+        req.user
       );
 
       const response: ApiResponse = {
@@ -55,16 +55,17 @@ export class CsvController {
     static async getHistory(req: AuthRequest, res: Response): Promise<any | object> {
         try {
             const userId = req.user!.id;
-            const { limit = 10 } = req.query;
+            // Query already validated and converted by schemas.csvHistoryQuery
+            const { limit, cursor, include_total } = req.query as Record<string, any>;
 
-            const history = await CsvService.getUserCsvHistory(
-                userId,
-                parseInt(limit as string)
-            );
+            const history = await CsvService.getUserCsvHistory(userId, limit, { cursor, include_total });
+
+            // `limit` predates cursors, so only `cursor` or `include_total` switch to the paged shape
+            const paged = cursor !== undefined || include_total !== undefined;
 
             const response: ApiResponse = {
                 success: true,
-                data: history,
+                data: paged ? history : history.history,
                 correlationId: req.correlationId
             };
 
@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { CustomFieldService } from '../services/customFieldService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class CustomFieldController {
+  /**
+   * List custom field definitions
+   * GET /api/custom-fields
+   */
+  static async list(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const definitions = await CustomFieldService.getDefinitions();
+
+      const response: ApiResponse = {
+        success: true,
+        data: definitions,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List custom fields error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create custom field definition
+   * POST /api/custom-fields
+   */
+  static async create(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const definition = await CustomFieldService.createDefinition(req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: definition,
+        message: 'Custom field created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create custom field error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update custom field definition
+   * PUT /api/custom-fields/:id
+   */
+  static async update(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const fieldId = parseInt(req.params.id);
+      const definition = await CustomFieldService.updateDefinition(fieldId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: definition,
+        message: 'Custom field updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update custom field error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete custom field definition and its stored values
+   * DELETE /api/custom-fields/:id
+   */
+  static async delete(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const fieldId = parseInt(req.params.id);
+      await CustomFieldService.deleteDefinition(fieldId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Custom field deleted successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Delete custom field error:', error);
+      throw error;
+    }
+  }
+}
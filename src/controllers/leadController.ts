@@ -1,6 +1,7 @@
 import { Response } from 'express';
-import { AuthRequest, LeadStatus } from '../types';
+import { AuthRequest, LeadExportFormat, LeadFilters } from '../types';
 import { LeadService } from '../services/leadService';
+import { EXPORT_FORMATS, LeadExportService } from '../services/leadExportService';
 import { ApiResponse } from '../types';
 import logger from '../utils/logger';
 
@@ -8,7 +9,11 @@ export class LeadController {
    
     static async create(req: AuthRequest, res: Response): Promise<any | object> {
         try {
-            const lead = await LeadService.createLead(req.body);
+            const lead = await LeadService.createLead(req.body, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
 
             const response: ApiResponse = {
                 success: true,
@@ -26,7 +31,7 @@ export class LeadController {
     static async getById(req: AuthRequest, res: Response): Promise<any | object> {
         try {
             const leadId = parseInt(req.params.id);
-            const lead = await LeadService.getLeadById(leadId);
+            const lead = await LeadService.getLeadById(leadId, req.user);
 
             const response: ApiResponse = {
                 success: true,
@@ -41,20 +46,59 @@ export class LeadController {
         }
     }
 
-    static async getAll(req: AuthRequest, res: Response): Promise<any | object> {
+    static async getTimeline(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const leadId = parseInt(req.params.id);
+            // Query already validated and converted by schemas.leadTimelineQuery
+            const { page, limit } = req.query as Record<string, any>;
+
+            const timeline = await LeadService.getLeadTimeline(leadId, page, limit, req.user);
+
+            const response: ApiResponse = {
+                success: true,
+                data: timeline,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Get lead timeline error:', error);
+            throw error;
+        }
+    }
+
+    static async getHistory(req: AuthRequest, res: Response): Promise<any | object> {
         try {
-            const { status, source, assigned_to, page = 1, limit = 20 } = req.query;
+            const leadId = parseInt(req.params.id);
+            // Query already validated and converted by schemas.leadHistoryQuery
+            const { page, limit } = req.query as Record<string, any>;
+
+            const history = await LeadService.getLeadHistory(leadId, page, limit, req.user);
 
-            const filters = {
-                status: status as LeadStatus | undefined,
-                source: source as string | undefined,
-                assigned_to: assigned_to ? parseInt(assigned_to as string) : undefined
+            const response: ApiResponse = {
+                success: true,
+                data: history,
+                correlationId: req.correlationId
             };
 
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Get lead history error:', error);
+            throw error;
+        }
+    }
+
+    static async getAll(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            // Query already validated and converted by schemas.listLeadsQuery
+            const { page, limit, sort, order, fields, cursor, include_total, ...filters } = req.query as Record<string, any>;
+
             const result = await LeadService.getLeads(
-                filters,
-                parseInt(page as string),
-                parseInt(limit as string)
+                filters as LeadFilters,
+                page,
+                limit,
+                { sort, order, fields, cursor, include_total },
+                req.user
             );
 
             const response: ApiResponse = {
@@ -72,7 +116,14 @@ export class LeadController {
     static async update(req: AuthRequest, res: Response): Promise<any | object> {
         try {
             const leadId = parseInt(req.params.id);
-            const lead = await LeadService.updateLead(leadId, req.body);
+            const { status_reason, ...changes } = req.body;
+
+            const lead = await LeadService.updateLead(leadId, changes, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId,
+                reason: status_reason
+            });
 
             const response: ApiResponse = {
                 success: true,
@@ -92,7 +143,11 @@ export class LeadController {
     static async delete(req: AuthRequest, res: Response): Promise<any | object> {
         try {
             const leadId = parseInt(req.params.id);
-            await LeadService.deleteLead(leadId);
+            await LeadService.deleteLead(leadId, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
 
             const response: ApiResponse = {
                 success: true,
@@ -107,13 +162,255 @@ export class LeadController {
         }
     }
 
+    static async findDuplicates(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            // Query already validated and converted by schemas.duplicateLeadsQuery
+            const { lead_id, limit } = req.query as Record<string, any>;
+
+            const result = await LeadService.findDuplicates(lead_id, limit, req.user);
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Find duplicate leads error:', error);
+            throw error;
+        }
+    }
+
+
+    static async merge(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const leadId = parseInt(req.params.id);
+            const result = await LeadService.mergeLeads(leadId, req.body.secondary_id, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: result.logs_not_moved.length > 0
+                    ? `Leads merged, but moving ${result.logs_not_moved.join(' and ')} failed`
+                    : 'Leads merged successfully',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Merge leads error:', error);
+            throw error;
+        }
+    }
+
+
+    static async restore(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const leadId = parseInt(req.params.id);
+            const lead = await LeadService.restoreLead(leadId, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: lead,
+                message: 'Lead restored successfully',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Restore lead error:', error);
+            throw error;
+        }
+    }
+
+
+    static async purge(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const result = await LeadService.purgeDeletedLeads(req.body.older_than_days, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: `${result.purged} deleted leads purged`,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Purge leads error:', error);
+            throw error;
+        }
+    }
+
+
+    static async autoAssign(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const result = await LeadService.autoAssignBacklog(req.body.limit, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: `${result.assigned} of ${result.processed} unassigned leads assigned`,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Auto-assign leads error:', error);
+            throw error;
+        }
+    }
+
+    static async bulk(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const result = await LeadService.bulkUpdateLeads(req.body, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: result,
+                message: `${result.succeeded} of ${result.matched} leads updated`,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Bulk lead action error:', error);
+            throw error;
+        }
+    }
+
+    static async export(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const job = await LeadExportService.queueIfLarge(req.body, req.user!);
+
+            if (job) {
+                const response: ApiResponse = {
+                    success: true,
+                    data: { job_id: job._id, status: job.status, total_rows: job.total_rows },
+                    message: 'Export is running in the background; poll the job for a download URL',
+                    correlationId: req.correlationId
+                };
+
+                res.status(202).json(response);
+                return;
+            }
+
+            const { contentType, extension } = EXPORT_FORMATS[req.body.format as LeadExportFormat];
+            const fileName = `leads-${new Date().toISOString().slice(0, 10)}.${extension}`;
+            res.setHeader('Content-Type', contentType);
+            res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+            await LeadExportService.streamLeads(req.body, res, req.user);
+        } catch (error: any) {
+            logger.error('Export leads error:', error);
+            // Part of the file is already out; cut the download short rather than send JSON
+            if (res.headersSent) {
+                res.destroy(error);
+                return;
+            }
+            throw error;
+        }
+    }
+
+    static async getExportJob(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const job = await LeadExportService.getJob(req.params.id, req.user!);
+
+            const response: ApiResponse = {
+                success: true,
+                data: job,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Get export job error:', error);
+            throw error;
+        }
+    }
+
+
+    static async addTags(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const leadId = parseInt(req.params.id);
+
+            const tags = await LeadService.addTags(leadId, req.body.tags, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: { lead_id: leadId, tags },
+                message: 'Tags added successfully',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Add lead tags error:', error);
+            throw error;
+        }
+    }
+
+
+    static async removeTags(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const leadId = parseInt(req.params.id);
+
+            const tags = await LeadService.removeTags(leadId, req.body.tags, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: { lead_id: leadId, tags },
+                message: 'Tags removed successfully',
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Remove lead tags error:', error);
+            throw error;
+        }
+    }
+
   
     static async assign(req: AuthRequest, res: Response): Promise<any | object> {
         try {
             const leadId = parseInt(req.params.id);
             const { agent_id } = req.body;
 
-            const lead = await LeadService.assignLead(leadId, agent_id);
+            const lead = await LeadService.assignLead(leadId, agent_id, {
+                user_id: req.user!.id,
+                role: req.user!.role,
+                correlation_id: req.correlationId
+            });
 
             const response: ApiResponse = {
                 success: true,
@@ -132,12 +429,10 @@ export class LeadController {
     
     static async search(req: AuthRequest, res: Response): Promise<any | object> {
         try {
-            const { q, limit = 20 } = req.query;
+            // Query already validated and converted by schemas.searchLeadsQuery
+            const { q, limit, ...filters } = req.query as Record<string, any>;
 
-            const leads = await LeadService.searchLeads(
-                q as string,
-                parseInt(limit as string)
-            );
+            const leads = await LeadService.searchLeads(q, limit, filters as LeadFilters, req.user);
 
             const response: ApiResponse = {
                 success: true,
@@ -155,7 +450,7 @@ export class LeadController {
 
     static async getStats(req: AuthRequest, res: Response): Promise<any | object> {
         try {
-            const stats = await LeadService.getLeadStats();
+            const stats = await LeadService.getLeadStats(req.user);
 
             const response: ApiResponse = {
                 success: true,
@@ -170,6 +465,23 @@ export class LeadController {
         }
     }
 
+    static async getPipeline(req: AuthRequest, res: Response): Promise<any | object> {
+        try {
+            const pipeline = await LeadService.getPipelineCounts(req.user);
+
+            const response: ApiResponse = {
+                success: true,
+                data: pipeline,
+                correlationId: req.correlationId
+            };
+
+            res.status(200).json(response);
+        } catch (error: any) {
+            logger.error('Get lead pipeline error:', error);
+            throw error;
+        }
+    }
+
     static async getImageUploadUrl(req: AuthRequest, res: Response): Promise<any | object> {
         try {
             const { fileName, fileType } = req.body;
@@ -0,0 +1,94 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { LeadScoringService } from '../services/leadScoringService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class LeadScoringController {
+  /**
+   * Get scoring weights and signal values
+   * GET /api/lead-scoring/config
+   */
+  static async getConfig(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const config = await LeadScoringService.getConfig();
+
+      const response: ApiResponse = {
+        success: true,
+        data: config,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get scoring config error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update scoring weights and signal values (rescores leads in the background)
+   * PUT /api/lead-scoring/config
+   */
+  static async updateConfig(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const config = await LeadScoringService.updateConfig(req.body, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: config,
+        message: 'Scoring config updated; leads are being rescored',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update scoring config error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rescore all leads now
+   * POST /api/lead-scoring/recompute
+   */
+  static async recompute(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const rescored = await LeadScoringService.recomputeAll();
+
+      const response: ApiResponse = {
+        success: true,
+        data: { rescored },
+        message: `${rescored} lead scores changed`,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Recompute lead scores error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute a lead's score and show what each signal contributed
+   * GET /api/leads/:id/score
+   */
+  static async getLeadScore(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const leadId = parseInt(req.params.id);
+      const breakdown = await LeadScoringService.scoreLead(leadId, req.user);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { lead_id: leadId, ...breakdown },
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get lead score error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { PipelineService } from '../services/pipelineService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class PipelineController {
+  /**
+   * Get pipeline stages and transition rules
+   * GET /api/pipeline
+   */
+  static async get(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const pipeline = await PipelineService.getPipeline();
+
+      const response: ApiResponse = {
+        success: true,
+        data: pipeline,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get pipeline error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create pipeline stage
+   * POST /api/pipeline/stages
+   */
+  static async createStage(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const stage = await PipelineService.createStage(req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: stage,
+        message: 'Pipeline stage created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create pipeline stage error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update pipeline stage
+   * PUT /api/pipeline/stages/:id
+   */
+  static async updateStage(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const stageId = parseInt(req.params.id);
+      const stage = await PipelineService.updateStage(stageId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: stage,
+        message: 'Pipeline stage updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update pipeline stage error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete pipeline stage
+   * DELETE /api/pipeline/stages/:id
+   */
+  static async deleteStage(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const stageId = parseInt(req.params.id);
+      await PipelineService.deleteStage(stageId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Pipeline stage deleted successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Delete pipeline stage error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace allowed transitions
+   * PUT /api/pipeline/transitions
+   */
+  static async setTransitions(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const pipeline = await PipelineService.setTransitions(req.body.transitions);
+
+      const response: ApiResponse = {
+        success: true,
+        data: pipeline,
+        message: 'Pipeline transitions updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Set pipeline transitions error:', error);
+      throw error;
+    }
+  }
+}
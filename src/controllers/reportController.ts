@@ -15,7 +15,7 @@ export class ReportController {
                 ? (date as string)
                 : new Date().toISOString().split('T')[0];
 
-            const summary = await ReportService.getDailySummary(reportDate);
+            const summary = await ReportService.getDailySummary(reportDate, req.user);
 
             const response: ApiResponse = {
                 success: true,
@@ -45,7 +45,8 @@ export class ReportController {
             const report = await ReportService.getAgentPerformanceReport(
                 agentId,
                 start,
-                end
+                end,
+                req.user
             );
 
             const response: ApiResponse = {
@@ -74,7 +75,7 @@ export class ReportController {
                 ? (startDate as string)
                 : new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
-            const overview = await ReportService.getTeamPerformanceOverview(start, end);
+            const overview = await ReportService.getTeamPerformanceOverview(start, end, req.user);
 
             const response: ApiResponse = {
                 success: true,
@@ -91,7 +92,7 @@ export class ReportController {
 
     static async getCallVolumeTrends(req: AuthRequest, res: Response): Promise<any | object> {
         try {
-            const trends = await ReportService.getCallVolumeTrends();
+            const trends = await ReportService.getCallVolumeTrends(req.user);
 
             const response: ApiResponse = {
                 success: true,
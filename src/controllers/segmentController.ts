@@ -0,0 +1,126 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { SegmentService } from '../services/segmentService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class SegmentController {
+  /**
+   * List saved segments
+   * GET /api/leads/segments
+   */
+  static async list(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const segments = await SegmentService.listSegments();
+
+      const response: ApiResponse = {
+        success: true,
+        data: segments,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List segments error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create saved segment
+   * POST /api/leads/segments
+   */
+  static async create(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const segment = await SegmentService.createSegment(req.body, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: segment,
+        message: 'Segment created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create segment error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update saved segment
+   * PUT /api/leads/segments/:id
+   */
+  static async update(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const segmentId = parseInt(req.params.id);
+      const segment = await SegmentService.updateSegment(segmentId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: segment,
+        message: 'Segment updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update segment error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete saved segment
+   * DELETE /api/leads/segments/:id
+   */
+  static async delete(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const segmentId = parseInt(req.params.id);
+      await SegmentService.deleteSegment(segmentId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Segment deleted successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Delete segment error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get leads matching a saved segment
+   * GET /api/leads/segments/:id/leads
+   */
+  static async getLeads(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const segmentId = parseInt(req.params.id);
+      // Query already validated and converted by schemas.segmentLeadsQuery
+      const { page, limit, cursor, include_total } = req.query as Record<string, any>;
+
+      const result = await SegmentService.getSegmentLeads(
+        segmentId,
+        page,
+        limit,
+        { cursor, include_total },
+        req.user
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get segment leads error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { TeamService } from '../services/teamService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class TeamController {
+  /**
+   * List teams (managers see the teams they run)
+   * GET /api/teams
+   */
+  static async list(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const teams = await TeamService.listTeams(req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        data: teams,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List teams error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get team
+   * GET /api/teams/:id
+   */
+  static async getById(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await TeamService.getTeam(teamId, req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        data: team,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get team error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create team
+   * POST /api/teams
+   */
+  static async create(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const team = await TeamService.createTeam(req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: team,
+        message: 'Team created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create team error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update team name, manager or members
+   * PUT /api/teams/:id
+   */
+  static async update(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await TeamService.updateTeam(teamId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: team,
+        message: 'Team updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update team error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete team
+   * DELETE /api/teams/:id
+   */
+  static async delete(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const teamId = parseInt(req.params.id);
+      await TeamService.deleteTeam(teamId);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Team deleted successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Delete team error:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,332 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { UserService } from '../services/userService';
+import { InviteService } from '../services/inviteService';
+import { SecurityEventService } from '../services/securityEventService';
+import { ApiResponse } from '../types';
+import logger from '../utils/logger';
+
+export class UserController {
+  /**
+   * List users with filters
+   * GET /api/users
+   */
+  static async list(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      // Query already validated and converted by schemas.listUsersQuery
+      const { page, limit, ...filters } = req.query as Record<string, any>;
+
+      const result = await UserService.listUsers(filters, page, limit);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List users error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get user
+   * GET /api/users/:id
+   */
+  static async getById(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await UserService.getUser(userId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: user,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Get user error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a user's email or phone
+   * PUT /api/users/:id
+   */
+  static async update(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await UserService.updateProfile(userId, req.body);
+
+      const response: ApiResponse = {
+        success: true,
+        data: user,
+        message: 'User updated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Update user error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a user's role
+   * PUT /api/users/:id/role
+   */
+  static async changeRole(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await UserService.changeRole(userId, req.body.role, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: user,
+        message: 'User role changed; the user must sign in again',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Change user role error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a user, optionally reassigning their open leads and tasks
+   * POST /api/users/:id/deactivate
+   */
+  static async deactivate(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const result = await UserService.deactivateUser(userId, req.body.reassign_to, {
+        user_id: req.user!.id,
+        role: req.user!.role,
+        correlation_id: req.correlationId
+      });
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'User deactivated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Deactivate user error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reactivate a user
+   * POST /api/users/:id/reactivate
+   */
+  static async reactivate(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await UserService.reactivateUser(userId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: user,
+        message: 'User reactivated successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Reactivate user error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign a user out of every session
+   * POST /api/users/:id/logout
+   */
+  static async logout(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const result = await UserService.logoutUser(userId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'User logged out of all sessions',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Force logout error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reset a user's MFA
+   * POST /api/users/:id/mfa/reset
+   */
+  static async resetMfa(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const result = await UserService.resetMfa(userId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'MFA reset successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Reset MFA error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Clear a user's login lockout
+   * POST /api/users/:id/unlock
+   */
+  static async unlock(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const userId = parseInt(req.params.id);
+      const result = await UserService.unlockLogin(userId, req.user!.id);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'User login unlocked',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Unlock user error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List login security events (failed logins, lockouts, unlocks)
+   * GET /api/users/security-events
+   */
+  static async listSecurityEvents(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      // Query already validated and converted by schemas.listSecurityEventsQuery
+      const { page, limit, ...filters } = req.query as Record<string, any>;
+
+      const result = await SecurityEventService.listEvents(filters, page, limit);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List security events error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * IPs with the most failed logins (credential stuffing)
+   * GET /api/users/security-events/suspicious-ips
+   */
+  static async suspiciousIps(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const { hours, limit } = req.query as Record<string, any>;
+
+      const result = await SecurityEventService.getSuspiciousIps(hours, limit);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Suspicious IPs error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invite someone to create an account
+   * POST /api/users/invites
+   */
+  static async createInvite(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const result = await InviteService.createInvite(req.body, req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        data: result,
+        message: 'Invite created successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(201).json(response);
+    } catch (error: any) {
+      logger.error('Create invite error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List invites
+   * GET /api/users/invites
+   */
+  static async listInvites(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const invites = await InviteService.listInvites(req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        data: invites,
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('List invites error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a pending invite
+   * DELETE /api/users/invites/:id
+   */
+  static async revokeInvite(req: AuthRequest, res: Response): Promise<any | object> {
+    try {
+      const inviteId = parseInt(req.params.id);
+      await InviteService.revokeInvite(inviteId, req.user!);
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Invite revoked successfully',
+        correlationId: req.correlationId
+      };
+
+      res.status(200).json(response);
+    } catch (error: any) {
+      logger.error('Revoke invite error:', error);
+      throw error;
+    }
+  }
+}
@@ -1,16 +1,26 @@
 // middlewares/auth.ts
 import { RequestHandler } from 'express';
-import { AuthRequest } from '../types';
+import { ApiKeyScope, AuthRequest } from '../types';
 import { AuthService } from '../services/authService';
-import { UnauthorizedError } from '../utils/errors';
+import { ApiKeyService } from '../services/apiKeyService';
+import { TokenRevocationService } from '../services/tokenRevocationService';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
 import logger from '../utils/logger';
 
 export const authenticate: RequestHandler = async (req, _res, next) => {
   const authReq = req as AuthRequest;
 
+  // Already authenticated by acceptApiKey for this route
+  if (authReq.apiKey) {
+    return next();
+  }
+
   try {
     const authHeader = String(req.headers.authorization ?? '');
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      if (req.get('x-api-key')) {
+        return next(new ForbiddenError('API keys are not accepted for this endpoint'));
+      }
       return next(new UnauthorizedError('No token provided'));
     }
 
@@ -21,10 +31,18 @@ export const authenticate: RequestHandler = async (req, _res, next) => {
       return next(new UnauthorizedError('Invalid token payload'));
     }
 
+    // Logged out, session revoked, or issued before a role change / deactivation
+    if (await TokenRevocationService.isRevoked(payload)) {
+      return next(new UnauthorizedError('Token has been revoked'));
+    }
+
     authReq.user = {
       id: (payload as any).id ?? (payload as any).userId ?? null,
       email: (payload as any).email ?? null,
-      role: (payload as any).role ?? null
+      role: (payload as any).role ?? null,
+      sid: payload.sid,
+      jti: payload.jti,
+      exp: payload.exp
     };
 
     return next();
@@ -46,11 +64,14 @@ export const optionalAuth: RequestHandler = async (req, _res, next) => {
     const token = authHeader.slice(7);
     const payload = await Promise.resolve(AuthService.verifyAccessToken(token));
 
-    if (payload && typeof payload === 'object') {
+    if (payload && typeof payload === 'object' && !(await TokenRevocationService.isRevoked(payload))) {
       authReq.user = {
         id: (payload as any).id ?? (payload as any).userId ?? null,
         email: (payload as any).email ?? null,
-        role: (payload as any).role ?? null
+        role: (payload as any).role ?? null,
+        sid: payload.sid,
+        jti: payload.jti,
+        exp: payload.exp
       };
     }
   } catch (err: any) {
@@ -59,3 +80,30 @@ export const optionalAuth: RequestHandler = async (req, _res, next) => {
 
   return next();
 };
+
+/**
+ * Let integrations call a route with an `X-API-Key` that has `scope`. Register it for the
+ * route before the router's `authenticate`, which then lets the request through; routes
+ * without it reject API keys. Requests act as the key's user, so role checks still apply.
+ */
+export const acceptApiKey =
+  (scope: ApiKeyScope): RequestHandler =>
+  async (req, _res, next) => {
+    const authReq = req as AuthRequest;
+
+    const key = req.get('x-api-key');
+    if (!key || authReq.apiKey) {
+      return next();
+    }
+
+    try {
+      const { apiKey, user } = await ApiKeyService.authenticate(key, scope, req.ip);
+
+      authReq.user = { id: user.id, email: user.email, role: user.role };
+      authReq.apiKey = { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  };
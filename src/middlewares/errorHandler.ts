@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { AppError } from '../utils/errors';
+import { AppError, ConflictError } from '../utils/errors';
 import { ApiResponse } from '../types';
 import logger from '../utils/logger';
 import * as Sentry from '@sentry/node';
@@ -31,6 +31,11 @@ export const errorHandler = (
             error: error.message,
             correlationId: (req as any).correlationId
         };
+        // AppError resets the prototype, so subclasses can't be told apart with instanceof
+        const details = (error as ConflictError).details;
+        if (details) {
+            response.data = details;
+        }
 
         res.status(error.statusCode).json(response);
         return;
@@ -4,6 +4,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { AuthRequest } from '../types';
 import logger from '../utils/logger';
 import { ApiLog } from '../models/mongodb/ApiLog';
+import { redactSecrets } from '../utils/redact';
 
 /**
  * Request logger middleware (Express RequestHandler)
@@ -56,10 +57,12 @@ export const requestLogger: RequestHandler = (req, res, next) => {
             method: req.method,
             path: req.path,
             user_id: authReq.user?.id ?? null,
+            api_key_id: authReq.apiKey?.id ?? null,
             status_code: res.statusCode,
             duration_ms: duration,
-            request_body: req.body,
-            response_body: responseBody,
+            // Tokens, passwords and new API keys must not end up in the logs
+            request_body: redactSecrets(req.body),
+            response_body: redactSecrets(responseBody),
             ip_address: req.ip,
             user_agent: req.get('user-agent'),
             timestamp: new Date()
@@ -11,6 +11,14 @@ const rateLimiter = new RateLimiterRedis({
     duration: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000') / 1000, // Convert to seconds
 });
 
+// Sensitive auth endpoints, per IP (failed logins are also locked per account by LoginProtectionService)
+const strictLimiter = new RateLimiterRedis({
+    storeClient: redis,
+    keyPrefix: 'strict_rate_limit',
+    points: 5, // 5 requests
+    duration: 60, // per minute
+});
+
 
 export const rateLimitMiddleware = async (
     req: Request,
@@ -48,13 +56,6 @@ export const strictRateLimitMiddleware = async (
     res: Response,
     next: NextFunction
 ): Promise<any> => {
-    const strictLimiter = new RateLimiterRedis({
-        storeClient: redis,
-        keyPrefix: 'strict_rate_limit',
-        points: 5, // 5 requests
-        duration: 60, // per minute
-    });
-
     try {
         const key = req.ip || 'unknown';
         await strictLimiter.consume(key);
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import { ValidationError } from '../utils/errors';
+import { compilePattern } from '../utils/safeRegex';
+import { API_KEY_SCOPES, LEAD_EXPORT_FIELDS, LEAD_SELECT_FIELDS, LEAD_SORT_FIELDS } from '../types';
 
 export const validate = (schema: Joi.ObjectSchema) => {
     return (req: Request, _res: Response, next: NextFunction): void => {
@@ -23,11 +25,115 @@ export const validate = (schema: Joi.ObjectSchema) => {
     };
 };
 
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+    return (req: Request, _res: Response, next: NextFunction): void => {
+        const { error, value } = schema.validate(req.query, {
+            abortEarly: false,
+            stripUnknown: true,
+            convert: true
+        });
+
+        if (error) {
+            const errorMessage = error.details
+                .map(detail => detail.message)
+                .join(', ');
+            next(new ValidationError(errorMessage));
+            return;
+        }
+
+        req.query = value;
+        next();
+    };
+};
+
+// `a,b,c` query value -> unique array, optionally restricted to known values
+const commaSeparated = (allowed?: readonly string[]) =>
+    Joi.string().custom((value: string, helpers) => {
+        const items = [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))];
+        const invalid = allowed ? items.filter(item => !allowed.includes(item)) : [];
+        if (invalid.length > 0) {
+            return helpers.message({ custom: `{{#label}} contains unsupported values: ${invalid.join(', ')}` });
+        }
+        return items;
+    });
+
+// `to` must not precede `from` when both are given
+const dateUntil = (from: string) =>
+    Joi.date().iso().when(from, {
+        is: Joi.exist(),
+        then: Joi.date().min(Joi.ref(from))
+    });
+
+// Regular expression that compiles and has no nested quantifiers (see utils/safeRegex)
+const regexPattern = () =>
+    Joi.string().max(200).custom((value: string, helpers) => {
+        const compiled = compilePattern(value);
+        return typeof compiled === 'string' ? helpers.message({ custom: `{{#label}} ${compiled}` }) : value;
+    });
+
+// IANA time zone name, e.g. "Europe/Berlin"
+const timezone = Joi.string().max(64).custom((value: string, helpers) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+    } catch {
+        return helpers.message({ custom: `{{#label}} is not a valid time zone` });
+    }
+    return value;
+});
+
+// LeadFilters as accepted on the query string (listing and search)
+const leadFilterQuery = {
+    status: commaSeparated().optional(),
+    source: Joi.string().max(100).optional(),
+    assigned_to: Joi.number().integer().positive().optional(),
+    unassigned: Joi.boolean().optional(),
+    has_email: Joi.boolean().optional(),
+    tags: commaSeparated().lowercase().optional(),
+    created_from: Joi.date().iso().optional(),
+    created_to: dateUntil('created_from').optional(),
+    updated_from: Joi.date().iso().optional(),
+    updated_to: dateUntil('updated_from').optional(),
+    custom_fields: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+    min_score: Joi.number().integer().min(0).max(100).optional(),
+    max_score: Joi.number().integer().min(0).max(100).when('min_score', {
+        is: Joi.exist(),
+        then: Joi.number().min(Joi.ref('min_score'))
+    }).optional()
+};
+
+// LeadFilters as accepted in a JSON body (segments, bulk actions, exports)
+const leadFiltersBody = Joi.object({
+    status: Joi.alternatives(
+        Joi.string().max(50),
+        Joi.array().items(Joi.string().max(50)).min(1).unique()
+    ).optional(),
+    source: Joi.string().max(100).optional(),
+    assigned_to: Joi.number().integer().positive().optional(),
+    unassigned: Joi.boolean().optional(),
+    has_email: Joi.boolean().optional(),
+    tags: Joi.array().items(Joi.string().trim().lowercase().min(1).max(50)).unique().optional(),
+    created_from: Joi.date().iso().optional(),
+    created_to: dateUntil('created_from').optional(),
+    updated_from: Joi.date().iso().optional(),
+    updated_to: dateUntil('updated_from').optional(),
+    custom_fields: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+    min_score: Joi.number().integer().min(0).max(100).optional(),
+    max_score: Joi.number().integer().min(0).max(100).optional()
+});
+
+// Filters a saved segment may store
+const segmentFilters = leadFiltersBody.min(1);
+
 export const schemas = {
-    register: Joi.object({
+    acceptInvite: Joi.object({
+        token: Joi.string().hex().length(64).required(),
+        password: Joi.string().min(8).required(),
+        phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional()
+    }),
+
+    bootstrap: Joi.object({
         email: Joi.string().email().required(),
         password: Joi.string().min(8).required(),
-        role: Joi.string().valid('admin', 'manager', 'agent').required(),
         phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional()
     }),
 
@@ -40,32 +146,343 @@ export const schemas = {
         refreshToken: Joi.string().required()
     }),
 
+    changePassword: Joi.object({
+        currentPassword: Joi.string().required(),
+        newPassword: Joi.string().min(8).required()
+    }),
+
+    forgotPassword: Joi.object({
+        email: Joi.string().email().required()
+    }),
+
+    resetPassword: Joi.object({
+        token: Joi.string().hex().length(64).required(),
+        newPassword: Joi.string().min(8).required()
+    }),
+
+    verifyMfa: Joi.object({
+        challengeToken: Joi.string().required(),
+        code: Joi.string().trim().max(20).required()
+    }),
+
+    setupMfa: Joi.object({
+        challengeToken: Joi.string().optional()
+    }),
+
+    enableMfa: Joi.object({
+        challengeToken: Joi.string().optional(),
+        code: Joi.string().pattern(/^\d{6}$/).required()
+    }),
+
+    mfaCode: Joi.object({
+        code: Joi.string().trim().max(20).required()
+    }),
+
+    updateMfaPolicy: Joi.object({
+        admin: Joi.boolean(),
+        manager: Joi.boolean(),
+        agent: Joi.boolean()
+    }).min(1),
+
     // Lead schemas
+    listLeadsQuery: Joi.object({
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(100).default(20),
+        ...leadFilterQuery,
+        sort: Joi.string().valid(...LEAD_SORT_FIELDS).default('created_at'),
+        order: Joi.string().valid('asc', 'desc').default('desc'),
+        fields: commaSeparated(LEAD_SELECT_FIELDS).optional(),
+        cursor: Joi.string().max(1000).optional(),
+        include_total: Joi.boolean().optional()
+    }).oxor('assigned_to', 'unassigned'),
+
+    searchLeadsQuery: Joi.object({
+        q: Joi.string().trim().min(2).max(255).required(),
+        limit: Joi.number().integer().min(1).max(100).default(20),
+        ...leadFilterQuery
+    }).oxor('assigned_to', 'unassigned'),
+
+    segmentLeadsQuery: Joi.object({
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(100).default(20),
+        cursor: Joi.string().max(1000).optional(),
+        include_total: Joi.boolean().optional()
+    }),
+
+    // Every timeline source is read up to page * limit entries, so deep pages are capped
+    leadTimelineQuery: Joi.object({
+        page: Joi.number().integer().min(1).max(100).default(1),
+        limit: Joi.number().integer().min(1).max(100).default(20)
+    }),
+
+    duplicateLeadsQuery: Joi.object({
+        lead_id: Joi.number().integer().positive().optional(),
+        limit: Joi.number().integer().min(1).max(200).default(50)
+    }),
+
+    leadHistoryQuery: Joi.object({
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(100).default(20)
+    }),
+
     createLead: Joi.object({
         name: Joi.string().min(2).max(255).required(),
         phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).required(),
         email: Joi.string().email().optional().allow(''),
-        status: Joi.string().valid('new', 'contacted', 'qualified', 'converted').optional(),
+        status: Joi.string().max(50).optional(),
         source: Joi.string().max(100).optional(),
         assigned_to: Joi.number().integer().positive().optional(),
-        image_url: Joi.string().uri().optional()
+        image_url: Joi.string().uri().optional(),
+        custom_fields: Joi.object().unknown(true).optional()
     }),
 
     updateLead: Joi.object({
         name: Joi.string().min(2).max(255).optional(),
         phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional(),
         email: Joi.string().email().optional().allow(''),
-        status: Joi.string().valid('new', 'contacted', 'qualified', 'converted').optional(),
+        status: Joi.string().max(50).optional(),
+        status_reason: Joi.string().max(500).optional(),
         source: Joi.string().max(100).optional(),
         assigned_to: Joi.number().integer().positive().optional().allow(null),
-        image_url: Joi.string().uri().optional().allow(null)
+        image_url: Joi.string().uri().optional().allow(null),
+        custom_fields: Joi.object().unknown(true).optional()
     }),
 
     assignLead: Joi.object({
         agent_id: Joi.number().integer().positive().required()
     }),
 
+    mergeLead: Joi.object({
+        secondary_id: Joi.number().integer().positive().required()
+    }),
+
+    autoAssignLeads: Joi.object({
+        limit: Joi.number().integer().min(1).max(1000).default(100)
+    }),
+
+    bulkLeads: Joi.object({
+        ids: Joi.array().items(Joi.number().integer().positive()).min(1).max(5000),
+        filters: segmentFilters,
+        action: Joi.string().valid('assign', 'status', 'add_tags', 'remove_tags', 'delete').required(),
+        agent_id: Joi.number().integer().positive().when('action', {
+            is: 'assign', then: Joi.required(), otherwise: Joi.forbidden()
+        }),
+        status: Joi.string().max(50).when('action', {
+            is: 'status', then: Joi.required(), otherwise: Joi.forbidden()
+        }),
+        status_reason: Joi.string().max(500).when('action', {
+            is: 'status', otherwise: Joi.forbidden()
+        }),
+        tags: Joi.array().items(Joi.string().trim().lowercase().min(1).max(50)).min(1).max(50).when('action', {
+            is: Joi.valid('add_tags', 'remove_tags'), then: Joi.required(), otherwise: Joi.forbidden()
+        })
+    }).xor('ids', 'filters'),
+
+    exportLeads: Joi.object({
+        format: Joi.string().valid('csv', 'ndjson', 'xlsx').default('csv'),
+        filters: leadFiltersBody.optional(),
+        fields: Joi.array().items(Joi.string().valid(...LEAD_EXPORT_FIELDS)).min(1).unique().optional()
+    }),
+
+    purgeLeads: Joi.object({
+        older_than_days: Joi.number().integer().positive().optional()
+    }),
+
+    leadTags: Joi.object({
+        tags: Joi.array().items(Joi.string().trim().lowercase().min(1).max(50)).min(1).max(50).required()
+    }),
+
+    // Segment schemas
+    createLeadSegment: Joi.object({
+        name: Joi.string().min(1).max(100).required(),
+        description: Joi.string().max(255).optional().allow(''),
+        filters: segmentFilters.required()
+    }),
+
+    updateLeadSegment: Joi.object({
+        name: Joi.string().min(1).max(100).optional(),
+        description: Joi.string().max(255).optional().allow('', null),
+        filters: segmentFilters.optional()
+    }).min(1),
+
+    // Assignment rule schemas
+    createAssignmentRule: Joi.object({
+        name: Joi.string().min(1).max(100).required(),
+        priority: Joi.number().integer().min(0).optional(),
+        strategy: Joi.string().valid('round_robin', 'least_loaded').required(),
+        match_source: Joi.string().max(100).optional().allow(null),
+        match_phone_prefix: Joi.string().pattern(/^\+?\d{1,10}$/).optional().allow(null),
+        agent_ids: Joi.array().items(Joi.number().integer().positive()).unique().optional().allow(null),
+        is_active: Joi.boolean().optional()
+    }),
+
+    updateAssignmentRule: Joi.object({
+        name: Joi.string().min(1).max(100).optional(),
+        priority: Joi.number().integer().min(0).optional(),
+        strategy: Joi.string().valid('round_robin', 'least_loaded').optional(),
+        match_source: Joi.string().max(100).optional().allow(null),
+        match_phone_prefix: Joi.string().pattern(/^\+?\d{1,10}$/).optional().allow(null),
+        agent_ids: Joi.array().items(Joi.number().integer().positive()).unique().optional().allow(null),
+        is_active: Joi.boolean().optional()
+    }).min(1),
+
+    // User management schemas
+    listUsersQuery: Joi.object({
+        role: Joi.string().valid('admin', 'manager', 'agent').optional(),
+        is_active: Joi.boolean().optional(),
+        search: Joi.string().trim().min(1).max(255).optional(),
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(100).default(20)
+    }),
+
+    listSecurityEventsQuery: Joi.object({
+        event_type: Joi.string().valid('login_failed', 'login_blocked', 'account_locked', 'account_unlocked').optional(),
+        email: Joi.string().email().lowercase().optional(),
+        user_id: Joi.number().integer().positive().optional(),
+        ip_address: Joi.string().ip().optional(),
+        from: Joi.date().iso().optional(),
+        to: dateUntil('from').optional(),
+        page: Joi.number().integer().min(1).default(1),
+        limit: Joi.number().integer().min(1).max(100).default(50)
+    }),
+
+    suspiciousIpsQuery: Joi.object({
+        hours: Joi.number().integer().min(1).max(24 * 30).default(24),
+        limit: Joi.number().integer().min(1).max(100).default(20)
+    }),
+
+    updateUser: Joi.object({
+        email: Joi.string().email().optional(),
+        phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional()
+    }).min(1),
+
+    changeUserRole: Joi.object({
+        role: Joi.string().valid('admin', 'manager', 'agent').required()
+    }),
+
+    deactivateUser: Joi.object({
+        reassign_to: Joi.number().integer().positive().optional()
+    }),
+
+    createInvite: Joi.object({
+        email: Joi.string().email().required(),
+        role: Joi.string().valid('admin', 'manager', 'agent').required(),
+        phone: Joi.string().pattern(/^\+?[1-9]\d{1,14}$/).optional(),
+        expires_in_hours: Joi.number().integer().min(1).max(720).default(72)
+    }),
+
+    // API key schemas
+    createApiKey: Joi.object({
+        name: Joi.string().trim().min(2).max(100).required(),
+        scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+        user_id: Joi.number().integer().positive().optional(),
+        expires_at: Joi.date().iso().greater('now').optional()
+    }),
+
+    rotateApiKey: Joi.object({
+        grace_minutes: Joi.number().integer().min(0).max(7 * 24 * 60).default(0)
+    }),
+
+    // Team schemas
+    createTeam: Joi.object({
+        name: Joi.string().trim().min(1).max(100).required(),
+        manager_id: Joi.number().integer().positive().optional().allow(null),
+        member_ids: Joi.array().items(Joi.number().integer().positive()).unique().optional()
+    }),
+
+    updateTeam: Joi.object({
+        name: Joi.string().trim().min(1).max(100).optional(),
+        manager_id: Joi.number().integer().positive().optional().allow(null),
+        member_ids: Joi.array().items(Joi.number().integer().positive()).unique().optional()
+    }).min(1),
+
+    // Agent availability schemas
+    updateAgentAvailability: Joi.object({
+        status: Joi.string().valid('available', 'busy', 'on_leave', 'offline').optional(),
+        away_until: Joi.date().iso().greater('now').optional().allow(null),
+        max_open_leads: Joi.number().integer().min(0).optional().allow(null),
+        working_hours: Joi.object({
+            timezone: timezone.required(),
+            days: Joi.array()
+                .items(Joi.string().valid('mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'))
+                .min(1).unique().required(),
+            start: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required(),
+            end: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).required()
+        }).optional().allow(null)
+    }).min(1),
+
+    // Lead scoring schemas
+    updateLeadScoringConfig: Joi.object({
+        weights: Joi.object({
+            source: Joi.number().min(0).max(100),
+            status: Joi.number().min(0).max(100),
+            call_outcomes: Joi.number().min(0).max(100),
+            recency: Joi.number().min(0).max(100),
+            email: Joi.number().min(0).max(100)
+        }).min(1).optional(),
+        sources: Joi.object().pattern(Joi.string().max(100), Joi.number().min(0).max(1)).optional(),
+        statuses: Joi.object().pattern(Joi.string().max(50), Joi.number().min(0).max(1)).optional(),
+        outcomes: Joi.object().pattern(Joi.string().pattern(/^[a-z0-9_]+$/).max(100), Joi.number().min(-1).max(1)).optional(),
+        recency_half_life_days: Joi.number().min(1).max(365).optional()
+    }).min(1),
+
+    // Pipeline schemas
+    createPipelineStage: Joi.object({
+        stage_key: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(50).required(),
+        name: Joi.string().min(1).max(100).required(),
+        position: Joi.number().integer().min(1).required(),
+        is_terminal: Joi.boolean().optional()
+    }),
+
+    updatePipelineStage: Joi.object({
+        name: Joi.string().min(1).max(100).optional(),
+        position: Joi.number().integer().min(1).optional(),
+        is_terminal: Joi.boolean().optional()
+    }).min(1),
+
+    setPipelineTransitions: Joi.object({
+        transitions: Joi.array().items(
+            Joi.object({
+                from: Joi.string().max(50).required(),
+                to: Joi.string().max(50).required()
+            })
+        ).required()
+    }),
+
+    // Custom field schemas
+    createCustomField: Joi.object({
+        field_key: Joi.string().pattern(/^[a-z][a-z0-9_]*$/).max(50).required(),
+        label: Joi.string().min(1).max(100).required(),
+        field_type: Joi.string().valid('text', 'number', 'boolean', 'date', 'enum').required(),
+        is_required: Joi.boolean().optional(),
+        options: Joi.array().items(Joi.string().max(100)).unique().optional(),
+        validation: Joi.object({
+            min: Joi.number().optional(),
+            max: Joi.number().optional(),
+            pattern: regexPattern().optional()
+        }).optional()
+    }),
+
+    updateCustomField: Joi.object({
+        label: Joi.string().min(1).max(100).optional(),
+        is_required: Joi.boolean().optional(),
+        options: Joi.array().items(Joi.string().max(100)).unique().optional(),
+        validation: Joi.object({
+            min: Joi.number().optional(),
+            max: Joi.number().optional(),
+            pattern: regexPattern().optional()
+        }).optional().allow(null)
+    }).min(1),
+
     // Call task schemas
+    // No defaults for the paging parameters: without them the full list is returned as before
+    myTasksQuery: Joi.object({
+        status: Joi.string().valid('pending', 'completed', 'missed').optional(),
+        limit: Joi.number().integer().min(1).max(100).optional(),
+        cursor: Joi.string().max(1000).optional(),
+        include_total: Joi.boolean().optional()
+    }),
+
     createCallTask: Joi.object({
         lead_id: Joi.number().integer().positive().required(),
         agent_id: Joi.number().integer().positive().required(),
@@ -78,6 +495,13 @@ export const schemas = {
         outcome: Joi.string().min(1).max(255).required()
     }),
 
+    // CSV schemas
+    csvHistoryQuery: Joi.object({
+        limit: Joi.number().integer().min(1).max(100).default(10),
+        cursor: Joi.string().max(1000).optional(),
+        include_total: Joi.boolean().optional()
+    }),
+
     // Image upload schema
     imageUploadUrl: Joi.object({
         fileName: Joi.string().required(),
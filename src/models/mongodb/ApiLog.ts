@@ -5,6 +5,8 @@ export interface IApiLogDocument extends Document {
   method: string;
   path: string;
   user_id?: number;
+  /** Set when the request used an API key (user_id is then the key's user) */
+  api_key_id?: number;
   status_code: number;
   duration_ms: number;
   request_body?: Record<string, any>;
@@ -35,6 +37,10 @@ const ApiLogSchema = new Schema(
       type: Number,
       index: true 
     },
+    api_key_id: {
+      type: Number,
+      index: true
+    },
     status_code: { 
       type: Number, 
       required: true,
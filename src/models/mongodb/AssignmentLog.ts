@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AssignmentStrategy, AssignmentTrigger } from '../../types';
+
+export interface IAssignmentLogDocument extends Document {
+  lead_id: number;
+  agent_id?: number | null;
+  rule_id?: number | null;
+  rule_name?: string | null;
+  strategy?: AssignmentStrategy | null;
+  trigger: AssignmentTrigger;
+  reason: string;
+  candidates: Array<{ agent_id: number; pending_tasks?: number; excluded?: string }>;
+  user_id?: number;
+  correlation_id?: string;
+  created_at: Date;
+}
+
+const AssignmentLogSchema = new Schema<IAssignmentLogDocument>(
+  {
+    lead_id: { type: Number, required: true, index: true },
+    agent_id: { type: Number, default: null, index: true },
+    rule_id: { type: Number, default: null },
+    rule_name: { type: String, default: null },
+    strategy: { type: String, enum: ['round_robin', 'least_loaded', null], default: null },
+    trigger: {
+      type: String,
+      enum: ['create', 'csv_import', 'backlog'],
+      required: true
+    },
+    reason: { type: String, required: true },
+    candidates: [
+      {
+        _id: false,
+        agent_id: { type: Number, required: true },
+        pending_tasks: { type: Number },
+        excluded: { type: String }
+      }
+    ],
+    user_id: { type: Number },
+    correlation_id: { type: String },
+    created_at: { type: Date, default: Date.now, index: true }
+  },
+  {
+    collection: 'assignment_logs',
+    timestamps: false
+  }
+);
+
+// Indexes for performance
+AssignmentLogSchema.index({ lead_id: 1, created_at: -1 });
+AssignmentLogSchema.index({ agent_id: 1, created_at: -1 });
+
+export const AssignmentLog = mongoose.model<IAssignmentLogDocument>('AssignmentLog', AssignmentLogSchema);
@@ -0,0 +1,38 @@
+import { Schema, model, Document } from 'mongoose';
+import { LeadExportField, LeadExportFormat, LeadFilters } from '../../types';
+
+interface IExportJob extends Document {
+  user_id: number;
+  format: LeadExportFormat;
+  filters: LeadFilters;
+  fields: LeadExportField[];
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  total_rows: number;
+  exported_rows: number;
+  s3_key?: string;
+  error?: string;
+  created_at: Date;
+  started_at?: Date;
+  completed_at?: Date;
+}
+
+const exportJobSchema = new Schema<IExportJob>({
+  user_id: { type: Number, required: true, index: true },
+  format: { type: String, enum: ['csv', 'ndjson', 'xlsx'], required: true },
+  filters: { type: Schema.Types.Mixed, default: {} },
+  fields: [{ type: String }],
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed'],
+    default: 'pending'
+  },
+  total_rows: { type: Number, default: 0 },
+  exported_rows: { type: Number, default: 0 },
+  s3_key: { type: String },
+  error: { type: String },
+  created_at: { type: Date, default: Date.now },
+  started_at: { type: Date },
+  completed_at: { type: Date }
+});
+
+export const ExportJob = model<IExportJob>('ExportJob', exportJobSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LeadAuditAction, LeadFieldChange } from '../../types';
+
+export interface ILeadAuditLogDocument extends Document {
+  lead_id: number;
+  action: LeadAuditAction;
+  user_id?: number;
+  correlation_id?: string;
+  reason?: string;
+  changes: LeadFieldChange[];
+  created_at: Date;
+}
+
+const LeadAuditLogSchema = new Schema<ILeadAuditLogDocument>(
+  {
+    lead_id: { type: Number, required: true, index: true },
+    action: {
+      type: String,
+      enum: ['update', 'assign', 'delete', 'restore', 'purge', 'merge'],
+      required: true,
+      index: true
+    },
+    user_id: { type: Number, index: true },
+    correlation_id: { type: String },
+    reason: { type: String },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        from: { type: Schema.Types.Mixed },
+        to: { type: Schema.Types.Mixed }
+      }
+    ],
+    created_at: { type: Date, default: Date.now, index: true }
+  },
+  {
+    collection: 'lead_audit_logs',
+    timestamps: false
+  }
+);
+
+// Indexes for performance
+LeadAuditLogSchema.index({ lead_id: 1, created_at: -1 });
+
+// Audit records are append-only
+const rejectMutation = function (next: (err?: Error) => void) {
+  next(new Error('Lead audit records are immutable'));
+};
+
+LeadAuditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectMutation
+);
+
+export const LeadAuditLog = mongoose.model<ILeadAuditLogDocument>('LeadAuditLog', LeadAuditLogSchema);
@@ -0,0 +1,81 @@
+import { RowDataPacket } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { IAgentAvailability } from '../../types';
+
+export class AgentAvailabilityModel {
+    /**
+     * Defaults for agents that never set their availability
+     */
+    static defaults(userId: number): IAgentAvailability {
+        return {
+            user_id: userId,
+            status: 'available',
+            away_until: null,
+            max_open_leads: null,
+            working_hours: null
+        };
+    }
+
+    /**
+     * Get availability for a user (defaults when not set)
+     */
+    static async findByUser(userId: number): Promise<IAgentAvailability> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM agent_availability WHERE user_id = ?',
+            [userId]
+        );
+        return rows.length > 0 ? this.toAvailability(rows[0]) : this.defaults(userId);
+    }
+
+    /**
+     * Get availability for several users, keyed by user ID
+     */
+    static async findByUsers(userIds: number[]): Promise<Record<number, IAgentAvailability>> {
+        const result: Record<number, IAgentAvailability> = {};
+        userIds.forEach(userId => {
+            result[userId] = this.defaults(userId);
+        });
+        if (userIds.length === 0) return result;
+
+        const placeholders = userIds.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM agent_availability WHERE user_id IN (${placeholders})`,
+            userIds
+        );
+
+        rows.forEach(row => {
+            result[row.user_id] = this.toAvailability(row);
+        });
+        return result;
+    }
+
+    /**
+     * Insert or replace a user's availability
+     */
+    static async upsert(data: IAgentAvailability): Promise<void> {
+        await mysqlPool.execute(
+            `INSERT INTO agent_availability (user_id, status, away_until, max_open_leads, working_hours)
+       VALUES (?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE status = VALUES(status), away_until = VALUES(away_until),
+         max_open_leads = VALUES(max_open_leads), working_hours = VALUES(working_hours)`,
+            [
+                data.user_id,
+                data.status,
+                data.away_until,
+                data.max_open_leads,
+                data.working_hours ? JSON.stringify(data.working_hours) : null
+            ]
+        );
+    }
+
+    private static toAvailability(row: RowDataPacket): IAgentAvailability {
+        return {
+            user_id: row.user_id,
+            status: row.status,
+            away_until: row.away_until,
+            max_open_leads: row.max_open_leads,
+            working_hours: typeof row.working_hours === 'string' ? JSON.parse(row.working_hours) : row.working_hours,
+            updated_at: row.updated_at
+        };
+    }
+}
@@ -0,0 +1,131 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { ApiKeyScope, IApiKey, UserRole } from '../../types';
+
+// key hashes never leave the model
+const API_KEY_COLUMNS = `id, name, key_prefix, scopes, user_id, created_by, expires_at, last_used_at, last_used_ip,
+    rotated_at, previous_key_expires_at, revoked_at, created_at`;
+
+export class ApiKeyModel {
+    /**
+     * Create a key from the SHA-256 hash of its secret
+     */
+    static async create(data: {
+        name: string;
+        key_prefix: string;
+        key_hash: string;
+        scopes: ApiKeyScope[];
+        user_id: number;
+        created_by: number;
+        expires_at?: Date | null;
+    }): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO api_keys (name, key_prefix, key_hash, scopes, user_id, created_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                data.name,
+                data.key_prefix,
+                data.key_hash,
+                JSON.stringify(data.scopes),
+                data.user_id,
+                data.created_by,
+                data.expires_at ?? null
+            ]
+        );
+        return result.insertId;
+    }
+
+    static async findById(id: number): Promise<IApiKey | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`,
+            [id]
+        );
+        return rows.length > 0 ? this.toApiKey(rows[0]) : null;
+    }
+
+    /**
+     * Get keys, newest first (revoked included)
+     */
+    static async findAll(): Promise<IApiKey[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${API_KEY_COLUMNS} FROM api_keys ORDER BY created_at DESC, id DESC`
+        );
+        return rows.map(row => this.toApiKey(row));
+    }
+
+    /**
+     * Find a usable key by the hash of its current secret, or of the secret it replaced while
+     * that is still in its grace period, together with the active user it acts as
+     */
+    static async findUsableByHash(
+        keyHash: string
+    ): Promise<{ key: IApiKey; user: { id: number; email: string; role: UserRole } } | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT k.*, u.email AS user_email, u.role AS user_role
+       FROM api_keys k
+       JOIN users u ON u.id = k.user_id AND u.is_active = TRUE
+       WHERE (k.key_hash = ? OR (k.previous_key_hash = ? AND k.previous_key_expires_at > NOW()))
+         AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > NOW())`,
+            [keyHash, keyHash]
+        );
+        if (rows.length === 0) return null;
+
+        const row = rows[0];
+        return {
+            key: this.toApiKey(row),
+            user: { id: row.user_id, email: row.user_email, role: row.user_role as UserRole }
+        };
+    }
+
+    /**
+     * Replace the secret of a key. The old secret keeps working until `previousExpiresAt`.
+     */
+    static async rotate(id: number, keyPrefix: string, keyHash: string, previousExpiresAt: Date | null): Promise<boolean> {
+        // MySQL assigns left to right, so previous_key_hash gets the hash before it is replaced
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE api_keys
+       SET previous_key_hash = ${previousExpiresAt ? 'key_hash' : 'NULL'}, previous_key_expires_at = ?,
+           key_prefix = ?, key_hash = ?, rotated_at = NOW()
+       WHERE id = ? AND revoked_at IS NULL`,
+            [previousExpiresAt, keyPrefix, keyHash, id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    static async revoke(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE api_keys SET revoked_at = NOW() WHERE id = ? AND revoked_at IS NULL',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Record a use of the key; written at most once a minute per key
+     */
+    static async touch(id: number, ipAddress?: string): Promise<void> {
+        await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE api_keys SET last_used_at = NOW(), last_used_ip = ?
+       WHERE id = ? AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL 1 MINUTE)`,
+            [ipAddress ?? null, id]
+        );
+    }
+
+    private static toApiKey(row: RowDataPacket): IApiKey {
+        return {
+            id: row.id,
+            name: row.name,
+            key_prefix: row.key_prefix,
+            scopes: typeof row.scopes === 'string' ? JSON.parse(row.scopes) : row.scopes,
+            user_id: row.user_id,
+            created_by: row.created_by,
+            expires_at: row.expires_at,
+            last_used_at: row.last_used_at,
+            last_used_ip: row.last_used_ip,
+            rotated_at: row.rotated_at,
+            previous_key_expires_at: row.previous_key_expires_at,
+            revoked_at: row.revoked_at,
+            created_at: row.created_at
+        };
+    }
+}
@@ -0,0 +1,115 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { IAssignmentRule, AssignmentStrategy } from '../../types';
+
+export class AssignmentRuleModel {
+    /**
+     * Create an assignment rule
+     */
+    static async create(data: {
+        name: string;
+        priority?: number;
+        strategy: AssignmentStrategy;
+        match_source?: string | null;
+        match_phone_prefix?: string | null;
+        agent_ids?: number[] | null;
+        is_active?: boolean;
+    }): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO assignment_rules (name, priority, strategy, match_source, match_phone_prefix, agent_ids, is_active)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [
+                data.name,
+                data.priority ?? 100,
+                data.strategy,
+                data.match_source ?? null,
+                data.match_phone_prefix ?? null,
+                data.agent_ids && data.agent_ids.length > 0 ? JSON.stringify(data.agent_ids) : null,
+                data.is_active ?? true,
+            ]
+        );
+        return result.insertId;
+    }
+
+    /**
+     * Find rule by ID
+     */
+    static async findById(id: number): Promise<IAssignmentRule | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM assignment_rules WHERE id = ?',
+            [id]
+        );
+        return rows.length > 0 ? this.toRule(rows[0]) : null;
+    }
+
+    /**
+     * Get all rules in evaluation order
+     */
+    static async findAll(activeOnly: boolean = false): Promise<IAssignmentRule[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM assignment_rules ${activeOnly ? 'WHERE is_active = TRUE' : ''}
+       ORDER BY priority ASC, id ASC`
+        );
+        return rows.map(row => this.toRule(row));
+    }
+
+    /**
+     * Update rule settings
+     */
+    static async update(
+        id: number,
+        data: Partial<Omit<IAssignmentRule, 'id' | 'last_assigned_agent_id' | 'created_at' | 'updated_at'>>
+    ): Promise<boolean> {
+        const fields: string[] = [];
+        const values: any[] = [];
+
+        Object.entries(data).forEach(([key, value]) => {
+            if (value !== undefined) {
+                fields.push(`${key} = ?`);
+                if (key === 'agent_ids') {
+                    values.push(Array.isArray(value) && value.length > 0 ? JSON.stringify(value) : null);
+                } else {
+                    values.push(value);
+                }
+            }
+        });
+
+        if (fields.length === 0) return false;
+
+        values.push(id);
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE assignment_rules SET ${fields.join(', ')} WHERE id = ?`,
+            values
+        );
+
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Move the round-robin position to agentId, but only if it is still at
+     * previousAgentId. Returns false when another assignment moved it first.
+     */
+    static async claimNext(id: number, previousAgentId: number | null, agentId: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE assignment_rules SET last_assigned_agent_id = ? WHERE id = ? AND last_assigned_agent_id <=> ?',
+            [agentId, id, previousAgentId]
+        );
+        // affectedRows counts matched rows (FOUND_ROWS), so re-claiming the same agent succeeds too
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Delete rule
+     */
+    static async delete(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM assignment_rules WHERE id = ?',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    private static toRule(row: RowDataPacket): IAssignmentRule {
+        return { ...(row as IAssignmentRule), is_active: Boolean(row.is_active) };
+    }
+}
@@ -2,6 +2,7 @@ import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { mysqlPool } from '../../config/database';
 import { ICallTask, CallTaskStatus, AgentTaskStats, OverallTaskStats, BusiestAgent, DailyTaskSummary } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
+import { CursorPayload, keysetCondition } from '../../utils/cursor';
 
 export class CallTaskModel {
     /**
@@ -99,16 +100,95 @@ export class CallTaskModel {
     }
 
     /**
-     * Find tasks by lead ID
+     * Page through an agent's tasks (newest first) with a keyset cursor
      */
-    static async findByLead(leadId: number): Promise<ICallTask[]> {
+    static async findPageByAgent(
+        agentId: number,
+        status: CallTaskStatus | undefined,
+        pagination: { limit: number; cursor?: CursorPayload; include_total?: boolean }
+    ): Promise<{ tasks: ICallTask[]; total?: number; has_more: boolean }> {
+        const whereParts = ['agent_id = ?'];
+        const params: any[] = [agentId];
+
+        if (status) {
+            whereParts.push('status = ?');
+            params.push(status);
+        }
+
+        let total: number | undefined;
+        if (pagination.include_total) {
+            const [countRows] = await mysqlPool.execute<RowDataPacket[]>(
+                `SELECT COUNT(*) AS total FROM call_tasks WHERE ${whereParts.join(' AND ')}`,
+                params
+            );
+            total = Number(countRows[0].total) || 0;
+        }
+
+        const { cursor } = pagination;
+        if (cursor) {
+            const keyset = keysetCondition('created_at', 'desc', cursor, new Date(cursor.value as string));
+            whereParts.push(keyset.sql);
+            params.push(...keyset.params);
+        }
+
+        const direction = cursor?.direction === 'prev' ? 'ASC' : 'DESC';
+        const limit = Math.floor(Number(pagination.limit));
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM call_tasks WHERE ${whereParts.join(' AND ')}
+       ORDER BY created_at ${direction}, id ${direction} LIMIT ${limit + 1}`,
+            params
+        );
+
+        const tasks = rows.slice(0, limit) as ICallTask[];
+        if (cursor?.direction === 'prev') tasks.reverse();
+
+        return { tasks, total, has_more: rows.length > limit };
+    }
+
+    /**
+     * Count pending tasks per agent (agents without tasks are reported as 0)
+     */
+    static async countPendingByAgents(agentIds: number[]): Promise<Record<number, number>> {
+        const counts: Record<number, number> = {};
+        agentIds.forEach(agentId => {
+            counts[agentId] = 0;
+        });
+        if (agentIds.length === 0) return counts;
+
+        const placeholders = agentIds.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT agent_id, COUNT(*) AS pending FROM call_tasks
+       WHERE status = ? AND agent_id IN (${placeholders})
+       GROUP BY agent_id`,
+            [CallTaskStatus.PENDING, ...agentIds]
+        );
+
+        rows.forEach(row => {
+            counts[row.agent_id] = Number(row.pending);
+        });
+        return counts;
+    }
+
+    /**
+     * Find tasks by lead ID, newest first (at most `limit` when given)
+     */
+    static async findByLead(leadId: number, limit?: number): Promise<ICallTask[]> {
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT * FROM call_tasks WHERE lead_id = ? ORDER BY created_at DESC',
+            'SELECT * FROM call_tasks WHERE lead_id = ? ORDER BY created_at DESC' +
+            (limit !== undefined ? ` LIMIT ${Math.floor(Number(limit))}` : ''),
             [leadId]
         );
         return rows as ICallTask[];
     }
 
+    static async countByLead(leadId: number): Promise<number> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT COUNT(*) AS total FROM call_tasks WHERE lead_id = ?',
+            [leadId]
+        );
+        return Number(rows[0].total);
+    }
+
     /**
      * Get daily summary of call tasks
      */
@@ -170,15 +250,23 @@ export class CallTaskModel {
     }
 
     /**
-     * Get pending tasks that are overdue
+     * Get pending tasks that are overdue (optionally only for some agents)
      */
-    static async getOverdueTasks(): Promise<ICallTask[]> {
-        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            `SELECT * FROM call_tasks 
-       WHERE status = ? AND scheduled_at < NOW() 
-       ORDER BY scheduled_at ASC`,
-            [CallTaskStatus.PENDING]
-        );
+    static async getOverdueTasks(agentIds?: number[]): Promise<ICallTask[]> {
+        if (agentIds && agentIds.length === 0) return [];
+
+        let query = `SELECT * FROM call_tasks 
+       WHERE status = ? AND scheduled_at < NOW()`;
+        const params: any[] = [CallTaskStatus.PENDING];
+
+        if (agentIds) {
+            query += ` AND agent_id IN (${agentIds.map(() => '?').join(', ')})`;
+            params.push(...agentIds);
+        }
+
+        query += ' ORDER BY scheduled_at ASC';
+
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(query, params);
         return rows as ICallTask[];
     }
 
@@ -227,6 +315,18 @@ export class CallTaskModel {
         return result.affectedRows > 0;
     }
 
+    /**
+     * Move all of an agent's pending tasks to another agent
+     * @returns Number of tasks moved
+     */
+    static async reassignPending(fromAgentId: number, toAgentId: number): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE call_tasks SET agent_id = ?, updated_at = CURRENT_TIMESTAMP WHERE agent_id = ? AND status = ?',
+            [toAgentId, fromAgentId, CallTaskStatus.PENDING]
+        );
+        return result.affectedRows;
+    }
+
     /**
      * Delete task
      * @returns True if deletion was successful
@@ -0,0 +1,115 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { ICustomFieldDefinition, CustomFieldType, CustomFieldValidation } from '../../types';
+
+export class CustomFieldModel {
+    /**
+     * Create a custom field definition
+     */
+    static async create(data: {
+        field_key: string;
+        label: string;
+        field_type: CustomFieldType;
+        is_required?: boolean;
+        options?: string[] | null;
+        validation?: CustomFieldValidation | null;
+    }): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO custom_field_definitions (field_key, label, field_type, is_required, options, validation)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+            [
+                data.field_key,
+                data.label,
+                data.field_type,
+                data.is_required ?? false,
+                data.options ? JSON.stringify(data.options) : null,
+                data.validation ? JSON.stringify(data.validation) : null,
+            ]
+        );
+        return result.insertId;
+    }
+
+    /**
+     * Find definition by ID
+     */
+    static async findById(id: number): Promise<ICustomFieldDefinition | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM custom_field_definitions WHERE id = ?',
+            [id]
+        );
+        return rows.length > 0 ? this.toDefinition(rows[0]) : null;
+    }
+
+    /**
+     * Get all definitions
+     */
+    static async findAll(): Promise<ICustomFieldDefinition[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM custom_field_definitions ORDER BY id ASC'
+        );
+        return rows.map(row => this.toDefinition(row));
+    }
+
+    /**
+     * Update label, required flag, options or validation (key and type are immutable)
+     */
+    static async update(
+        id: number,
+        data: Partial<Pick<ICustomFieldDefinition, 'label' | 'is_required' | 'options' | 'validation'>>
+    ): Promise<boolean> {
+        const fields: string[] = [];
+        const values: any[] = [];
+
+        Object.entries(data).forEach(([key, value]) => {
+            if (value !== undefined) {
+                fields.push(`${key} = ?`);
+                values.push(key === 'options' || key === 'validation' ? JSON.stringify(value) : value);
+            }
+        });
+
+        if (fields.length === 0) return false;
+
+        values.push(id);
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE custom_field_definitions SET ${fields.join(', ')} WHERE id = ?`,
+            values
+        );
+
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Delete definition and strip its values from every lead
+     */
+    static async delete(id: number, fieldKey: string): Promise<boolean> {
+        const connection = await mysqlPool.getConnection();
+        const path = `$.${fieldKey}`;
+
+        try {
+            await connection.beginTransaction();
+
+            await connection.execute<ResultSetHeader>(
+                `UPDATE leads SET custom_fields = JSON_REMOVE(custom_fields, ?)
+         WHERE custom_fields IS NOT NULL AND JSON_CONTAINS_PATH(custom_fields, 'one', ?)`,
+                [path, path]
+            );
+
+            const [result] = await connection.execute<ResultSetHeader>(
+                'DELETE FROM custom_field_definitions WHERE id = ?',
+                [id]
+            );
+
+            await connection.commit();
+            return result.affectedRows > 0;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    private static toDefinition(row: RowDataPacket): ICustomFieldDefinition {
+        return { ...(row as ICustomFieldDefinition), is_required: Boolean(row.is_required) };
+    }
+}
@@ -1,7 +1,20 @@
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { mysqlPool } from '../../config/database';
-import { ILead, LeadStatus, LeadFilters, PaginationParams } from '../../types';
+import {
+    ILead,
+    LeadStatus,
+    LeadBulkChange,
+    LeadFilters,
+    LeadScope,
+    LeadListOptions,
+    LeadSelectField,
+    LeadSortField,
+    LEAD_SELECT_FIELDS,
+    LEAD_SORT_FIELDS,
+    PaginationParams
+} from '../../types';
 import logger from '../../utils/logger';
+import { CursorPayload, keysetCondition } from '../../utils/cursor';
 
 export class LeadModel {
     /**
@@ -11,14 +24,15 @@ export class LeadModel {
         name: string;
         phone: string;
         email?: string;
-        status?: LeadStatus;
+        status?: string;
         source?: string;
         assigned_to?: number;
         image_url?: string;
+        custom_fields?: Record<string, any>;
     }): Promise<number> {
         const [result] = await mysqlPool.execute<ResultSetHeader>(
-            `INSERT INTO leads (name, phone, email, status, source, assigned_to, image_url) 
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            `INSERT INTO leads (name, phone, email, status, source, assigned_to, image_url, custom_fields) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
             [
                 data.name,
                 data.phone,
@@ -27,17 +41,20 @@ export class LeadModel {
                 data.source || null,
                 data.assigned_to || null,
                 data.image_url || null,
+                this.toJson(data.custom_fields),
             ]
         );
         return result.insertId;
     }
 
     /**
-     * Find lead by ID
+     * Find lead by ID (soft-deleted leads only when includeDeleted is set)
      */
-    static async findById(id: number): Promise<ILead | null> {
+    static async findById(id: number, includeDeleted: boolean = false): Promise<ILead | null> {
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT * FROM leads WHERE id = ?',
+            includeDeleted
+                ? 'SELECT * FROM leads WHERE id = ?'
+                : 'SELECT * FROM leads WHERE id = ? AND deleted_at IS NULL',
             [id]
         );
         return rows.length > 0 ? (rows[0] as ILead) : null;
@@ -69,7 +86,7 @@ export class LeadModel {
         Object.entries(data).forEach(([key, value]) => {
             if (value !== undefined && key !== 'id' && key !== 'created_at') {
                 fields.push(`${key} = ?`);
-                values.push(value);
+                values.push(key === 'custom_fields' ? this.toJson(value) : value);
             }
         });
 
@@ -100,36 +117,301 @@ export class LeadModel {
      */
     static async softDelete(id: number): Promise<boolean> {
         const [result] = await mysqlPool.execute<ResultSetHeader>(
-            'UPDATE leads SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
-            ['deleted', id]
+            'UPDATE leads SET deleted_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NULL',
+            [id]
         );
         return result.affectedRows > 0;
     }
 
     /**
-     * Find all leads with filters and pagination
+     * Restore a soft-deleted lead (leads merged into another one stay deleted)
      */
-    static async findAll(
-        filters: LeadFilters,
-        pagination: PaginationParams
-    ): Promise<{ leads: ILead[]; total: number }> {
-        const whereParts: string[] = [];
-        const params: any[] = [];
+    static async restore(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE leads SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL AND merged_into IS NULL',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
 
-        if (filters.status) {
-            whereParts.push('status = ?');
-            params.push(filters.status);
-        }
-        if (filters.source) {
-            whereParts.push('source = ?');
-            params.push(filters.source);
+    /**
+     * Find leads soft-deleted more than `days` days ago
+     */
+    static async findDeletedBefore(days: number): Promise<ILead[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM leads WHERE deleted_at IS NOT NULL AND deleted_at < NOW() - INTERVAL ? DAY',
+            [days]
+        );
+        return rows as ILead[];
+    }
+
+    /**
+     * Permanently remove soft-deleted leads (call tasks cascade)
+     */
+    static async purge(ids: number[]): Promise<number> {
+        if (ids.length === 0) return 0;
+
+        const placeholders = ids.map(() => '?').join(', ');
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `DELETE FROM leads WHERE deleted_at IS NOT NULL AND id IN (${placeholders})`,
+            ids
+        );
+        return result.affectedRows;
+    }
+
+    /**
+     * Find leads sharing normalized phone digits, lowercased email or a name block
+     * (name SOUNDEX plus the first 6 phone digits) with at least one other lead in `scope`
+     * (or with `leadId` when given). Returns at most `cap` candidates, oldest first, with
+     * the name block of each; `truncated` is set when more matched.
+     */
+    static async findDuplicateCandidates(
+        leadId: number | undefined,
+        scope: LeadScope | undefined,
+        cap: number
+    ): Promise<{ candidates: ILead[]; nameBlocks: string[]; truncated: boolean }> {
+        const phoneKey = "REGEXP_REPLACE(phone, '[^0-9]', '')";
+        const emailKey = 'LOWER(TRIM(email))';
+        const nameKey = `CONCAT(SOUNDEX(name), ':', LEFT(${phoneKey}, 6))`;
+
+        // Keys shared by more than one lead in scope, or the keys of the given lead
+        const scoped = this.buildWhere({ scope });
+        const sharedParams: any[] = [];
+        const sharedKeys = (key: string) => {
+            if (leadId) {
+                sharedParams.push(leadId);
+                return `SELECT ${key} FROM leads WHERE id = ?`;
+            }
+            sharedParams.push(...scoped.params);
+            return `SELECT k FROM (SELECT ${key} AS k FROM leads ${this.toWhereClause(scoped.whereParts)}
+                   GROUP BY k HAVING COUNT(*) > 1) AS shared`;
+        };
+
+        const { whereParts, params } = this.buildWhere({ scope });
+        whereParts.push(`(
+                ${phoneKey} IN (${sharedKeys(phoneKey)})
+                OR (email IS NOT NULL AND email <> '' AND ${emailKey} IN (${sharedKeys(emailKey)}))
+                OR ${nameKey} IN (${sharedKeys(nameKey)})
+            )`);
+
+        // IMPORTANT: LIMIT must be in the SQL string, NOT as a ? parameter
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT *, ${nameKey} AS name_block FROM leads ${this.toWhereClause(whereParts)}
+       ORDER BY created_at ASC, id ASC LIMIT ${Math.floor(Number(cap)) + 1}`,
+            [...params, ...sharedParams]
+        );
+        const candidates: ILead[] = [];
+        const nameBlocks: string[] = [];
+        rows.slice(0, cap).forEach(({ name_block, ...lead }) => {
+            candidates.push(lead as ILead);
+            nameBlocks.push(name_block);
+        });
+        return { candidates, nameBlocks, truncated: rows.length > cap };
+    }
+
+    /**
+     * Merge a secondary lead into a primary one in a single transaction:
+     * fills primary fields, re-points call tasks and soft-deletes the secondary
+     */
+    static async merge(
+        primaryId: number,
+        secondaryId: number,
+        fill: Partial<ILead>
+    ): Promise<number> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            const fields = Object.keys(fill);
+            if (fields.length > 0) {
+                await connection.execute<ResultSetHeader>(
+                    `UPDATE leads SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`,
+                    [
+                        ...Object.entries(fill).map(([key, value]) =>
+                            key === 'custom_fields' ? this.toJson(value) : value
+                        ),
+                        primaryId
+                    ]
+                );
+            }
+
+            const [tasks] = await connection.execute<ResultSetHeader>(
+                'UPDATE call_tasks SET lead_id = ? WHERE lead_id = ?',
+                [primaryId, secondaryId]
+            );
+
+            await connection.execute<ResultSetHeader>(
+                'INSERT IGNORE INTO lead_tags (lead_id, tag) SELECT ?, tag FROM lead_tags WHERE lead_id = ?',
+                [primaryId, secondaryId]
+            );
+
+            await connection.execute<ResultSetHeader>(
+                'UPDATE leads SET deleted_at = CURRENT_TIMESTAMP, merged_into = ? WHERE id = ?',
+                [primaryId, secondaryId]
+            );
+
+            await connection.commit();
+            return tasks.affectedRows;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
         }
-        if (filters.assigned_to) {
-            whereParts.push('assigned_to = ?');
-            params.push(filters.assigned_to);
+    }
+
+    /**
+     * Find live leads by ID (missing or deleted IDs are left out)
+     */
+    static async findByIds(ids: number[], scope?: LeadScope): Promise<ILead[]> {
+        if (ids.length === 0) return [];
+
+        const { whereParts, params } = this.buildWhere({ scope });
+        whereParts.push(`id IN (${ids.map(() => '?').join(', ')})`);
+        params.push(...ids);
+
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM leads ${this.toWhereClause(whereParts)}`,
+            params
+        );
+        return rows as ILead[];
+    }
+
+    /**
+     * Whether a lead (live or deleted) falls within an access scope
+     */
+    static async isInScope(leadId: number, scope: LeadScope): Promise<boolean> {
+        const { whereParts, params } = this.buildWhere({ scope, include_deleted: true });
+        whereParts.push('id = ?');
+        params.push(leadId);
+
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT id FROM leads ${this.toWhereClause(whereParts)} LIMIT 1`,
+            params
+        );
+        return rows.length > 0;
+    }
+
+    /**
+     * IDs of leads matching filters, in ID order (at most `limit`)
+     */
+    static async findIds(filters: LeadFilters, limit: number): Promise<number[]> {
+        const { whereParts, params } = this.buildWhere(filters);
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT id FROM leads ${this.toWhereClause(whereParts)} ORDER BY id ASC LIMIT ${Number(limit)}`,
+            params
+        );
+        return rows.map(row => row.id as number);
+    }
+
+    /**
+     * Count leads matching filters
+     */
+    static async count(filters: LeadFilters): Promise<number> {
+        const { whereParts, params } = this.buildWhere(filters);
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT COUNT(*) AS total FROM leads ${this.toWhereClause(whereParts)}`,
+            params
+        );
+        return Number(rows[0].total) || 0;
+    }
+
+    /**
+     * Next batch of leads matching filters after `afterId`, in ID order
+     */
+    static async findAfterId(filters: LeadFilters, afterId: number, limit: number): Promise<ILead[]> {
+        const { whereParts, params } = this.buildWhere(filters);
+        whereParts.push('id > ?');
+        params.push(afterId);
+
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM leads ${this.toWhereClause(whereParts)} ORDER BY id ASC LIMIT ${Number(limit)}`,
+            params
+        );
+        return rows as ILead[];
+    }
+
+    /**
+     * Apply one change to many live leads in a single transaction.
+     * Returns the rows as they are after the change.
+     */
+    static async bulkChange(ids: number[], change: LeadBulkChange): Promise<ILead[]> {
+        if (ids.length === 0) return [];
+
+        const placeholders = ids.map(() => '?').join(', ');
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            if (change.assigned_to !== undefined) {
+                await connection.execute<ResultSetHeader>(
+                    `UPDATE leads SET assigned_to = ? WHERE deleted_at IS NULL AND id IN (${placeholders})`,
+                    [change.assigned_to, ...ids]
+                );
+            }
+            if (change.status !== undefined) {
+                await connection.execute<ResultSetHeader>(
+                    `UPDATE leads SET status = ? WHERE deleted_at IS NULL AND id IN (${placeholders})`,
+                    [change.status, ...ids]
+                );
+            }
+            if (change.add_tags && change.add_tags.length > 0) {
+                await connection.query<ResultSetHeader>(
+                    'INSERT IGNORE INTO lead_tags (lead_id, tag) VALUES ?',
+                    [ids.flatMap(id => change.add_tags!.map(tag => [id, tag]))]
+                );
+            }
+            if (change.remove_tags && change.remove_tags.length > 0) {
+                await connection.execute<ResultSetHeader>(
+                    `DELETE FROM lead_tags WHERE lead_id IN (${placeholders})
+       AND tag IN (${change.remove_tags.map(() => '?').join(', ')})`,
+                    [...ids, ...change.remove_tags]
+                );
+            }
+            if (change.delete) {
+                await connection.execute<ResultSetHeader>(
+                    `UPDATE leads SET deleted_at = CURRENT_TIMESTAMP WHERE deleted_at IS NULL AND id IN (${placeholders})`,
+                    ids
+                );
+            }
+
+            const [rows] = await connection.execute<RowDataPacket[]>(
+                `SELECT * FROM leads WHERE id IN (${placeholders})`,
+                ids
+            );
+
+            await connection.commit();
+            return rows as ILead[];
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
         }
+    }
 
-        const whereClause = whereParts.length > 0 ? 'WHERE ' + whereParts.join(' AND ') : '';
+    /**
+     * Count live leads in a given status
+     */
+    static async countInStatus(status: string): Promise<number> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT COUNT(*) as total FROM leads WHERE status = ? AND deleted_at IS NULL',
+            [status]
+        );
+        return Number(rows[0].total) || 0;
+    }
+
+    /**
+     * Find all leads with filters and pagination
+     */
+    static async findAll(
+        filters: LeadFilters,
+        pagination: PaginationParams & { cursor?: CursorPayload; include_total?: boolean },
+        options: LeadListOptions = {}
+    ): Promise<{ leads: ILead[]; total?: number; has_more: boolean }> {
+        const { whereParts, params } = this.buildWhere(filters);
 
         // Coerce pagination values to integers and validate
         const limit = Math.floor(Number(pagination.limit ?? 20));
@@ -142,23 +424,51 @@ export class LeadModel {
             throw new Error('Invalid pagination.offset (must be a non-negative integer)');
         }
 
-        // Get total
-        const countQuery = `SELECT COUNT(*) as total FROM leads ${whereClause}`;
-        const [countRows] = await mysqlPool.execute<RowDataPacket[]>(countQuery, params);
-        const total = Number((countRows[0] as any).total) || 0;
+        // Get total (optional, it is the expensive part on large tables)
+        let total: number | undefined;
+        if (pagination.include_total !== false) {
+            const countQuery = `SELECT COUNT(*) as total FROM leads ${this.toWhereClause(whereParts)}`;
+            const [countRows] = await mysqlPool.execute<RowDataPacket[]>(countQuery, params);
+            total = Number((countRows[0] as any).total) || 0;
+        }
+
+        const sort = options.sort && LEAD_SORT_FIELDS.includes(options.sort) ? options.sort : 'created_at';
+        const order = options.order === 'asc' ? 'asc' : 'desc';
+        const { cursor } = pagination;
+
+        const dataParts = [...whereParts];
+        const dataParams = [...params];
+        if (cursor) {
+            const value = cursor.value !== null && ['created_at', 'updated_at'].includes(sort)
+                ? new Date(cursor.value as string)
+                : cursor.value;
+            const keyset = keysetCondition(sort, order, cursor, value);
+            dataParts.push(keyset.sql);
+            dataParams.push(...keyset.params);
+        }
+
+        // Walking backwards: read in reverse order, then flip the page
+        const readOrder = cursor?.direction === 'prev' ? (order === 'asc' ? 'desc' : 'asc') : order;
+        const columns = this.buildColumns(options.fields, sort);
 
         // IMPORTANT: LIMIT and OFFSET must be in the SQL string, NOT as ? parameters
-        const dataQuery = `SELECT * FROM leads ${whereClause} ORDER BY created_at DESC LIMIT ${limit} OFFSET ${offset}`;
+        const dataQuery = `SELECT ${columns} FROM leads ${this.toWhereClause(dataParts)} ` +
+            `ORDER BY ${this.buildOrderBy(sort, readOrder)} LIMIT ${limit + 1}` +
+            (cursor ? '' : ` OFFSET ${offset}`);
 
         logger.debug('Lead.findAll - dataQuery', { dataQuery });
-        logger.debug('Lead.findAll - params', params.map((p, i) => ({ index: i, value: p, type: typeof p })));
+        logger.debug('Lead.findAll - params', dataParams.map((p, i) => ({ index: i, value: p, type: typeof p })));
 
         // Execute - only filter params go to the prepared statement
-        const [rows] = await mysqlPool.execute<RowDataPacket[]>(dataQuery, params);
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(dataQuery, dataParams);
+
+        const leads = rows.slice(0, limit) as ILead[];
+        if (cursor?.direction === 'prev') leads.reverse();
 
         return {
-            leads: rows as ILead[],
+            leads,
             total,
+            has_more: rows.length > limit
         };
     }
 
@@ -171,6 +481,7 @@ export class LeadModel {
         phone: string;
         email?: string;
         source?: string;
+        custom_fields?: Record<string, any>;
     }>): Promise<number> {
         if (leads.length === 0) return 0;
 
@@ -182,13 +493,14 @@ export class LeadModel {
             lead.source || 'csv_import',
             null,
             null,
+            this.toJson(lead.custom_fields),
         ]);
 
-        const placeholders = leads.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ');
+        const placeholders = leads.map(() => '(?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
         const flatValues = values.flat();
 
         const [result] = await mysqlPool.execute<ResultSetHeader>(
-            `INSERT IGNORE INTO leads (name, phone, email, status, source, assigned_to, image_url) 
+            `INSERT IGNORE INTO leads (name, phone, email, status, source, assigned_to, image_url, custom_fields) 
        VALUES ${placeholders}`,
             flatValues
         );
@@ -197,14 +509,16 @@ export class LeadModel {
     }
 
     /**
-     * Count leads by status
+     * Count leads by status (pipeline stage key)
      */
-    static async countByStatus(): Promise<Record<LeadStatus, number>> {
+    static async countByStatus(scope?: LeadScope): Promise<Record<string, number>> {
+        const { whereParts, params } = this.buildWhere({ scope });
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT status, COUNT(*) as count FROM leads GROUP BY status'
+            `SELECT status, COUNT(*) as count FROM leads ${this.toWhereClause(whereParts)} GROUP BY status`,
+            params
         );
 
-        const result: Record<LeadStatus, number> = {
+        const result: Record<string, number> = {
             [LeadStatus.NEW]: 0,
             [LeadStatus.CONTACTED]: 0,
             [LeadStatus.QUALIFIED]: 0,
@@ -212,7 +526,7 @@ export class LeadModel {
         };
 
         rows.forEach((row: any) => {
-            result[row.status as LeadStatus] = parseInt(row.count);
+            result[row.status] = parseInt(row.count);
         });
 
         return result;
@@ -221,9 +535,12 @@ export class LeadModel {
     /**
      * Count leads by source
      */
-    static async countBySource(): Promise<Array<{ source: string; count: number }>> {
+    static async countBySource(scope?: LeadScope): Promise<Array<{ source: string; count: number }>> {
+        const { whereParts, params } = this.buildWhere({ scope });
+        whereParts.push('source IS NOT NULL');
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT source, COUNT(*) as count FROM leads WHERE source IS NOT NULL GROUP BY source ORDER BY count DESC'
+            `SELECT source, COUNT(*) as count FROM leads ${this.toWhereClause(whereParts)} GROUP BY source ORDER BY count DESC`,
+            params
         );
 
         return rows.map((row: any) => ({
@@ -236,9 +553,26 @@ export class LeadModel {
      * Get unassigned leads
      */
     static async findUnassigned(limit: number = 50): Promise<ILead[]> {
+        // IMPORTANT: LIMIT must be in the SQL string, NOT as a ? parameter
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT * FROM leads WHERE assigned_to IS NULL ORDER BY created_at DESC LIMIT ?',
-            [limit]
+            `SELECT * FROM leads WHERE assigned_to IS NULL AND deleted_at IS NULL ORDER BY created_at DESC LIMIT ${Math.floor(Number(limit))}`
+        );
+        return rows as ILead[];
+    }
+
+    /**
+     * Find unassigned live leads with any of the given phone numbers created since the
+     * given time (e.g. rows just imported, not older leads the import skipped)
+     */
+    static async findUnassignedByPhones(phones: string[], createdSince: Date): Promise<ILead[]> {
+        if (phones.length === 0) return [];
+
+        const placeholders = phones.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM leads
+       WHERE phone IN (${placeholders}) AND created_at >= ? AND assigned_to IS NULL AND deleted_at IS NULL
+       ORDER BY id ASC`,
+            [...phones, createdSince]
         );
         return rows as ILead[];
     }
@@ -254,11 +588,36 @@ export class LeadModel {
         return result.affectedRows > 0;
     }
 
+    /**
+     * Store a computed score without touching updated_at
+     */
+    static async updateScore(leadId: number, score: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE leads SET score = ?, score_updated_at = CURRENT_TIMESTAMP, updated_at = updated_at
+       WHERE id = ?`,
+            [score, leadId]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Next batch of live leads by ID (for batch jobs walking the whole table)
+     */
+    static async findBatchAfter(afterId: number, limit: number, unscoredOnly: boolean = false): Promise<ILead[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM leads WHERE deleted_at IS NULL AND id > ?
+       ${unscoredOnly ? 'AND score_updated_at IS NULL' : ''}
+       ORDER BY id ASC LIMIT ${Number(limit)}`,
+            [afterId]
+        );
+        return rows as ILead[];
+    }
+
     /**
      * Get leads assigned to specific agent
      */
-    static async findByAgent(agentId: number, status?: LeadStatus): Promise<ILead[]> {
-        let query = 'SELECT * FROM leads WHERE assigned_to = ?';
+    static async findByAgent(agentId: number, status?: string): Promise<ILead[]> {
+        let query = 'SELECT * FROM leads WHERE assigned_to = ? AND deleted_at IS NULL';
         const params: any[] = [agentId];
 
         if (status) {
@@ -273,29 +632,87 @@ export class LeadModel {
     }
 
     /**
-     * Search leads by name, phone, or email
+     * Count live leads per agent that are not in one of `closedStatuses` (0 for agents without any)
      */
-    static async search(searchTerm: string, limit: number = 20): Promise<ILead[]> {
-        // Validate and coerce limit to integer
-        const validLimit = Math.floor(Number(limit ?? 20));
+    static async countOpenByAgents(agentIds: number[], closedStatuses: string[]): Promise<Record<number, number>> {
+        const counts: Record<number, number> = {};
+        agentIds.forEach(agentId => {
+            counts[agentId] = 0;
+        });
+        if (agentIds.length === 0) return counts;
 
-        if (validLimit < 0) {
-            throw new Error('Invalid limit (must be a non-negative integer)');
+        let query = `SELECT assigned_to, COUNT(*) AS open_leads FROM leads
+       WHERE deleted_at IS NULL AND assigned_to IN (${agentIds.map(() => '?').join(', ')})`;
+        const params: any[] = [...agentIds];
+
+        if (closedStatuses.length > 0) {
+            query += ` AND status NOT IN (${closedStatuses.map(() => '?').join(', ')})`;
+            params.push(...closedStatuses);
         }
 
-        const searchPattern = `%${searchTerm}%`;
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(`${query} GROUP BY assigned_to`, params);
+        rows.forEach(row => {
+            counts[row.assigned_to] = Number(row.open_leads);
+        });
+        return counts;
+    }
 
-        // IMPORTANT: LIMIT must be in the SQL string, NOT as a ? parameter
-        const query = `SELECT * FROM leads 
-        WHERE name LIKE ? OR phone LIKE ? OR email LIKE ? 
-        ORDER BY created_at DESC LIMIT ${validLimit}`;
+    /**
+     * Fetch search candidates matching any of the given terms: FULLTEXT on name/email,
+     * digits within phone_digits, or a first/last name that sounds like one of `fuzzyTokens`.
+     * `text_score` is the FULLTEXT relevance (0 for other matches).
+     */
+    static async searchCandidates(
+        terms: { booleanQuery?: string; phoneDigits?: string; fuzzyTokens?: string[] },
+        filters: LeadFilters,
+        poolSize: number
+    ): Promise<Array<{ lead: ILead; text_score: number }>> {
+        const { whereParts, params } = this.buildWhere(filters);
+        const limit = Math.floor(Number(poolSize));
+
+        const run = async (
+            condition: string,
+            conditionParams: any[],
+            score: string = '0',
+            scoreParams: any[] = []
+        ): Promise<RowDataPacket[]> => {
+            // IMPORTANT: LIMIT must be in the SQL string, NOT as a ? parameter
+            const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+                `SELECT *, ${score} AS text_score FROM leads ${this.toWhereClause([...whereParts, condition])}
+        ORDER BY text_score DESC, created_at DESC LIMIT ${limit}`,
+                [...scoreParams, ...params, ...conditionParams]
+            );
+            return rows;
+        };
 
-        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            query,
-            [searchPattern, searchPattern, searchPattern]
-        );
+        const queries: Array<Promise<RowDataPacket[]>> = [];
+        if (terms.booleanQuery) {
+            const match = 'MATCH(name, email) AGAINST (? IN BOOLEAN MODE)';
+            queries.push(run(match, [terms.booleanQuery], match, [terms.booleanQuery]));
+        }
+        if (terms.phoneDigits) {
+            queries.push(run('phone_digits LIKE ?', [`%${terms.phoneDigits}%`]));
+        }
+        if (terms.fuzzyTokens && terms.fuzzyTokens.length > 0) {
+            const soundsLike = "(SOUNDEX(SUBSTRING_INDEX(name, ' ', 1)) = SOUNDEX(?) OR SOUNDEX(SUBSTRING_INDEX(name, ' ', -1)) = SOUNDEX(?))";
+            queries.push(run(
+                `(${terms.fuzzyTokens.map(() => soundsLike).join(' OR ')})`,
+                terms.fuzzyTokens.flatMap(token => [token, token])
+            ));
+        }
 
-        return rows as ILead[];
+        const candidates = new Map<number, { lead: ILead; text_score: number }>();
+        for (const rows of await Promise.all(queries)) {
+            for (const row of rows) {
+                const { text_score: textScore, ...lead } = row;
+                const existing = candidates.get(row.id);
+                if (!existing || Number(textScore) > existing.text_score) {
+                    candidates.set(row.id, { lead: lead as ILead, text_score: Number(textScore) || 0 });
+                }
+            }
+        }
+
+        return [...candidates.values()];
     }
 
     /**
@@ -303,7 +720,7 @@ export class LeadModel {
      */
     static async getRecent(limit: number = 10): Promise<ILead[]> {
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT * FROM leads ORDER BY created_at DESC LIMIT ?',
+            'SELECT * FROM leads WHERE deleted_at IS NULL ORDER BY created_at DESC LIMIT ?',
             [limit]
         );
         return rows as ILead[];
@@ -323,11 +740,130 @@ export class LeadModel {
     /**
      * Update lead status
      */
-    static async updateStatus(leadId: number, status: LeadStatus): Promise<boolean> {
+    static async updateStatus(leadId: number, status: string): Promise<boolean> {
         const [result] = await mysqlPool.execute<ResultSetHeader>(
             'UPDATE leads SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
             [status, leadId]
         );
         return result.affectedRows > 0;
     }
-}
\ No newline at end of file
+
+    /**
+     * Build the WHERE clause shared by list queries
+     */
+    private static buildWhere(filters: LeadFilters): { whereParts: string[]; params: any[] } {
+        const whereParts: string[] = [];
+        const params: any[] = [];
+
+        if (!filters.include_deleted) {
+            whereParts.push('deleted_at IS NULL');
+        }
+        if (Array.isArray(filters.status) && filters.status.length > 0) {
+            whereParts.push(`status IN (${filters.status.map(() => '?').join(', ')})`);
+            params.push(...filters.status);
+        } else if (typeof filters.status === 'string') {
+            whereParts.push('status = ?');
+            params.push(filters.status);
+        }
+        if (filters.source) {
+            whereParts.push('source = ?');
+            params.push(filters.source);
+        }
+        if (filters.unassigned) {
+            whereParts.push('assigned_to IS NULL');
+        } else if (filters.assigned_to) {
+            whereParts.push('assigned_to = ?');
+            params.push(filters.assigned_to);
+        }
+        if (filters.has_email === true) {
+            whereParts.push("email IS NOT NULL AND email <> ''");
+        } else if (filters.has_email === false) {
+            whereParts.push("(email IS NULL OR email = '')");
+        }
+        Object.entries(filters.custom_fields ?? {}).forEach(([key, value]) => {
+            whereParts.push('JSON_UNQUOTE(JSON_EXTRACT(custom_fields, ?)) = ?');
+            params.push(`$.${key}`, String(value));
+        });
+        if (filters.tags && filters.tags.length > 0) {
+            const tags = [...new Set(filters.tags)];
+            const placeholders = tags.map(() => '?').join(', ');
+            // Lead must carry every requested tag
+            whereParts.push(
+                `id IN (SELECT lead_id FROM lead_tags WHERE tag IN (${placeholders}) GROUP BY lead_id HAVING COUNT(*) = ?)`
+            );
+            params.push(...tags, tags.length);
+        }
+
+        if (filters.min_score !== undefined) {
+            whereParts.push('score >= ?');
+            params.push(filters.min_score);
+        }
+        if (filters.max_score !== undefined) {
+            whereParts.push('score <= ?');
+            params.push(filters.max_score);
+        }
+
+        if (filters.scope) {
+            const { agent_ids, include_unassigned } = filters.scope;
+            const conditions: string[] = [];
+            if (agent_ids.length > 0) {
+                const placeholders = agent_ids.map(() => '?').join(', ');
+                conditions.push(
+                    `assigned_to IN (${placeholders})`,
+                    `id IN (SELECT lead_id FROM call_tasks WHERE agent_id IN (${placeholders}))`
+                );
+                params.push(...agent_ids, ...agent_ids);
+            }
+            if (include_unassigned) {
+                conditions.push('assigned_to IS NULL');
+            }
+            // An empty scope matches nothing rather than everything
+            whereParts.push(conditions.length > 0 ? `(${conditions.join(' OR ')})` : '1 = 0');
+        }
+
+        const ranges: Array<[string | Date | undefined, string]> = [
+            [filters.created_from, 'created_at >= ?'],
+            [filters.created_to, 'created_at <= ?'],
+            [filters.updated_from, 'updated_at >= ?'],
+            [filters.updated_to, 'updated_at <= ?']
+        ];
+        ranges.forEach(([value, condition]) => {
+            if (value) {
+                whereParts.push(condition);
+                params.push(new Date(value));
+            }
+        });
+
+        return { whereParts, params };
+    }
+
+    private static toWhereClause(whereParts: string[]): string {
+        return whereParts.length > 0 ? 'WHERE ' + whereParts.join(' AND ') : '';
+    }
+
+    /**
+     * Whitelisted SELECT list; `id` and the sort column (needed for cursors) are always included
+     */
+    private static buildColumns(fields: LeadSelectField[] | undefined, sort: LeadSortField): string {
+        if (!fields || fields.length === 0) return '*';
+
+        const columns = fields.filter(field => field !== 'tags' && LEAD_SELECT_FIELDS.includes(field));
+        return [...new Set(['id', sort, ...columns])].join(', ');
+    }
+
+    /**
+     * ORDER BY with `id` as tie-breaker (sort is already whitelisted)
+     */
+    private static buildOrderBy(sort: LeadSortField, order: 'asc' | 'desc'): string {
+        const direction = order === 'asc' ? 'ASC' : 'DESC';
+        return sort === 'id' ? `id ${direction}` : `${sort} ${direction}, id ${direction}`;
+    }
+
+    /**
+     * Serialize custom field values for the JSON column (empty -> NULL)
+     */
+    private static toJson(value: unknown): string | null {
+        if (!value || (typeof value === 'object' && Object.keys(value).length === 0)) return null;
+        return JSON.stringify(value);
+    }
+}
@@ -0,0 +1,29 @@
+import { RowDataPacket } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { LeadScoringConfig } from '../../types';
+
+export class LeadScoringConfigModel {
+    /**
+     * Get the saved scoring configuration (null until an admin saves one)
+     */
+    static async find(): Promise<LeadScoringConfig | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT config FROM lead_scoring_config WHERE id = 1'
+        );
+        if (rows.length === 0) return null;
+
+        const config = rows[0].config;
+        return typeof config === 'string' ? JSON.parse(config) : config;
+    }
+
+    /**
+     * Save the scoring configuration
+     */
+    static async save(config: LeadScoringConfig, updatedBy?: number): Promise<void> {
+        await mysqlPool.execute(
+            `INSERT INTO lead_scoring_config (id, config, updated_by) VALUES (1, ?, ?)
+       ON DUPLICATE KEY UPDATE config = VALUES(config), updated_by = VALUES(updated_by)`,
+            [JSON.stringify(config), updatedBy ?? null]
+        );
+    }
+}
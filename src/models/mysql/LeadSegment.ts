@@ -0,0 +1,92 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { ILeadSegment, LeadFilters } from '../../types';
+
+export class LeadSegmentModel {
+    /**
+     * Create a saved segment
+     */
+    static async create(data: {
+        name: string;
+        description?: string;
+        filters: LeadFilters;
+        created_by?: number;
+    }): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'INSERT INTO lead_segments (name, description, filters, created_by) VALUES (?, ?, ?, ?)',
+            [data.name, data.description ?? null, JSON.stringify(data.filters), data.created_by ?? null]
+        );
+        return result.insertId;
+    }
+
+    /**
+     * Find segment by ID
+     */
+    static async findById(id: number): Promise<ILeadSegment | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM lead_segments WHERE id = ?',
+            [id]
+        );
+        return rows.length > 0 ? (rows[0] as ILeadSegment) : null;
+    }
+
+    /**
+     * Find segment by name
+     */
+    static async findByName(name: string): Promise<ILeadSegment | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM lead_segments WHERE name = ?',
+            [name]
+        );
+        return rows.length > 0 ? (rows[0] as ILeadSegment) : null;
+    }
+
+    /**
+     * Get all segments
+     */
+    static async findAll(): Promise<ILeadSegment[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM lead_segments ORDER BY name ASC'
+        );
+        return rows as ILeadSegment[];
+    }
+
+    /**
+     * Update name, description or filters
+     */
+    static async update(
+        id: number,
+        data: Partial<Pick<ILeadSegment, 'name' | 'description' | 'filters'>>
+    ): Promise<boolean> {
+        const fields: string[] = [];
+        const values: any[] = [];
+
+        Object.entries(data).forEach(([key, value]) => {
+            if (value !== undefined) {
+                fields.push(`${key} = ?`);
+                values.push(key === 'filters' ? JSON.stringify(value) : value);
+            }
+        });
+
+        if (fields.length === 0) return false;
+
+        values.push(id);
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE lead_segments SET ${fields.join(', ')} WHERE id = ?`,
+            values
+        );
+
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Delete segment
+     */
+    static async delete(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM lead_segments WHERE id = ?',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+}
@@ -0,0 +1,63 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+
+export class LeadTagModel {
+    /**
+     * Get tags for a lead
+     */
+    static async findByLead(leadId: number): Promise<string[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT tag FROM lead_tags WHERE lead_id = ? ORDER BY tag ASC',
+            [leadId]
+        );
+        return rows.map(row => row.tag as string);
+    }
+
+    /**
+     * Get tags for several leads, keyed by lead ID
+     */
+    static async findByLeads(leadIds: number[]): Promise<Record<number, string[]>> {
+        const tags: Record<number, string[]> = {};
+        if (leadIds.length === 0) return tags;
+
+        const placeholders = leadIds.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT lead_id, tag FROM lead_tags WHERE lead_id IN (${placeholders}) ORDER BY tag ASC`,
+            leadIds
+        );
+
+        rows.forEach(row => {
+            if (!tags[row.lead_id]) tags[row.lead_id] = [];
+            tags[row.lead_id].push(row.tag);
+        });
+        return tags;
+    }
+
+    /**
+     * Add tags to a lead (existing tags are ignored)
+     */
+    static async add(leadId: number, tags: string[]): Promise<number> {
+        if (tags.length === 0) return 0;
+
+        const values = tags.map(tag => [leadId, tag]);
+        const [result] = await mysqlPool.query<ResultSetHeader>(
+            'INSERT IGNORE INTO lead_tags (lead_id, tag) VALUES ?',
+            [values]
+        );
+        return result.affectedRows;
+    }
+
+    /**
+     * Remove tags from a lead
+     */
+    static async remove(leadId: number, tags: string[]): Promise<number> {
+        if (tags.length === 0) return 0;
+
+        const placeholders = tags.map(() => '?').join(', ');
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `DELETE FROM lead_tags WHERE lead_id = ? AND tag IN (${placeholders})`,
+            [leadId, ...tags]
+        );
+        return result.affectedRows;
+    }
+}
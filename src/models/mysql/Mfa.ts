@@ -0,0 +1,169 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { PoolConnection } from 'mysql2/promise';
+import { mysqlPool } from '../../config/database';
+import { IUserMfa, MfaPolicy, UserRole } from '../../types';
+
+export class MfaModel {
+    /**
+     * Find a user's MFA enrollment (pending or enabled)
+     */
+    static async findByUserId(userId: number): Promise<IUserMfa | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM user_mfa WHERE user_id = ?',
+            [userId]
+        );
+        return rows.length > 0 ? (rows[0] as IUserMfa) : null;
+    }
+
+    /**
+     * Start (or restart) enrollment with a new secret; MFA stays off until enabled
+     */
+    static async savePending(userId: number, secretEncrypted: string): Promise<void> {
+        await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO user_mfa (user_id, secret_encrypted) VALUES (?, ?)
+       ON DUPLICATE KEY UPDATE secret_encrypted = VALUES(secret_encrypted), enabled_at = NULL, last_used_step = NULL`,
+            [userId, secretEncrypted]
+        );
+    }
+
+    /**
+     * Turn MFA on and replace the recovery codes in one transaction
+     */
+    static async enable(userId: number, step: number, recoveryCodeHashes: string[]): Promise<boolean> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            const [result] = await connection.execute<ResultSetHeader>(
+                'UPDATE user_mfa SET enabled_at = NOW(), last_used_step = ? WHERE user_id = ? AND enabled_at IS NULL',
+                [step, userId]
+            );
+            if (result.affectedRows === 0) {
+                await connection.rollback();
+                return false;
+            }
+            await this.insertRecoveryCodes(connection, userId, recoveryCodeHashes);
+
+            await connection.commit();
+            return true;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Remove a user's enrollment and recovery codes
+     */
+    static async delete(userId: number): Promise<boolean> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            await connection.execute<ResultSetHeader>('DELETE FROM mfa_recovery_codes WHERE user_id = ?', [userId]);
+            const [result] = await connection.execute<ResultSetHeader>('DELETE FROM user_mfa WHERE user_id = ?', [userId]);
+
+            await connection.commit();
+            return result.affectedRows > 0;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Record a TOTP step as used. Fails if it (or a later one) was already used, so codes can't be replayed.
+     */
+    static async useStep(userId: number, step: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE user_mfa SET last_used_step = ?
+       WHERE user_id = ? AND enabled_at IS NOT NULL AND (last_used_step IS NULL OR last_used_step < ?)`,
+            [step, userId, step]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Replace all recovery codes of a user
+     */
+    static async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+            await this.insertRecoveryCodes(connection, userId, codeHashes);
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Use a recovery code
+     * @returns False if the code does not exist or was already used
+     */
+    static async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE mfa_recovery_codes SET used_at = NOW() WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+            [userId, codeHash]
+        );
+        return result.affectedRows > 0;
+    }
+
+    static async countUnusedRecoveryCodes(userId: number): Promise<number> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT COUNT(*) AS total FROM mfa_recovery_codes WHERE user_id = ? AND used_at IS NULL',
+            [userId]
+        );
+        return Number(rows[0].total) || 0;
+    }
+
+    /**
+     * Which roles must use MFA (roles without a row are not required)
+     */
+    static async findPolicy(): Promise<MfaPolicy> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>('SELECT role, required FROM mfa_policies');
+
+        const policy: MfaPolicy = {
+            [UserRole.ADMIN]: false,
+            [UserRole.MANAGER]: false,
+            [UserRole.AGENT]: false
+        };
+        rows.forEach(row => {
+            policy[row.role as UserRole] = Boolean(row.required);
+        });
+        return policy;
+    }
+
+    static async setPolicy(role: UserRole, required: boolean, updatedBy: number): Promise<void> {
+        await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO mfa_policies (role, required, updated_by) VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE required = VALUES(required), updated_by = VALUES(updated_by)`,
+            [role, required, updatedBy]
+        );
+    }
+
+    private static async insertRecoveryCodes(
+        connection: PoolConnection,
+        userId: number,
+        codeHashes: string[]
+    ): Promise<void> {
+        await connection.execute<ResultSetHeader>('DELETE FROM mfa_recovery_codes WHERE user_id = ?', [userId]);
+        if (codeHashes.length === 0) return;
+
+        const placeholders = codeHashes.map(() => '(?, ?)').join(', ');
+        await connection.execute<ResultSetHeader>(
+            `INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ${placeholders}`,
+            codeHashes.flatMap(hash => [userId, hash])
+        );
+    }
+}
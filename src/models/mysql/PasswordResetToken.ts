@@ -0,0 +1,81 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import bcrypt from 'bcryptjs';
+import { mysqlPool } from '../../config/database';
+
+export class PasswordResetTokenModel {
+    /**
+     * Store a reset token by its SHA-256 hash
+     */
+    static async create(userId: number, tokenHash: string, expiresAt: Date): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES (?, ?, ?)',
+            [userId, tokenHash, expiresAt]
+        );
+        return result.insertId;
+    }
+
+    /**
+     * Mark every unused token of a user as used, so only the newest one works
+     */
+    static async invalidateForUser(userId: number): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+            [userId]
+        );
+        return result.affectedRows;
+    }
+
+    /**
+     * Use a token: mark it used and set the new password in one transaction.
+     * Only an unused, unexpired token of an active user is accepted.
+     * @returns The user's ID, or null if the token is not valid
+     */
+    static async consume(tokenHash: string, newPassword: string): Promise<number | null> {
+        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            const [rows] = await connection.execute<RowDataPacket[]>(
+                `SELECT t.user_id FROM password_reset_tokens t
+         JOIN users u ON u.id = t.user_id AND u.is_active = TRUE
+         WHERE t.token_hash = ? AND t.used_at IS NULL AND t.expires_at > NOW()
+         FOR UPDATE`,
+                [tokenHash]
+            );
+            if (rows.length === 0) {
+                await connection.rollback();
+                return null;
+            }
+
+            const userId: number = rows[0].user_id;
+            await connection.execute<ResultSetHeader>(
+                'UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL',
+                [userId]
+            );
+            await connection.execute<ResultSetHeader>(
+                'UPDATE users SET password_hash = ? WHERE id = ?',
+                [hashedPassword, userId]
+            );
+
+            await connection.commit();
+            return userId;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Delete tokens that are used or expired
+     */
+    static async cleanup(): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM password_reset_tokens WHERE used_at IS NOT NULL OR expires_at < NOW()'
+        );
+        return result.affectedRows;
+    }
+}
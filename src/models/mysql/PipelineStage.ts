@@ -0,0 +1,126 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { IPipelineStage, PipelineTransition } from '../../types';
+
+export class PipelineStageModel {
+    /**
+     * Create a new pipeline stage
+     */
+    static async create(data: {
+        stage_key: string;
+        name: string;
+        position: number;
+        is_terminal?: boolean;
+    }): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'INSERT INTO pipeline_stages (stage_key, name, position, is_terminal) VALUES (?, ?, ?, ?)',
+            [data.stage_key, data.name, data.position, data.is_terminal ?? false]
+        );
+        return result.insertId;
+    }
+
+    /**
+     * Find stage by ID
+     */
+    static async findById(id: number): Promise<IPipelineStage | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM pipeline_stages WHERE id = ?',
+            [id]
+        );
+        return rows.length > 0 ? this.toStage(rows[0]) : null;
+    }
+
+    /**
+     * Get all stages in pipeline order
+     */
+    static async findAll(): Promise<IPipelineStage[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM pipeline_stages ORDER BY position ASC, id ASC'
+        );
+        return rows.map(row => this.toStage(row));
+    }
+
+    /**
+     * Update stage name, position or terminal flag (the key is immutable)
+     */
+    static async update(
+        id: number,
+        data: Partial<Pick<IPipelineStage, 'name' | 'position' | 'is_terminal'>>
+    ): Promise<boolean> {
+        const fields: string[] = [];
+        const values: any[] = [];
+
+        Object.entries(data).forEach(([key, value]) => {
+            if (value !== undefined) {
+                fields.push(`${key} = ?`);
+                values.push(value);
+            }
+        });
+
+        if (fields.length === 0) return false;
+
+        values.push(id);
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE pipeline_stages SET ${fields.join(', ')} WHERE id = ?`,
+            values
+        );
+
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Delete stage (its transitions cascade)
+     */
+    static async delete(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM pipeline_stages WHERE id = ?',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Get all allowed transitions as stage key pairs
+     */
+    static async findTransitions(): Promise<PipelineTransition[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT f.stage_key AS \`from\`, t.stage_key AS \`to\`
+       FROM pipeline_transitions pt
+       JOIN pipeline_stages f ON f.id = pt.from_stage_id
+       JOIN pipeline_stages t ON t.id = pt.to_stage_id
+       ORDER BY f.position, t.position`
+        );
+        return rows as PipelineTransition[];
+    }
+
+    /**
+     * Replace the full set of allowed transitions in one transaction
+     */
+    static async replaceTransitions(transitions: Array<{ from_stage_id: number; to_stage_id: number }>): Promise<void> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+            await connection.execute('DELETE FROM pipeline_transitions');
+
+            if (transitions.length > 0) {
+                const placeholders = transitions.map(() => '(?, ?)').join(', ');
+                await connection.execute<ResultSetHeader>(
+                    `INSERT IGNORE INTO pipeline_transitions (from_stage_id, to_stage_id) VALUES ${placeholders}`,
+                    transitions.flatMap(t => [t.from_stage_id, t.to_stage_id])
+                );
+            }
+
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    private static toStage(row: RowDataPacket): IPipelineStage {
+        return { ...(row as IPipelineStage), is_terminal: Boolean(row.is_terminal) };
+    }
+}
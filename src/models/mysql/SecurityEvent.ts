@@ -0,0 +1,120 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import {
+    ClientInfo,
+    ISecurityEvent,
+    PaginationParams,
+    SecurityEventFilters,
+    SecurityEventType,
+    SuspiciousIp
+} from '../../types';
+
+export class SecurityEventModel {
+    static async create(data: {
+        event_type: SecurityEventType;
+        email?: string;
+        user_id?: number;
+        client?: ClientInfo;
+        details?: Record<string, any>;
+    }): Promise<void> {
+        await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO security_events (event_type, email, user_id, ip_address, user_agent, details)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+            [
+                data.event_type,
+                data.email ?? null,
+                data.user_id ?? null,
+                data.client?.ip_address ?? null,
+                data.client?.user_agent?.slice(0, 255) ?? null,
+                data.details ? JSON.stringify(data.details) : null
+            ]
+        );
+    }
+
+    /**
+     * Events matching the filters, newest first
+     */
+    static async findAll(
+        filters: SecurityEventFilters,
+        pagination: PaginationParams
+    ): Promise<{ events: ISecurityEvent[]; total: number }> {
+        const whereParts: string[] = [];
+        const params: any[] = [];
+
+        if (filters.event_type) {
+            whereParts.push('event_type = ?');
+            params.push(filters.event_type);
+        }
+        if (filters.email) {
+            whereParts.push('email = ?');
+            params.push(filters.email);
+        }
+        if (filters.user_id) {
+            whereParts.push('user_id = ?');
+            params.push(filters.user_id);
+        }
+        if (filters.ip_address) {
+            whereParts.push('ip_address = ?');
+            params.push(filters.ip_address);
+        }
+        if (filters.from) {
+            whereParts.push('created_at >= ?');
+            params.push(filters.from);
+        }
+        if (filters.to) {
+            whereParts.push('created_at <= ?');
+            params.push(filters.to);
+        }
+
+        const where = whereParts.length > 0 ? `WHERE ${whereParts.join(' AND ')}` : '';
+        const [[countRow], [rows]] = await Promise.all([
+            mysqlPool.execute<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM security_events ${where}`, params),
+            mysqlPool.execute<RowDataPacket[]>(
+                `SELECT * FROM security_events ${where}
+       ORDER BY created_at DESC, id DESC LIMIT ${Number(pagination.limit)} OFFSET ${Number(pagination.offset)}`,
+                params
+            )
+        ]);
+
+        return {
+            events: rows.map(row => ({
+                ...(row as ISecurityEvent),
+                details: typeof row.details === 'string' ? JSON.parse(row.details) : row.details
+            })),
+            total: Number(countRow[0].total) || 0
+        };
+    }
+
+    /**
+     * IPs with the most failed logins since a point in time
+     */
+    static async findSuspiciousIps(since: Date, limit: number): Promise<SuspiciousIp[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ip_address, COUNT(*) AS failed_logins, COUNT(DISTINCT email) AS distinct_emails,
+              MAX(created_at) AS last_attempt_at
+       FROM security_events
+       WHERE event_type IN ('login_failed', 'login_blocked') AND created_at >= ? AND ip_address IS NOT NULL
+       GROUP BY ip_address
+       ORDER BY distinct_emails DESC, failed_logins DESC
+       LIMIT ${Number(limit)}`,
+            [since]
+        );
+        return rows.map(row => ({
+            ip_address: row.ip_address,
+            failed_logins: Number(row.failed_logins),
+            distinct_emails: Number(row.distinct_emails),
+            last_attempt_at: row.last_attempt_at
+        }));
+    }
+
+    /**
+     * Delete events older than a number of days
+     */
+    static async deleteOlderThan(days: number): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM security_events WHERE created_at < DATE_SUB(NOW(), INTERVAL ? DAY)',
+            [days]
+        );
+        return result.affectedRows;
+    }
+}
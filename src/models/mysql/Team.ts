@@ -0,0 +1,179 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { PoolConnection } from 'mysql2/promise';
+import { mysqlPool } from '../../config/database';
+import { ITeam } from '../../types';
+
+export class TeamModel {
+    /**
+     * Create a team with its members in one transaction
+     */
+    static async create(data: {
+        name: string;
+        manager_id?: number | null;
+        member_ids?: number[];
+    }): Promise<number> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            const [result] = await connection.execute<ResultSetHeader>(
+                'INSERT INTO teams (name, manager_id) VALUES (?, ?)',
+                [data.name, data.manager_id ?? null]
+            );
+            await this.insertMembers(connection, result.insertId, data.member_ids ?? []);
+
+            await connection.commit();
+            return result.insertId;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Find team by ID
+     */
+    static async findById(id: number): Promise<ITeam | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT * FROM teams WHERE id = ?',
+            [id]
+        );
+        if (rows.length === 0) return null;
+
+        const [team] = await this.withMembers(rows);
+        return team;
+    }
+
+    /**
+     * Get all teams (or those run by one manager), by name
+     */
+    static async findAll(managerId?: number): Promise<ITeam[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT * FROM teams ${managerId !== undefined ? 'WHERE manager_id = ?' : ''} ORDER BY name ASC`,
+            managerId !== undefined ? [managerId] : []
+        );
+        return this.withMembers(rows);
+    }
+
+    /**
+     * Update team settings; `member_ids` replaces the membership
+     */
+    static async update(
+        id: number,
+        data: { name?: string; manager_id?: number | null; member_ids?: number[] }
+    ): Promise<boolean> {
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            const fields: string[] = [];
+            const values: any[] = [];
+            if (data.name !== undefined) {
+                fields.push('name = ?');
+                values.push(data.name);
+            }
+            if (data.manager_id !== undefined) {
+                fields.push('manager_id = ?');
+                values.push(data.manager_id);
+            }
+
+            // Touch updated_at even when only the members change
+            const [result] = await connection.execute<ResultSetHeader>(
+                `UPDATE teams SET ${[...fields, 'updated_at = CURRENT_TIMESTAMP'].join(', ')} WHERE id = ?`,
+                [...values, id]
+            );
+
+            if (data.member_ids !== undefined) {
+                await connection.execute<ResultSetHeader>('DELETE FROM team_members WHERE team_id = ?', [id]);
+                await this.insertMembers(connection, id, data.member_ids);
+            }
+
+            await connection.commit();
+            return result.affectedRows > 0;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Delete team (members are released, not deleted)
+     */
+    static async delete(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM teams WHERE id = ?',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Take a user out of every team, as member or as manager
+     */
+    static async removeUser(userId: number): Promise<void> {
+        await mysqlPool.execute<ResultSetHeader>('DELETE FROM team_members WHERE user_id = ?', [userId]);
+        await mysqlPool.execute<ResultSetHeader>('UPDATE teams SET manager_id = NULL WHERE manager_id = ?', [userId]);
+    }
+
+    /**
+     * Team of each given user that has one, keyed by user ID
+     */
+    static async findTeamIdsByUsers(userIds: number[]): Promise<Record<number, number>> {
+        const teams: Record<number, number> = {};
+        if (userIds.length === 0) return teams;
+
+        const placeholders = userIds.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT user_id, team_id FROM team_members WHERE user_id IN (${placeholders})`,
+            userIds
+        );
+        rows.forEach(row => {
+            teams[row.user_id] = row.team_id;
+        });
+        return teams;
+    }
+
+    /**
+     * IDs of the members of every team a manager runs
+     */
+    static async findMemberIdsByManager(managerId: number): Promise<number[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT tm.user_id FROM team_members tm
+       JOIN teams t ON t.id = tm.team_id
+       WHERE t.manager_id = ?
+       ORDER BY tm.user_id ASC`,
+            [managerId]
+        );
+        return rows.map(row => row.user_id as number);
+    }
+
+    private static async insertMembers(connection: PoolConnection, teamId: number, userIds: number[]): Promise<void> {
+        if (userIds.length === 0) return;
+
+        await connection.query<ResultSetHeader>(
+            'INSERT INTO team_members (team_id, user_id) VALUES ?',
+            [userIds.map(userId => [teamId, userId])]
+        );
+    }
+
+    private static async withMembers(rows: RowDataPacket[]): Promise<ITeam[]> {
+        if (rows.length === 0) return [];
+
+        const ids = rows.map(row => row.id as number);
+        const [members] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT team_id, user_id FROM team_members WHERE team_id IN (${ids.map(() => '?').join(', ')}) ORDER BY user_id ASC`,
+            ids
+        );
+
+        return rows.map(row => ({
+            ...(row as ITeam),
+            member_ids: members.filter(member => member.team_id === row.id).map(member => member.user_id as number)
+        }));
+    }
+}
@@ -1,6 +1,6 @@
 import { RowDataPacket, ResultSetHeader } from 'mysql2';
 import { mysqlPool } from '../../config/database';
-import { IUser, UserRole } from '../../types';
+import { IUser, PaginationParams, UserFilters, UserRole } from '../../types';
 import bcrypt from 'bcryptjs';
 
 export class UserModel {
@@ -18,6 +18,25 @@ export class UserModel {
         return result.insertId;
     }
 
+    /**
+     * Create a user only if the users table is empty (first-admin bootstrap)
+     * @returns The new user's ID, or null if any user already exists
+     */
+    static async createIfNone(
+        email: string,
+        password: string,
+        role: UserRole,
+        phone?: string
+    ): Promise<number | null> {
+        const hashedPassword = await bcrypt.hash(password, 10);
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO users (email, password_hash, role, phone)
+       SELECT ?, ?, ?, ? FROM DUAL WHERE NOT EXISTS (SELECT 1 FROM users)`,
+            [email, hashedPassword, role, phone || null]
+        );
+        return result.affectedRows > 0 ? result.insertId : null;
+    }
+
     static async findByEmail(email: string): Promise<IUser | null> {
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
             'SELECT * FROM users WHERE email = ? AND is_active = TRUE',
@@ -34,9 +53,9 @@ export class UserModel {
         return rows.length > 0 ? (rows[0] as IUser) : null;
     }
 
-    static async findByIdSafe(id: number): Promise<Omit<IUser, 'password_hash'> | null> {
+    static async findByIdSafe(id: number, includeInactive: boolean = false): Promise<Omit<IUser, 'password_hash'> | null> {
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-            'SELECT id, email, role, phone, is_active, created_at, updated_at FROM users WHERE id = ? AND is_active = TRUE',
+            `SELECT id, email, role, phone, is_active, created_at, updated_at FROM users WHERE id = ?${includeInactive ? '' : ' AND is_active = TRUE'}`,
             [id]
         );
         return rows.length > 0 ? (rows[0] as Omit<IUser, 'password_hash'>) : null;
@@ -49,6 +68,35 @@ export class UserModel {
         return bcrypt.compare(plainPassword, hashedPassword);
     }
 
+    static async updatePassword(id: number, password: string): Promise<boolean> {
+        const hashedPassword = await bcrypt.hash(password, 10);
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE users SET password_hash = ? WHERE id = ?',
+            [hashedPassword, id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    static async getTokenVersion(id: number): Promise<number | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            'SELECT token_version FROM users WHERE id = ?',
+            [id]
+        );
+        return rows.length > 0 ? Number(rows[0].token_version) : null;
+    }
+
+    /**
+     * Bump the token version, invalidating every access token issued before
+     * @returns The new version
+     */
+    static async incrementTokenVersion(id: number): Promise<number> {
+        await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE users SET token_version = token_version + 1 WHERE id = ?',
+            [id]
+        );
+        return (await this.getTokenVersion(id)) ?? 0;
+    }
+
     static async updateLastLogin(userId: number): Promise<void> {
         await mysqlPool.execute<ResultSetHeader>(
             'UPDATE users SET updated_at = CURRENT_TIMESTAMP WHERE id = ?',
@@ -64,6 +112,24 @@ export class UserModel {
         return rows as Omit<IUser, 'password_hash'>[];
     }
 
+    /**
+     * Emails of users by ID (inactive users included), keyed by ID
+     */
+    static async findEmailsByIds(ids: number[]): Promise<Record<number, string>> {
+        const emails: Record<number, string> = {};
+        if (ids.length === 0) return emails;
+
+        const placeholders = ids.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT id, email FROM users WHERE id IN (${placeholders})`,
+            ids
+        );
+        rows.forEach(row => {
+            emails[row.id] = row.email;
+        });
+        return emails;
+    }
+
     static async findByRole(role: UserRole): Promise<Omit<IUser, 'password_hash'>[]> {
         const [rows] = await mysqlPool.execute<RowDataPacket[]>(
             'SELECT id, email, phone, role, is_active, created_at, updated_at FROM users WHERE role = ? AND is_active = TRUE',
@@ -104,6 +170,54 @@ export class UserModel {
     }
 
 
+    /**
+     * List users (active and inactive) matching filters, by email
+     */
+    static async findAll(
+        filters: UserFilters,
+        pagination: PaginationParams
+    ): Promise<{ users: Omit<IUser, 'password_hash'>[]; total: number }> {
+        const whereParts: string[] = [];
+        const params: any[] = [];
+
+        if (filters.role) {
+            whereParts.push('role = ?');
+            params.push(filters.role);
+        }
+        if (filters.is_active !== undefined) {
+            whereParts.push('is_active = ?');
+            params.push(filters.is_active);
+        }
+        if (filters.search) {
+            whereParts.push('(email LIKE ? OR phone LIKE ?)');
+            const pattern = `%${filters.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+            params.push(pattern, pattern);
+        }
+
+        const where = whereParts.length > 0 ? `WHERE ${whereParts.join(' AND ')}` : '';
+        const [[countRow], [rows]] = await Promise.all([
+            mysqlPool.execute<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM users ${where}`, params),
+            mysqlPool.execute<RowDataPacket[]>(
+                `SELECT id, email, phone, role, is_active, created_at, updated_at FROM users ${where}
+       ORDER BY email ASC LIMIT ${Number(pagination.limit)} OFFSET ${Number(pagination.offset)}`,
+                params
+            )
+        ]);
+
+        return {
+            users: rows.map(row => ({ ...(row as Omit<IUser, 'password_hash'>), is_active: Boolean(row.is_active) })),
+            total: Number(countRow[0].total) || 0
+        };
+    }
+
+    static async reactivate(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE users SET is_active = TRUE WHERE id = ?',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
     static async softDelete(id: number): Promise<boolean> {
         const [result] = await mysqlPool.execute<ResultSetHeader>(
             'UPDATE users SET is_active = FALSE WHERE id = ?',
@@ -0,0 +1,127 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import bcrypt from 'bcryptjs';
+import { mysqlPool } from '../../config/database';
+import { IUserInvite, UserRole } from '../../types';
+
+// token_hash never leaves the model
+const INVITE_COLUMNS = `id, email, role, phone, invited_by, expires_at, accepted_at,
+    accepted_user_id, revoked_at, created_at`;
+
+export class UserInviteModel {
+    /**
+     * Create an invite from the SHA-256 hash of its token
+     */
+    static async create(data: {
+        token_hash: string;
+        email: string;
+        role: UserRole;
+        phone?: string | null;
+        invited_by: number;
+        expires_at: Date;
+    }): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO user_invites (token_hash, email, role, phone, invited_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+            [data.token_hash, data.email, data.role, data.phone ?? null, data.invited_by, data.expires_at]
+        );
+        return result.insertId;
+    }
+
+    /**
+     * Find invite by ID
+     */
+    static async findById(id: number): Promise<IUserInvite | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${INVITE_COLUMNS} FROM user_invites WHERE id = ?`,
+            [id]
+        );
+        return rows.length > 0 ? (rows[0] as IUserInvite) : null;
+    }
+
+    /**
+     * Find invite by token hash
+     */
+    static async findByTokenHash(tokenHash: string): Promise<IUserInvite | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${INVITE_COLUMNS} FROM user_invites WHERE token_hash = ?`,
+            [tokenHash]
+        );
+        return rows.length > 0 ? (rows[0] as IUserInvite) : null;
+    }
+
+    /**
+     * Get invites, newest first (optionally only those sent by one user)
+     */
+    static async findAll(invitedBy?: number): Promise<IUserInvite[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${INVITE_COLUMNS} FROM user_invites
+       ${invitedBy !== undefined ? 'WHERE invited_by = ?' : ''} ORDER BY created_at DESC, id DESC`,
+            invitedBy !== undefined ? [invitedBy] : []
+        );
+        return rows as IUserInvite[];
+    }
+
+    /**
+     * Revoke an invite that has not been used yet
+     */
+    static async revoke(id: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE user_invites SET revoked_at = NOW() WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL',
+            [id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Revoke every unused invite for an email, so only the newest one works
+     */
+    static async revokePendingForEmail(email: string): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'UPDATE user_invites SET revoked_at = NOW() WHERE email = ? AND accepted_at IS NULL AND revoked_at IS NULL',
+            [email]
+        );
+        return result.affectedRows;
+    }
+
+    /**
+     * Use an invite: claim it and create its user in one transaction.
+     * The claim only succeeds on a pending, unexpired invite, so a token works once.
+     * @returns The new user's ID, or null if the invite was not pending
+     */
+    static async accept(id: number, password: string, phone?: string): Promise<number | null> {
+        const hashedPassword = await bcrypt.hash(password, 10);
+        const connection = await mysqlPool.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            const [claim] = await connection.execute<ResultSetHeader>(
+                `UPDATE user_invites SET accepted_at = NOW()
+         WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > NOW()`,
+                [id]
+            );
+            if (claim.affectedRows === 0) {
+                await connection.rollback();
+                return null;
+            }
+
+            const [result] = await connection.execute<ResultSetHeader>(
+                `INSERT INTO users (email, password_hash, role, phone)
+         SELECT email, ?, role, COALESCE(?, phone) FROM user_invites WHERE id = ?`,
+                [hashedPassword, phone ?? null, id]
+            );
+            await connection.execute<ResultSetHeader>(
+                'UPDATE user_invites SET accepted_user_id = ? WHERE id = ?',
+                [result.insertId, id]
+            );
+
+            await connection.commit();
+            return result.insertId;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+}
@@ -0,0 +1,142 @@
+import { RowDataPacket, ResultSetHeader } from 'mysql2';
+import { mysqlPool } from '../../config/database';
+import { ClientInfo, IUserSession, UserRole } from '../../types';
+
+// token_hash never leaves the model
+const SESSION_COLUMNS = `id, user_id, user_agent, ip_address, created_at, last_used_at, expires_at,
+    revoked_at, revoked_reason`;
+
+export class UserSessionModel {
+    /**
+     * Create a session with the hash of its first refresh token
+     */
+    static async create(data: {
+        id: string;
+        user_id: number;
+        token_hash: string;
+        expires_at: Date;
+        client?: ClientInfo;
+    }): Promise<void> {
+        await mysqlPool.execute<ResultSetHeader>(
+            `INSERT INTO user_sessions (id, user_id, token_hash, user_agent, ip_address, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+            [
+                data.id,
+                data.user_id,
+                data.token_hash,
+                data.client?.user_agent?.slice(0, 255) ?? null,
+                data.client?.ip_address ?? null,
+                data.expires_at
+            ]
+        );
+    }
+
+    /**
+     * Find session by ID (revoked and expired included)
+     */
+    static async findById(id: string): Promise<IUserSession | null> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${SESSION_COLUMNS} FROM user_sessions WHERE id = ?`,
+            [id]
+        );
+        return rows.length > 0 ? (rows[0] as IUserSession) : null;
+    }
+
+    /**
+     * Active sessions of a user, most recently used first
+     */
+    static async findActiveByUser(userId: number): Promise<IUserSession[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT ${SESSION_COLUMNS} FROM user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+            [userId]
+        );
+        return rows as IUserSession[];
+    }
+
+    /**
+     * Swap the current refresh token for the next one. Only succeeds when `currentHash`
+     * is the session's latest token, so each refresh token can be used once.
+     */
+    static async rotate(
+        id: string,
+        currentHash: string,
+        nextHash: string,
+        expiresAt: Date,
+        client?: ClientInfo
+    ): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE user_sessions
+       SET token_hash = ?, expires_at = ?, last_used_at = NOW(), ip_address = COALESCE(?, ip_address)
+       WHERE id = ? AND token_hash = ? AND revoked_at IS NULL AND expires_at > NOW()`,
+            [nextHash, expiresAt, client?.ip_address ?? null, id, currentHash]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Revoke one session (optionally only if it belongs to a user)
+     */
+    static async revoke(id: string, reason: string, userId?: number): Promise<boolean> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = ?
+       WHERE id = ? AND revoked_at IS NULL${userId !== undefined ? ' AND user_id = ?' : ''}`,
+            userId !== undefined ? [reason, id, userId] : [reason, id]
+        );
+        return result.affectedRows > 0;
+    }
+
+    /**
+     * Revoke every active session of a user, optionally keeping one
+     * @returns IDs of the sessions revoked
+     */
+    static async revokeAllForUser(userId: number, reason: string, exceptId?: string): Promise<string[]> {
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT id FROM user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()${exceptId ? ' AND id <> ?' : ''}`,
+            exceptId ? [userId, exceptId] : [userId]
+        );
+        return this.revokeMany(rows.map(row => row.id), reason);
+    }
+
+    /**
+     * Revoke the sessions of users in these roles who have not enabled MFA
+     * @returns IDs of the sessions revoked
+     */
+    static async revokeForRolesWithoutMfa(roles: UserRole[], reason: string): Promise<string[]> {
+        if (roles.length === 0) return [];
+
+        const placeholders = roles.map(() => '?').join(', ');
+        const [rows] = await mysqlPool.execute<RowDataPacket[]>(
+            `SELECT s.id FROM user_sessions s
+       JOIN users u ON u.id = s.user_id
+       LEFT JOIN user_mfa m ON m.user_id = s.user_id AND m.enabled_at IS NOT NULL
+       WHERE u.role IN (${placeholders}) AND m.user_id IS NULL AND s.revoked_at IS NULL AND s.expires_at > NOW()`,
+            roles
+        );
+        return this.revokeMany(rows.map(row => row.id), reason);
+    }
+
+    /**
+     * Delete expired sessions. Revoked ones are kept until they expire so replayed tokens are still recognised.
+     */
+    static async deleteExpired(): Promise<number> {
+        const [result] = await mysqlPool.execute<ResultSetHeader>(
+            'DELETE FROM user_sessions WHERE expires_at < NOW()'
+        );
+        return result.affectedRows;
+    }
+
+    private static async revokeMany(ids: string[], reason: string): Promise<string[]> {
+        if (ids.length === 0) return [];
+
+        const placeholders = ids.map(() => '?').join(', ');
+        await mysqlPool.execute<ResultSetHeader>(
+            `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = ?
+       WHERE id IN (${placeholders}) AND revoked_at IS NULL`,
+            [reason, ...ids]
+        );
+        return ids;
+    }
+}
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { AgentController } from '../controllers/agentController';
+import { authenticate } from '../middlewares/auth';
+import { isAdminOrManager } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/agents/availability
+ * @desc    Availability, open leads and shift status of all active agents
+ * @access  Private (Admin/Manager)
+ */
+router.get(
+  '/availability',
+  isAdminOrManager,
+  asyncHandler(AgentController.listAvailability)
+);
+
+/**
+ * @route   GET /api/agents/:id/availability
+ * @desc    Get an agent's availability
+ * @access  Private (own record, or Admin/Manager)
+ */
+router.get(
+  '/:id/availability',
+  asyncHandler(AgentController.getAvailability)
+);
+
+/**
+ * @route   PUT /api/agents/:id/availability
+ * @desc    Update status, working hours or capacity (capacity: Admin/Manager only)
+ * @access  Private (own record, or Admin/Manager)
+ */
+router.put(
+  '/:id/availability',
+  validate(schemas.updateAgentAvailability),
+  asyncHandler(AgentController.updateAvailability)
+);
+
+export default router;
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { authenticate } from '../middlewares/auth';
+import { isAdmin } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication (Admin only)
+router.use(authenticate);
+router.use(isAdmin);
+
+/**
+ * @route   GET /api/api-keys
+ * @desc    List API keys (revoked included)
+ * @access  Private (Admin)
+ */
+router.get(
+  '/',
+  asyncHandler(ApiKeyController.list)
+);
+
+/**
+ * @route   GET /api/api-keys/:id
+ * @desc    Get API key
+ * @access  Private (Admin)
+ */
+router.get(
+  '/:id',
+  asyncHandler(ApiKeyController.getById)
+);
+
+/**
+ * @route   POST /api/api-keys
+ * @desc    Create a scoped API key for an integration
+ * @access  Private (Admin)
+ */
+router.post(
+  '/',
+  validate(schemas.createApiKey),
+  asyncHandler(ApiKeyController.create)
+);
+
+/**
+ * @route   POST /api/api-keys/:id/rotate
+ * @desc    Issue a new secret; the old one works for grace_minutes
+ * @access  Private (Admin)
+ */
+router.post(
+  '/:id/rotate',
+  validate(schemas.rotateApiKey),
+  asyncHandler(ApiKeyController.rotate)
+);
+
+/**
+ * @route   DELETE /api/api-keys/:id
+ * @desc    Revoke API key
+ * @access  Private (Admin)
+ */
+router.delete(
+  '/:id',
+  asyncHandler(ApiKeyController.revoke)
+);
+
+export default router;
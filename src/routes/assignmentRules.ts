@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { AssignmentRuleController } from '../controllers/assignmentRuleController';
+import { authenticate } from '../middlewares/auth';
+import { isAdminOrManager } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication (Admin/Manager only)
+router.use(authenticate);
+router.use(isAdminOrManager);
+
+/**
+ * @route   GET /api/assignment-rules
+ * @desc    List assignment rules in evaluation order
+ * @access  Private (Admin/Manager)
+ */
+router.get(
+  '/',
+  asyncHandler(AssignmentRuleController.list)
+);
+
+/**
+ * @route   GET /api/assignment-rules/decisions
+ * @desc    Logged assignment decisions (filter by lead_id or agent_id)
+ * @access  Private (Admin/Manager)
+ */
+router.get(
+  '/decisions',
+  asyncHandler(AssignmentRuleController.getDecisions)
+);
+
+/**
+ * @route   POST /api/assignment-rules
+ * @desc    Create assignment rule
+ * @access  Private (Admin/Manager)
+ */
+router.post(
+  '/',
+  validate(schemas.createAssignmentRule),
+  asyncHandler(AssignmentRuleController.create)
+);
+
+/**
+ * @route   PUT /api/assignment-rules/:id
+ * @desc    Update assignment rule
+ * @access  Private (Admin/Manager)
+ */
+router.put(
+  '/:id',
+  validate(schemas.updateAssignmentRule),
+  asyncHandler(AssignmentRuleController.update)
+);
+
+/**
+ * @route   DELETE /api/assignment-rules/:id
+ * @desc    Delete assignment rule
+ * @access  Private (Admin/Manager)
+ */
+router.delete(
+  '/:id',
+  asyncHandler(AssignmentRuleController.delete)
+);
+
+export default router;
@@ -2,21 +2,34 @@ import { Router } from 'express';
 import { AuthController } from '../controllers/authController';
 import { validate, schemas } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
-import { authenticate } from '../middlewares/auth';
+import { authenticate, optionalAuth } from '../middlewares/auth';
+import { isAdmin } from '../middlewares/rbac';
 import { strictRateLimitMiddleware } from '../middlewares/rateLimiter';
 
 const router = Router();
 
 /**
- * @route   POST /api/auth/register
- * @desc    Register new user
+ * @route   POST /api/auth/accept-invite
+ * @desc    Create an account from an invite token and set its password
  * @access  Public
  */
 router.post(
-  '/register',
+  '/accept-invite',
   strictRateLimitMiddleware,
-  validate(schemas.register),
-  asyncHandler(AuthController.register)
+  validate(schemas.acceptInvite),
+  asyncHandler(AuthController.acceptInvite)
+);
+
+/**
+ * @route   POST /api/auth/bootstrap
+ * @desc    Create the first admin (AUTH_BOOTSTRAP_ENABLED=true and no users yet)
+ * @access  Public
+ */
+router.post(
+  '/bootstrap',
+  strictRateLimitMiddleware,
+  validate(schemas.bootstrap),
+  asyncHandler(AuthController.bootstrap)
 );
 
 /**
@@ -33,7 +46,7 @@ router.post(
 
 /**
  * @route   POST /api/auth/refresh
- * @desc    Refresh access token
+ * @desc    Rotate refresh token and issue a new access token
  * @access  Public
  */
 router.post(
@@ -53,6 +66,64 @@ router.post(
   asyncHandler(AuthController.logout)
 );
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the current user's active sessions (devices)
+ * @access  Private
+ */
+router.get(
+  '/sessions',
+  authenticate,
+  asyncHandler(AuthController.listSessions)
+);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Sign a device out
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:id',
+  authenticate,
+  asyncHandler(AuthController.revokeSession)
+);
+
+/**
+ * @route   POST /api/auth/password/change
+ * @desc    Change password (signs out other sessions)
+ * @access  Private
+ */
+router.post(
+  '/password/change',
+  authenticate,
+  validate(schemas.changePassword),
+  asyncHandler(AuthController.changePassword)
+);
+
+/**
+ * @route   POST /api/auth/password/forgot
+ * @desc    Send a password reset code by SMS or email
+ * @access  Public
+ */
+router.post(
+  '/password/forgot',
+  strictRateLimitMiddleware,
+  validate(schemas.forgotPassword),
+  asyncHandler(AuthController.forgotPassword)
+);
+
+/**
+ * @route   POST /api/auth/password/reset
+ * @desc    Set a new password with a reset code
+ * @access  Public
+ */
+router.post(
+  '/password/reset',
+  strictRateLimitMiddleware,
+  validate(schemas.resetPassword),
+  asyncHandler(AuthController.resetPassword)
+);
+
 /**
  * @route   GET /api/auth/me
  * @desc    Get current user profile
@@ -64,4 +135,102 @@ router.get(
   asyncHandler(AuthController.getCurrentUser)
 );
 
+/**
+ * @route   POST /api/auth/mfa/verify
+ * @desc    Second login step: challenge token + TOTP or recovery code
+ * @access  Public
+ */
+router.post(
+  '/mfa/verify',
+  strictRateLimitMiddleware,
+  validate(schemas.verifyMfa),
+  asyncHandler(AuthController.verifyMfa)
+);
+
+/**
+ * @route   GET /api/auth/mfa
+ * @desc    MFA status of the current user
+ * @access  Private
+ */
+router.get(
+  '/mfa',
+  authenticate,
+  asyncHandler(AuthController.getMfaStatus)
+);
+
+/**
+ * @route   POST /api/auth/mfa/setup
+ * @desc    Start MFA enrollment (access token, or a setup challenge token in the body)
+ * @access  Private
+ */
+router.post(
+  '/mfa/setup',
+  strictRateLimitMiddleware,
+  optionalAuth,
+  validate(schemas.setupMfa),
+  asyncHandler(AuthController.setupMfa)
+);
+
+/**
+ * @route   POST /api/auth/mfa/enable
+ * @desc    Confirm a code to enable MFA and get recovery codes
+ * @access  Private
+ */
+router.post(
+  '/mfa/enable',
+  strictRateLimitMiddleware,
+  optionalAuth,
+  validate(schemas.enableMfa),
+  asyncHandler(AuthController.enableMfa)
+);
+
+/**
+ * @route   POST /api/auth/mfa/disable
+ * @desc    Disable MFA (not allowed when required for the role)
+ * @access  Private
+ */
+router.post(
+  '/mfa/disable',
+  authenticate,
+  validate(schemas.mfaCode),
+  asyncHandler(AuthController.disableMfa)
+);
+
+/**
+ * @route   POST /api/auth/mfa/recovery-codes
+ * @desc    Replace recovery codes
+ * @access  Private
+ */
+router.post(
+  '/mfa/recovery-codes',
+  authenticate,
+  validate(schemas.mfaCode),
+  asyncHandler(AuthController.regenerateRecoveryCodes)
+);
+
+/**
+ * @route   GET /api/auth/mfa/policy
+ * @desc    Roles that must use MFA
+ * @access  Private (Admin)
+ */
+router.get(
+  '/mfa/policy',
+  authenticate,
+  isAdmin,
+  asyncHandler(AuthController.getMfaPolicy)
+);
+
+/**
+ * @route   PUT /api/auth/mfa/policy
+ * @desc    Require MFA per role
+ * @access  Private (Admin)
+ */
+router.put(
+  '/mfa/policy',
+  authenticate,
+  isAdmin,
+  validate(schemas.updateMfaPolicy),
+  asyncHandler(AuthController.updateMfaPolicy)
+);
+
 export default router;
\ No newline at end of file
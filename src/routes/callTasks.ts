@@ -1,12 +1,18 @@
 import { Router } from 'express';
 import { CallTaskController } from '../controllers/callTaskController';
-import { authenticate } from '../middlewares/auth';
+import { acceptApiKey, authenticate } from '../middlewares/auth';
 import { isAdminOrManager } from '../middlewares/rbac';
-import { validate, schemas } from '../middlewares/validation';
+import { validate, validateQuery, schemas } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
 
 const router = Router();
 
+// Routes integrations may call with an API key
+router.get('/pending', acceptApiKey('tasks:read'));
+router.get('/overdue', acceptApiKey('tasks:read'));
+router.get('/:id(\\d+)', acceptApiKey('tasks:read'));
+router.post('/:id(\\d+)/complete', acceptApiKey('tasks:write'));
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -17,6 +23,7 @@ router.use(authenticate);
  */
 router.get(
   '/my-tasks',
+  validateQuery(schemas.myTasksQuery),
   asyncHandler(CallTaskController.getMyTasks)
 );
 
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { CsvController } from '../controllers/csvController';
 import { authenticate } from '../middlewares/auth';
 import { isAdminOrManager } from '../middlewares/rbac';
+import { validateQuery, schemas } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
 import multer from 'multer';
 
@@ -41,6 +42,7 @@ router.get(
 
 router.get(
   '/history',
+  validateQuery(schemas.csvHistoryQuery),
   asyncHandler(CsvController.getHistory)
 );
 
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { CustomFieldController } from '../controllers/customFieldController';
+import { authenticate } from '../middlewares/auth';
+import { isAdmin } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/custom-fields
+ * @desc    List custom field definitions
+ * @access  Private
+ */
+router.get(
+  '/',
+  asyncHandler(CustomFieldController.list)
+);
+
+/**
+ * @route   POST /api/custom-fields
+ * @desc    Create custom field definition
+ * @access  Private (Admin)
+ */
+router.post(
+  '/',
+  isAdmin,
+  validate(schemas.createCustomField),
+  asyncHandler(CustomFieldController.create)
+);
+
+/**
+ * @route   PUT /api/custom-fields/:id
+ * @desc    Update custom field definition
+ * @access  Private (Admin)
+ */
+router.put(
+  '/:id',
+  isAdmin,
+  validate(schemas.updateCustomField),
+  asyncHandler(CustomFieldController.update)
+);
+
+/**
+ * @route   DELETE /api/custom-fields/:id
+ * @desc    Delete custom field definition and remove its values from leads
+ * @access  Private (Admin)
+ */
+router.delete(
+  '/:id',
+  isAdmin,
+  asyncHandler(CustomFieldController.delete)
+);
+
+export default router;
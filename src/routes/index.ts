@@ -4,6 +4,14 @@ import leadRoutes from './leads';
 import callTaskRoutes from './callTasks';
 import csvRoutes from './csv';
 import reportRoutes from './reports';
+import pipelineRoutes from './pipeline';
+import customFieldRoutes from './customFields';
+import assignmentRuleRoutes from './assignmentRules';
+import agentRoutes from './agents';
+import leadScoringRoutes from './leadScoring';
+import teamRoutes from './teams';
+import userRoutes from './users';
+import apiKeyRoutes from './apiKeys';
 
 const router = Router();
 
@@ -13,5 +21,13 @@ router.use('/leads', leadRoutes);
 router.use('/call-tasks', callTaskRoutes);
 router.use('/csv', csvRoutes);
 router.use('/reports', reportRoutes);
+router.use('/pipeline', pipelineRoutes);
+router.use('/custom-fields', customFieldRoutes);
+router.use('/assignment-rules', assignmentRuleRoutes);
+router.use('/agents', agentRoutes);
+router.use('/lead-scoring', leadScoringRoutes);
+router.use('/teams', teamRoutes);
+router.use('/users', userRoutes);
+router.use('/api-keys', apiKeyRoutes);
 
 export default router;
\ No newline at end of file
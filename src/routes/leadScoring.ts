@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { LeadScoringController } from '../controllers/leadScoringController';
+import { authenticate } from '../middlewares/auth';
+import { isAdmin, isAdminOrManager } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/lead-scoring/config
+ * @desc    Get scoring weights and signal values
+ * @access  Private (Admin/Manager)
+ */
+router.get(
+  '/config',
+  isAdminOrManager,
+  asyncHandler(LeadScoringController.getConfig)
+);
+
+/**
+ * @route   PUT /api/lead-scoring/config
+ * @desc    Update scoring weights and signal values
+ * @access  Private (Admin)
+ */
+router.put(
+  '/config',
+  isAdmin,
+  validate(schemas.updateLeadScoringConfig),
+  asyncHandler(LeadScoringController.updateConfig)
+);
+
+/**
+ * @route   POST /api/lead-scoring/recompute
+ * @desc    Rescore all leads
+ * @access  Private (Admin)
+ */
+router.post(
+  '/recompute',
+  isAdmin,
+  asyncHandler(LeadScoringController.recompute)
+);
+
+export default router;
@@ -1,12 +1,20 @@
 import { Router } from 'express';
 import { LeadController } from '../controllers/leadController';
-import { authenticate } from '../middlewares/auth';
-import { isAdminOrManager } from '../middlewares/rbac';
-import { validate, schemas } from '../middlewares/validation';
+import { SegmentController } from '../controllers/segmentController';
+import { LeadScoringController } from '../controllers/leadScoringController';
+import { acceptApiKey, authenticate } from '../middlewares/auth';
+import { isAdmin, isAdminOrManager } from '../middlewares/rbac';
+import { validate, validateQuery, schemas } from '../middlewares/validation';
 import { asyncHandler } from '../middlewares/errorHandler';
 
 const router = Router();
 
+// Routes integrations may call with an API key (IDs are numeric so /stats etc. don't match)
+router.get('/', acceptApiKey('leads:read'));
+router.post('/', acceptApiKey('leads:write'));
+router.get('/:id(\\d+)', acceptApiKey('leads:read'));
+router.put('/:id(\\d+)', acceptApiKey('leads:write'));
+
 // All routes require authentication
 router.use(authenticate);
 
@@ -18,12 +26,63 @@ router.get(
 );
 
 
+router.get(
+    '/pipeline',
+    asyncHandler(LeadController.getPipeline)
+);
+
+
+router.get(
+    '/duplicates',
+    isAdminOrManager,
+    validateQuery(schemas.duplicateLeadsQuery),
+    asyncHandler(LeadController.findDuplicates)
+);
+
+
 router.get(
     '/search',
+    validateQuery(schemas.searchLeadsQuery),
     asyncHandler(LeadController.search)
 );
 
 
+router.get(
+    '/segments',
+    asyncHandler(SegmentController.list)
+);
+
+
+router.post(
+    '/segments',
+    isAdminOrManager,
+    validate(schemas.createLeadSegment),
+    asyncHandler(SegmentController.create)
+);
+
+
+router.get(
+    '/segments/:id/leads',
+    validateQuery(schemas.segmentLeadsQuery),
+    asyncHandler(SegmentController.getLeads)
+);
+
+
+router.put(
+    '/segments/:id',
+    isAdminOrManager,
+    validate(schemas.updateLeadSegment),
+    asyncHandler(SegmentController.update)
+);
+
+
+router.delete(
+    '/segments/:id',
+    isAdminOrManager,
+    asyncHandler(SegmentController.delete)
+);
+
+
 router.post(
     '/image-upload-url',
     validate(schemas.imageUploadUrl),
@@ -31,8 +90,45 @@ router.post(
 );
 
 
+router.post(
+    '/purge',
+    isAdmin,
+    validate(schemas.purgeLeads),
+    asyncHandler(LeadController.purge)
+);
+
+
+router.post(
+    '/auto-assign',
+    isAdminOrManager,
+    validate(schemas.autoAssignLeads),
+    asyncHandler(LeadController.autoAssign)
+);
+
+router.post(
+    '/export',
+    isAdminOrManager,
+    validate(schemas.exportLeads),
+    asyncHandler(LeadController.export)
+);
+
+router.get(
+    '/exports/:id',
+    isAdminOrManager,
+    asyncHandler(LeadController.getExportJob)
+);
+
+router.post(
+    '/bulk',
+    isAdminOrManager,
+    validate(schemas.bulkLeads),
+    asyncHandler(LeadController.bulk)
+);
+
+
 router.get(
     '/',
+    validateQuery(schemas.listLeadsQuery),
     asyncHandler(LeadController.getAll)
 );
 
@@ -49,6 +145,23 @@ router.get(
     asyncHandler(LeadController.getById)
 );
 
+router.get(
+    '/:id/timeline',
+    validateQuery(schemas.leadTimelineQuery),
+    asyncHandler(LeadController.getTimeline)
+);
+
+router.get(
+    '/:id/score',
+    asyncHandler(LeadScoringController.getLeadScore)
+);
+
+router.get(
+    '/:id/history',
+    validateQuery(schemas.leadHistoryQuery),
+    asyncHandler(LeadController.getHistory)
+);
+
 router.put(
     '/:id',
     validate(schemas.updateLead),
@@ -63,6 +176,35 @@ router.delete(
 );
 
 
+router.post(
+    '/:id/merge',
+    isAdminOrManager,
+    validate(schemas.mergeLead),
+    asyncHandler(LeadController.merge)
+);
+
+
+router.post(
+    '/:id/restore',
+    isAdminOrManager,
+    asyncHandler(LeadController.restore)
+);
+
+
+router.post(
+    '/:id/tags',
+    validate(schemas.leadTags),
+    asyncHandler(LeadController.addTags)
+);
+
+
+router.delete(
+    '/:id/tags',
+    validate(schemas.leadTags),
+    asyncHandler(LeadController.removeTags)
+);
+
+
 router.post(
     '/:id/assign',
     isAdminOrManager,
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { PipelineController } from '../controllers/pipelineController';
+import { authenticate } from '../middlewares/auth';
+import { isAdmin } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/pipeline
+ * @desc    Get pipeline stages and allowed transitions
+ * @access  Private
+ */
+router.get(
+  '/',
+  asyncHandler(PipelineController.get)
+);
+
+/**
+ * @route   POST /api/pipeline/stages
+ * @desc    Create pipeline stage
+ * @access  Private (Admin)
+ */
+router.post(
+  '/stages',
+  isAdmin,
+  validate(schemas.createPipelineStage),
+  asyncHandler(PipelineController.createStage)
+);
+
+/**
+ * @route   PUT /api/pipeline/stages/:id
+ * @desc    Update pipeline stage
+ * @access  Private (Admin)
+ */
+router.put(
+  '/stages/:id',
+  isAdmin,
+  validate(schemas.updatePipelineStage),
+  asyncHandler(PipelineController.updateStage)
+);
+
+/**
+ * @route   DELETE /api/pipeline/stages/:id
+ * @desc    Delete pipeline stage (must be empty)
+ * @access  Private (Admin)
+ */
+router.delete(
+  '/stages/:id',
+  isAdmin,
+  asyncHandler(PipelineController.deleteStage)
+);
+
+/**
+ * @route   PUT /api/pipeline/transitions
+ * @desc    Replace allowed stage transitions
+ * @access  Private (Admin)
+ */
+router.put(
+  '/transitions',
+  isAdmin,
+  validate(schemas.setPipelineTransitions),
+  asyncHandler(PipelineController.setTransitions)
+);
+
+export default router;
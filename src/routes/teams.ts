@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { TeamController } from '../controllers/teamController';
+import { authenticate } from '../middlewares/auth';
+import { isAdmin, isAdminOrManager } from '../middlewares/rbac';
+import { validate, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication (Admin/Manager only)
+router.use(authenticate);
+router.use(isAdminOrManager);
+
+/**
+ * @route   GET /api/teams
+ * @desc    List teams with their members (managers see their own)
+ * @access  Private (Admin/Manager)
+ */
+router.get(
+  '/',
+  asyncHandler(TeamController.list)
+);
+
+/**
+ * @route   GET /api/teams/:id
+ * @desc    Get team
+ * @access  Private (Admin, or the team's manager)
+ */
+router.get(
+  '/:id',
+  asyncHandler(TeamController.getById)
+);
+
+/**
+ * @route   POST /api/teams
+ * @desc    Create team
+ * @access  Private (Admin)
+ */
+router.post(
+  '/',
+  isAdmin,
+  validate(schemas.createTeam),
+  asyncHandler(TeamController.create)
+);
+
+/**
+ * @route   PUT /api/teams/:id
+ * @desc    Update team name, manager or members (member_ids replaces the list)
+ * @access  Private (Admin)
+ */
+router.put(
+  '/:id',
+  isAdmin,
+  validate(schemas.updateTeam),
+  asyncHandler(TeamController.update)
+);
+
+/**
+ * @route   DELETE /api/teams/:id
+ * @desc    Delete team
+ * @access  Private (Admin)
+ */
+router.delete(
+  '/:id',
+  isAdmin,
+  asyncHandler(TeamController.delete)
+);
+
+export default router;
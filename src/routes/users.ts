@@ -0,0 +1,166 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/userController';
+import { authenticate } from '../middlewares/auth';
+import { isAdmin, isAdminOrManager } from '../middlewares/rbac';
+import { validate, validateQuery, schemas } from '../middlewares/validation';
+import { asyncHandler } from '../middlewares/errorHandler';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   POST /api/users/invites
+ * @desc    Invite someone with a preset role (managers: agents only)
+ * @access  Private (Admin, Manager)
+ */
+router.post(
+  '/invites',
+  isAdminOrManager,
+  validate(schemas.createInvite),
+  asyncHandler(UserController.createInvite)
+);
+
+/**
+ * @route   GET /api/users/invites
+ * @desc    List invites (managers: the ones they sent)
+ * @access  Private (Admin, Manager)
+ */
+router.get(
+  '/invites',
+  isAdminOrManager,
+  asyncHandler(UserController.listInvites)
+);
+
+/**
+ * @route   DELETE /api/users/invites/:id
+ * @desc    Revoke a pending invite
+ * @access  Private (Admin, Manager)
+ */
+router.delete(
+  '/invites/:id',
+  isAdminOrManager,
+  asyncHandler(UserController.revokeInvite)
+);
+
+// Everything below is Admin only
+router.use(isAdmin);
+
+/**
+ * @route   GET /api/users
+ * @desc    List users (filter by role, is_active, search)
+ * @access  Private (Admin)
+ */
+router.get(
+  '/',
+  validateQuery(schemas.listUsersQuery),
+  asyncHandler(UserController.list)
+);
+
+/**
+ * @route   GET /api/users/security-events
+ * @desc    Login security events (filter by event_type, email, user_id, ip_address, from, to)
+ * @access  Private (Admin)
+ */
+router.get(
+  '/security-events',
+  validateQuery(schemas.listSecurityEventsQuery),
+  asyncHandler(UserController.listSecurityEvents)
+);
+
+/**
+ * @route   GET /api/users/security-events/suspicious-ips
+ * @desc    IPs with the most failed logins across accounts in the last hours
+ * @access  Private (Admin)
+ */
+router.get(
+  '/security-events/suspicious-ips',
+  validateQuery(schemas.suspiciousIpsQuery),
+  asyncHandler(UserController.suspiciousIps)
+);
+
+/**
+ * @route   GET /api/users/:id
+ * @desc    Get user
+ * @access  Private (Admin)
+ */
+router.get(
+  '/:id',
+  asyncHandler(UserController.getById)
+);
+
+/**
+ * @route   PUT /api/users/:id
+ * @desc    Edit email or phone
+ * @access  Private (Admin)
+ */
+router.put(
+  '/:id',
+  validate(schemas.updateUser),
+  asyncHandler(UserController.update)
+);
+
+/**
+ * @route   PUT /api/users/:id/role
+ * @desc    Change role (revokes the user's sessions)
+ * @access  Private (Admin)
+ */
+router.put(
+  '/:id/role',
+  validate(schemas.changeUserRole),
+  asyncHandler(UserController.changeRole)
+);
+
+/**
+ * @route   POST /api/users/:id/deactivate
+ * @desc    Deactivate user, revoke sessions and optionally reassign open work
+ * @access  Private (Admin)
+ */
+router.post(
+  '/:id/deactivate',
+  validate(schemas.deactivateUser),
+  asyncHandler(UserController.deactivate)
+);
+
+/**
+ * @route   POST /api/users/:id/reactivate
+ * @desc    Reactivate user
+ * @access  Private (Admin)
+ */
+router.post(
+  '/:id/reactivate',
+  asyncHandler(UserController.reactivate)
+);
+
+/**
+ * @route   POST /api/users/:id/logout
+ * @desc    Revoke all of a user's sessions
+ * @access  Private (Admin)
+ */
+router.post(
+  '/:id/logout',
+  asyncHandler(UserController.logout)
+);
+
+/**
+ * @route   POST /api/users/:id/unlock
+ * @desc    Clear a user's login lockout after failed attempts
+ * @access  Private (Admin)
+ */
+router.post(
+  '/:id/unlock',
+  asyncHandler(UserController.unlock)
+);
+
+/**
+ * @route   POST /api/users/:id/mfa/reset
+ * @desc    Remove a user's MFA (lost device) and revoke their sessions
+ * @access  Private (Admin)
+ */
+router.post(
+  '/:id/mfa/reset',
+  asyncHandler(UserController.resetMfa)
+);
+
+export default router;
@@ -5,6 +5,7 @@ import { MigrationService } from './services/migrationService';
 import { redis } from './config/redis';
 import logger from './utils/logger';
 import { AuthService } from './services/authService';
+import { LeadScoringService } from './services/leadScoringService';
 
 // Load environment variables
 dotenv.config();
@@ -74,6 +75,15 @@ async function startServer() {
       }
     }, 60 * 60 * 1000);
 
+    // Step 7: Rescore leads daily so recency keeps decaying without activity
+    setInterval(async () => {
+      try {
+        await LeadScoringService.recomputeAll();
+      } catch (error) {
+        logger.warn('Lead rescoring warning:', error);
+      }
+    }, 24 * 60 * 60 * 1000);
+
   } catch (error: any) {
     logger.error('❌ Critical startup error:', error);
     logger.error('Stack:', error.stack);
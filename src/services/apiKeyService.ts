@@ -0,0 +1,113 @@
+import { ApiKeyModel } from '../models/mysql/ApiKey';
+import { UserModel } from '../models/mysql/User';
+import { ApiKeyScope, IApiKey, UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, ValidationError } from '../utils/errors';
+import { generateToken, hashToken } from '../utils/tokens';
+import logger from '../utils/logger';
+
+type ApiKeyInput = {
+  name: string;
+  scopes: ApiKeyScope[];
+  user_id?: number;
+  expires_at?: Date;
+};
+
+export class ApiKeyService {
+  private static KEY_PREFIX = 'uk_';
+  // Shown in listings so admins can tell keys apart: "uk_" plus 8 characters
+  private static DISPLAY_PREFIX_LENGTH = 11;
+
+  /**
+   * Create a key for an integration. Its requests act as `user_id` (the admin by default),
+   * limited to the key's scopes. The raw key is only returned here; the database keeps its hash.
+   */
+  static async createKey(data: ApiKeyInput, actorId: number): Promise<{ api_key: IApiKey; key: string }> {
+    const userId = data.user_id ?? actorId;
+    if (!(await UserModel.findById(userId))) {
+      throw new ValidationError('User not found or inactive');
+    }
+
+    const key = this.generateKey();
+    const id = await ApiKeyModel.create({
+      name: data.name,
+      key_prefix: key.slice(0, this.DISPLAY_PREFIX_LENGTH),
+      key_hash: hashToken(key),
+      scopes: data.scopes,
+      user_id: userId,
+      created_by: actorId,
+      expires_at: data.expires_at
+    });
+
+    logger.info(`API key ${id} (${data.name}) created by user ${actorId} with scopes ${data.scopes.join(', ')}`);
+    return { api_key: await this.getKey(id), key };
+  }
+
+  static async listKeys(): Promise<IApiKey[]> {
+    return ApiKeyModel.findAll();
+  }
+
+  static async getKey(id: number): Promise<IApiKey> {
+    const apiKey = await ApiKeyModel.findById(id);
+    if (!apiKey) {
+      throw new NotFoundError('API key not found');
+    }
+    return apiKey;
+  }
+
+  /**
+   * Issue a new secret for a key. The old one keeps working for `graceMinutes` so the
+   * integration can switch over without downtime.
+   */
+  static async rotateKey(
+    id: number,
+    graceMinutes: number,
+    actorId: number
+  ): Promise<{ api_key: IApiKey; key: string }> {
+    const key = this.generateKey();
+    const previousExpiresAt = graceMinutes > 0 ? new Date(Date.now() + graceMinutes * 60 * 1000) : null;
+
+    if (!(await ApiKeyModel.rotate(id, key.slice(0, this.DISPLAY_PREFIX_LENGTH), hashToken(key), previousExpiresAt))) {
+      await this.getKey(id);
+      throw new ConflictError('Revoked API keys cannot be rotated');
+    }
+
+    logger.info(`API key ${id} rotated by user ${actorId} (old key valid for ${graceMinutes} minutes)`);
+    return { api_key: await this.getKey(id), key };
+  }
+
+  static async revokeKey(id: number, actorId: number): Promise<void> {
+    if (!(await ApiKeyModel.revoke(id))) {
+      await this.getKey(id);
+      throw new ConflictError('API key is already revoked');
+    }
+    logger.info(`API key ${id} revoked by user ${actorId}`);
+  }
+
+  /**
+   * Resolve a raw key sent by an integration and check it grants `scope`
+   */
+  static async authenticate(
+    key: string,
+    scope: ApiKeyScope,
+    ipAddress?: string
+  ): Promise<{ apiKey: IApiKey; user: { id: number; email: string; role: UserRole } }> {
+    const found = key.startsWith(this.KEY_PREFIX) ? await ApiKeyModel.findUsableByHash(hashToken(key)) : null;
+    if (!found) {
+      throw new UnauthorizedError('Invalid or expired API key');
+    }
+    if (!found.key.scopes.includes(scope)) {
+      throw new ForbiddenError(`API key is missing the ${scope} scope`);
+    }
+
+    // Last-used tracking must not slow down or fail the request
+    ApiKeyModel.touch(found.key.id, ipAddress).catch(error =>
+      logger.warn(`Failed to record use of API key ${found.key.id}: ${error.message}`)
+    );
+
+    return { apiKey: found.key, user: found.user };
+  }
+
+  private static generateKey(): string {
+    return `${this.KEY_PREFIX}${generateToken()}`;
+  }
+}
@@ -0,0 +1,279 @@
+import { AssignmentRuleModel } from '../models/mysql/AssignmentRule';
+import { CallTaskModel } from '../models/mysql/CallTask';
+import { UserModel } from '../models/mysql/User';
+import { AssignmentLog } from '../models/mongodb/AssignmentLog';
+import { AvailabilityService } from './availabilityService';
+import {
+  AssignmentDecision,
+  AssignmentStrategy,
+  AssignmentTrigger,
+  AuditContext,
+  IAssignmentRule,
+  ILead
+} from '../types';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+import { normalizePhone } from '../utils/textMatching';
+
+type AssignmentRuleInput = {
+  name: string;
+  priority?: number;
+  strategy: AssignmentStrategy;
+  match_source?: string | null;
+  match_phone_prefix?: string | null;
+  agent_ids?: number[] | null;
+  is_active?: boolean;
+};
+
+export class AssignmentService {
+  private static CACHE_KEY = 'assignment:rules';
+  private static CACHE_TTL = 300; // 5 minutes
+  private static MAX_CLAIM_ATTEMPTS = 5;
+
+  /**
+   * Get all rules in evaluation order
+   */
+  static async getRules(): Promise<IAssignmentRule[]> {
+    const cached = await cacheService.get(this.CACHE_KEY);
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? (JSON.parse(cached) as IAssignmentRule[]) : cached;
+      } catch (err) {
+        logger.warn(`Failed to parse cached assignment rules: ${(err as Error).message}`);
+      }
+    }
+
+    const rules = await AssignmentRuleModel.findAll();
+    await cacheService.set(this.CACHE_KEY, JSON.stringify(rules), this.CACHE_TTL);
+    return rules;
+  }
+
+  /**
+   * Create an assignment rule
+   */
+  static async createRule(data: AssignmentRuleInput): Promise<IAssignmentRule> {
+    const rules = await this.getRules();
+    if (rules.some(rule => rule.name === data.name)) {
+      throw new ConflictError(`Assignment rule '${data.name}' already exists`);
+    }
+
+    await this.assertAgents(data.agent_ids);
+
+    const id = await AssignmentRuleModel.create(data);
+    const rule = await AssignmentRuleModel.findById(id);
+    if (!rule) {
+      throw new Error('Failed to create assignment rule');
+    }
+
+    await cacheService.del(this.CACHE_KEY);
+
+    logger.info(`Assignment rule created: ${rule.name}`);
+    return rule;
+  }
+
+  /**
+   * Update an assignment rule
+   */
+  static async updateRule(id: number, data: Partial<AssignmentRuleInput>): Promise<IAssignmentRule> {
+    const existing = await AssignmentRuleModel.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Assignment rule not found');
+    }
+
+    if (data.name && data.name !== existing.name) {
+      const rules = await this.getRules();
+      if (rules.some(rule => rule.name === data.name)) {
+        throw new ConflictError(`Assignment rule '${data.name}' already exists`);
+      }
+    }
+
+    await this.assertAgents(data.agent_ids);
+
+    await AssignmentRuleModel.update(id, data);
+    await cacheService.del(this.CACHE_KEY);
+
+    const rule = await AssignmentRuleModel.findById(id);
+    if (!rule) {
+      throw new Error('Failed to retrieve updated assignment rule');
+    }
+    return rule;
+  }
+
+  /**
+   * Delete an assignment rule
+   */
+  static async deleteRule(id: number): Promise<void> {
+    const deleted = await AssignmentRuleModel.delete(id);
+    if (!deleted) {
+      throw new NotFoundError('Assignment rule not found');
+    }
+
+    await cacheService.del(this.CACHE_KEY);
+    logger.info(`Assignment rule deleted: ${id}`);
+  }
+
+  /**
+   * Pick an agent for a lead using the first matching active rule, and log the decision.
+   * Returns a decision with `agent_id` null when nothing matched.
+   */
+  static async decide(
+    lead: ILead,
+    trigger: AssignmentTrigger,
+    context: AuditContext = {}
+  ): Promise<AssignmentDecision> {
+    const rules = (await this.getRules()).filter(rule => rule.is_active);
+    const rule = rules.find(candidate => this.matches(candidate, lead));
+
+    let decision: AssignmentDecision = {
+      agent_id: null,
+      rule_id: null,
+      rule_name: null,
+      strategy: null,
+      reason: rules.length === 0 ? 'No active assignment rules' : 'No assignment rule matched',
+      candidates: []
+    };
+
+    if (rule) {
+      decision = await this.pickAgent(rule);
+      if (decision.agent_id !== null && rule.strategy === 'round_robin') {
+        await cacheService.del(this.CACHE_KEY);
+      }
+    }
+
+    try {
+      await AssignmentLog.create({
+        lead_id: lead.id,
+        agent_id: decision.agent_id,
+        rule_id: decision.rule_id,
+        rule_name: decision.rule_name,
+        strategy: decision.strategy,
+        trigger,
+        reason: decision.reason,
+        candidates: decision.candidates,
+        user_id: context.user_id,
+        correlation_id: context.correlation_id,
+        created_at: new Date()
+      });
+    } catch (error) {
+      // The decision is still applied; don't fail assignment over the log
+      logger.error(`Failed to log assignment decision for lead ${lead.id}:`, error);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Get logged assignment decisions (newest first)
+   */
+  static async getDecisionLog(
+    filters: { lead_id?: number; agent_id?: number },
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ decisions: any[]; total: number; page: number; totalPages: number }> {
+    const query: Record<string, number> = {};
+    if (filters.lead_id) query.lead_id = filters.lead_id;
+    if (filters.agent_id) query.agent_id = filters.agent_id;
+
+    const offset = (page - 1) * limit;
+    const [decisions, total] = await Promise.all([
+      AssignmentLog.find(query).sort({ created_at: -1 }).skip(offset).limit(limit).lean().exec(),
+      AssignmentLog.countDocuments(query).exec()
+    ]);
+
+    return { decisions, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * A rule matches when every condition it sets matches the lead
+   */
+  private static matches(rule: IAssignmentRule, lead: ILead): boolean {
+    if (rule.match_source && rule.match_source !== (lead.source ?? null)) {
+      return false;
+    }
+    if (rule.match_phone_prefix && !normalizePhone(lead.phone).startsWith(normalizePhone(rule.match_phone_prefix))) {
+      return false;
+    }
+    return true;
+  }
+
+  private static async pickAgent(rule: IAssignmentRule): Promise<AssignmentDecision> {
+    const activeAgents = (await UserModel.findAgents()).map(agent => agent.id).sort((a, b) => a - b);
+    const ruleAgents = rule.agent_ids ? activeAgents.filter(id => rule.agent_ids!.includes(id)) : activeAgents;
+
+    // Skip agents who are away or at capacity, but keep them in the log
+    const blockers = await AvailabilityService.leadBlockers(ruleAgents);
+    const pool = ruleAgents.filter(id => !blockers[id]);
+    const excluded = ruleAgents
+      .filter(id => blockers[id])
+      .map(id => ({ agent_id: id, excluded: blockers[id]! }));
+
+    const base = {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      strategy: rule.strategy
+    };
+
+    if (ruleAgents.length === 0) {
+      return { ...base, agent_id: null, reason: `Rule "${rule.name}" matched but has no active agents`, candidates: [] };
+    }
+    if (pool.length === 0) {
+      return {
+        ...base,
+        agent_id: null,
+        reason: `Rule "${rule.name}" matched but all its agents are unavailable or at capacity`,
+        candidates: excluded
+      };
+    }
+
+    if (rule.strategy === 'least_loaded') {
+      const pending = await CallTaskModel.countPendingByAgents(pool);
+      const agentId = pool.reduce((best, id) => (pending[id] < pending[best] ? id : best), pool[0]);
+
+      return {
+        ...base,
+        agent_id: agentId,
+        reason: `Rule "${rule.name}" (least loaded): agent ${agentId} has ${pending[agentId]} pending tasks, fewest of ${pool.length} agents`,
+        candidates: [...pool.map(id => ({ agent_id: id, pending_tasks: pending[id] })), ...excluded]
+      };
+    }
+
+    // Round robin: claim the next agent after the last one picked. Concurrent assignments
+    // (and the cached rule) may be behind, so re-read the position and retry on a lost claim.
+    let previous = rule.last_assigned_agent_id;
+    let agentId = this.nextAgent(pool, previous);
+    for (let attempt = 1; ; attempt++) {
+      if (await AssignmentRuleModel.claimNext(rule.id, previous, agentId)) break;
+
+      const current = attempt < this.MAX_CLAIM_ATTEMPTS ? await AssignmentRuleModel.findById(rule.id) : null;
+      if (!current) {
+        logger.warn(`Could not claim the round-robin position of rule ${rule.id}; assigning agent ${agentId} anyway`);
+        break;
+      }
+      previous = current.last_assigned_agent_id;
+      agentId = this.nextAgent(pool, previous);
+    }
+
+    return {
+      ...base,
+      agent_id: agentId,
+      reason: `Rule "${rule.name}" (round robin): next agent after ${previous ?? 'none'}`,
+      candidates: [...pool.map(id => ({ agent_id: id })), ...excluded]
+    };
+  }
+
+  private static nextAgent(pool: number[], lastAgentId: number | null): number {
+    const index = lastAgentId !== null ? pool.findIndex(id => id > lastAgentId) : 0;
+    return pool[index === -1 ? 0 : index];
+  }
+
+  private static async assertAgents(agentIds?: number[] | null): Promise<void> {
+    if (!agentIds || agentIds.length === 0) return;
+
+    const activeAgents = new Set((await UserModel.findAgents()).map(agent => agent.id));
+    const invalid = agentIds.filter(id => !activeAgents.has(id));
+    if (invalid.length > 0) {
+      throw new ValidationError(`Not active agents: ${invalid.join(', ')}`);
+    }
+  }
+}
@@ -1,104 +1,144 @@
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { UserModel } from '../models/mysql/User';
-import { IUser, UserRole, JWTPayload, JWTTokenPayload } from '../types';
-import { UnauthorizedError, ValidationError, ConflictError } from '../utils/errors';
-import { RowDataPacket, ResultSetHeader } from 'mysql2';
-import { mysqlPool } from '../config/database';
+import { UserInviteModel } from '../models/mysql/UserInvite';
+import { PasswordResetTokenModel } from '../models/mysql/PasswordResetToken';
+import { UserSessionModel } from '../models/mysql/UserSession';
+import { TwilioService } from './twilioService';
+import { SNSService } from './snsService';
+import { MfaService } from './mfaService';
+import { TokenRevocationService } from './tokenRevocationService';
+import { LoginProtectionService } from './loginProtectionService';
+import { SecurityEventService } from './securityEventService';
+import {
+  ClientInfo,
+  IUser,
+  IUserSession,
+  UserRole,
+  JWTPayload,
+  JWTTokenPayload,
+  MfaChallengePayload,
+  MfaPolicy
+} from '../types';
+import { UnauthorizedError, ValidationError, ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { cacheService } from '../config/redis';
+import { generateToken, hashToken } from '../utils/tokens';
 import logger from '../utils/logger';
 
+type Session = { user: Omit<IUser, 'password_hash'>; accessToken: string; refreshToken: string };
+
+type MfaChallenge = { mfa_required: true; mfa_setup_required: boolean; challengeToken: string };
+
 export class AuthService {
   private static JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
   private static JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret';
   private static JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
   private static JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+  private static MFA_CHALLENGE_TTL_SECONDS = 5 * 60;
+  private static MFA_MAX_ATTEMPTS = 5;
+  private static PASSWORD_RESET_EXPIRES_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '30');
 
   /**
-   * Register a new user
+   * Create an account from an invite token; the role and email come from the invite
    */
-  static async register(
-    email: string,
+  static async acceptInvite(
+    token: string,
     password: string,
-    role: UserRole,
-    phone?: string
-  ): Promise<{ user: Omit<IUser, 'password_hash'>; accessToken: string; refreshToken: string }> {
-    // Validate email format
-    if (!this.isValidEmail(email)) {
-      throw new ValidationError('Invalid email format');
+    phone?: string,
+    client?: ClientInfo
+  ): Promise<Session> {
+    const invite = await UserInviteModel.findByTokenHash(hashToken(token));
+    if (!invite || invite.accepted_at || invite.revoked_at || new Date(invite.expires_at) <= new Date()) {
+      throw new UnauthorizedError('Invalid or expired invite');
     }
 
-    // Validate password strength
-    if (!this.isValidPassword(password)) {
-      throw new ValidationError(
-        'Password must be at least 8 characters and contain uppercase, lowercase, number, and special character'
-      );
-    }
+    this.assertValidPassword(password);
 
-    // Check if user already exists
-    const existingUser = await UserModel.findByEmail(email);
-    if (existingUser) {
+    if (await UserModel.emailExists(invite.email)) {
       throw new ConflictError('User with this email already exists');
     }
 
-    // Create user
-    const userId = await UserModel.create(email, password, role, phone);
-    const user = await UserModel.findByIdSafe(userId);
-
-    if (!user) {
-      throw new Error('Failed to create user');
+    const userId = await UserInviteModel.accept(invite.id, password, phone);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired invite');
     }
 
-    // Generate tokens
-    const accessToken = this.generateAccessToken({ id: userId, email, role });
-    const refreshToken = this.generateRefreshToken({ id: userId, email, role });
+    logger.info(`Invite ${invite.id} accepted: ${invite.email}`);
+    return this.startSession(userId, client);
+  }
 
-    // Store refresh token in database
-    await this.storeRefreshToken(userId, refreshToken);
+  /**
+   * Create the first admin. Only allowed with AUTH_BOOTSTRAP_ENABLED=true and no users at all.
+   */
+  static async bootstrap(
+    email: string,
+    password: string,
+    phone?: string,
+    client?: ClientInfo
+  ): Promise<Session> {
+    if (process.env.AUTH_BOOTSTRAP_ENABLED !== 'true') {
+      throw new ForbiddenError('Bootstrap is disabled');
+    }
 
-    logger.info(`User registered successfully: ${email}`);
+    if (!this.isValidEmail(email)) {
+      throw new ValidationError('Invalid email format');
+    }
+    this.assertValidPassword(password);
 
-    return {
-      user,
-      accessToken,
-      refreshToken
-    };
+    const userId = await UserModel.createIfNone(email, password, UserRole.ADMIN, phone);
+    if (!userId) {
+      throw new ForbiddenError('Bootstrap is only available before any user exists');
+    }
+
+    logger.info(`First admin created: ${email}`);
+    return this.startSession(userId, client);
   }
 
   /**
-   * Login user
+   * Login user. When MFA is enabled, or required for the role but not set up yet,
+   * the password step only returns a short-lived challenge token instead of a session.
    */
-  static async login(
-    email: string,
-    password: string
-  ): Promise<{ user: Omit<IUser, 'password_hash'>; accessToken: string; refreshToken: string }> {
+  static async login(email: string, password: string, client?: ClientInfo): Promise<Session | MfaChallenge> {
+    // Locked after too many failures (per account and per IP+account)
+    await LoginProtectionService.assertNotLocked(email, client);
+
     // Find user
     const user = await UserModel.findByEmail(email);
     if (!user) {
+      await LoginProtectionService.recordFailure(email, client);
       throw new UnauthorizedError('Invalid credentials');
     }
 
     // Verify password
     const isValid = await UserModel.verifyPassword(password, user.password_hash);
     if (!isValid) {
+      await LoginProtectionService.recordFailure(email, client, user.id);
       throw new UnauthorizedError('Invalid credentials');
     }
 
+    // Second factor (failure counts are only reset once it passes too)
+    const mfaEnabled = await MfaService.isEnabled(user.id);
+    if (mfaEnabled || (await MfaService.isRequired(user.role))) {
+      logger.info(`Login for ${email} needs MFA ${mfaEnabled ? 'verification' : 'setup'}`);
+      return {
+        mfa_required: true,
+        mfa_setup_required: !mfaEnabled,
+        challengeToken: this.generateChallengeToken(
+          { id: user.id, email: user.email, role: user.role },
+          mfaEnabled ? 'mfa' : 'mfa_setup'
+        )
+      };
+    }
+
     // Update last login
     await UserModel.updateLastLogin(user.id);
+    await LoginProtectionService.recordSuccess(email, client);
 
-    // Generate tokens
-    const accessToken = this.generateAccessToken({
-      id: user.id,
-      email: user.email,
-      role: user.role
-    });
-    const refreshToken = this.generateRefreshToken({
-      id: user.id,
-      email: user.email,
-      role: user.role
-    });
-
-    // Store refresh token
-    await this.storeRefreshToken(user.id, refreshToken);
+    // Generate tokens for a new session
+    const { accessToken, refreshToken } = await this.createSession(
+      { id: user.id, email: user.email, role: user.role },
+      client
+    );
 
     logger.info(`User logged in: ${email}`);
 
@@ -113,111 +153,405 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Second login step: exchange a challenge token and a TOTP or recovery code for a session
    */
-  static async refreshAccessToken(refreshToken: string): Promise<{ accessToken: string }> {
+  static async verifyMfaLogin(challengeToken: string, code: string, client?: ClientInfo): Promise<Session> {
+    const challenge = this.verifyChallengeToken(challengeToken, 'mfa');
+    // Wrong codes count toward the same lockout as wrong passwords
+    await LoginProtectionService.assertNotLocked(challenge.email, client);
+
+    const attemptsKey = `mfa:attempts:${challenge.jti}`;
+    const attempts = Number(await cacheService.get(attemptsKey)) || 0;
+    if (attempts >= this.MFA_MAX_ATTEMPTS) {
+      throw new UnauthorizedError('Too many invalid codes, please log in again');
+    }
+
+    if (!(await MfaService.verifyCode(challenge.id, code))) {
+      await cacheService.set(attemptsKey, attempts + 1, this.MFA_CHALLENGE_TTL_SECONDS);
+      await LoginProtectionService.recordFailure(challenge.email, client, challenge.id, 'invalid_mfa_code');
+      throw new UnauthorizedError('Invalid MFA code');
+    }
+    await cacheService.del(attemptsKey);
+
+    await UserModel.updateLastLogin(challenge.id);
+    await LoginProtectionService.recordSuccess(challenge.email, client);
+    logger.info(`User logged in with MFA: ${challenge.email}`);
+    return this.startSession(challenge.id, client);
+  }
+
+  /**
+   * User enrolling in MFA: the logged-in user, or the one holding a setup challenge
+   * (roles that require MFA enroll before they get a session)
+   */
+  static mfaSetupUser(user?: JWTTokenPayload, challengeToken?: string): JWTTokenPayload & { viaChallenge: boolean } {
+    if (challengeToken) {
+      const { id, email, role } = this.verifyChallengeToken(challengeToken, 'mfa_setup');
+      return { id, email, role, viaChallenge: true };
+    }
+    if (!user) {
+      throw new UnauthorizedError('No token provided');
+    }
+    return { ...user, viaChallenge: false };
+  }
+
+  /**
+   * Finish MFA setup; a setup challenge also gets its session now
+   */
+  static async enableMfa(
+    code: string,
+    user?: JWTTokenPayload,
+    challengeToken?: string,
+    client?: ClientInfo
+  ): Promise<{ recovery_codes: string[] } & Partial<Session>> {
+    const setupUser = this.mfaSetupUser(user, challengeToken);
+    const result = await MfaService.enable(setupUser.id, code);
+    if (!setupUser.viaChallenge) {
+      return result;
+    }
+
+    await UserModel.updateLastLogin(setupUser.id);
+    await LoginProtectionService.recordSuccess(setupUser.email, client);
+    return { ...result, ...(await this.startSession(setupUser.id, client)) };
+  }
+
+  /**
+   * Set which roles must use MFA. Users of a newly required role who have not
+   * enrolled lose their sessions, so they enroll at their next login.
+   */
+  static async setMfaPolicy(
+    changes: Partial<MfaPolicy>,
+    actorId: number
+  ): Promise<{ policy: MfaPolicy; sessions_revoked: number }> {
+    const { policy, newly_required: newlyRequired } = await MfaService.setPolicy(changes, actorId);
+
+    const revokedSessions = await UserSessionModel.revokeForRolesWithoutMfa(newlyRequired, 'mfa_required');
+    await TokenRevocationService.revokeSessions(revokedSessions);
+
+    return { policy, sessions_revoked: revokedSessions.length };
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token.
+   * Each refresh token works once: presenting an already rotated token of a live
+   * session means it was copied, so the whole session is revoked.
+   */
+  static async refreshAccessToken(
+    refreshToken: string,
+    client?: ClientInfo
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    let payload: JWTPayload;
     try {
-      // Verify refresh token
-      const payload = jwt.verify(refreshToken, this.JWT_REFRESH_SECRET) as JWTPayload;
+      payload = jwt.verify(refreshToken, this.JWT_REFRESH_SECRET) as JWTPayload;
+    } catch {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
+    if (!payload.sid) {
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
 
-      // Check if refresh token exists in database
-      const isValid = await this.isRefreshTokenValid(payload.id, refreshToken);
-      if (!isValid) {
-        throw new UnauthorizedError('Invalid refresh token');
-      }
+    // Role or email may have changed since login
+    const user = await UserModel.findById(payload.id);
+    if (!user) {
+      await this.endSession(payload.sid, 'user_inactive');
+      throw new UnauthorizedError('Invalid or expired refresh token');
+    }
 
-      // Generate new access token
-      const accessToken = this.generateAccessToken({
-        id: payload.id,
-        email: payload.email,
-        role: payload.role
-      });
+    const tokenPayload: JWTTokenPayload = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      sid: payload.sid,
+      ver: await TokenRevocationService.getTokenVersion(user.id)
+    };
+    const nextRefreshToken = this.generateRefreshToken(tokenPayload);
+    const rotated = await UserSessionModel.rotate(
+      payload.sid,
+      hashToken(refreshToken),
+      hashToken(nextRefreshToken),
+      this.tokenExpiry(nextRefreshToken),
+      client
+    );
 
-      return { accessToken };
-    } catch (error) {
+    if (!rotated) {
+      const session = await UserSessionModel.findById(payload.sid);
+      if (session && !session.revoked_at && new Date(session.expires_at) > new Date()) {
+        await this.endSession(payload.sid, 'reuse_detected');
+        logger.warn(`Refresh token reuse detected for user ${payload.id}; session ${payload.sid} revoked`);
+      }
       throw new UnauthorizedError('Invalid or expired refresh token');
     }
+
+    return { accessToken: this.generateAccessToken(tokenPayload), refreshToken: nextRefreshToken };
   }
 
   /**
-   * Logout user (revoke refresh token)
+   * Logout user: revoke the access token and the session of the refresh token
+   * (or else the access token's session)
    */
-  static async logout(userId: number, refreshToken: string): Promise<void> {
-    await this.revokeRefreshToken(userId, refreshToken);
+  static async logout(
+    userId: number,
+    refreshToken?: string,
+    accessToken?: { sid?: string; jti?: string; exp?: number }
+  ): Promise<void> {
+    if (accessToken?.jti) {
+      await TokenRevocationService.revokeToken(accessToken.jti, accessToken.exp);
+    }
+
+    let sid = accessToken?.sid;
+    if (refreshToken) {
+      try {
+        sid = (jwt.verify(refreshToken, this.JWT_REFRESH_SECRET) as JWTPayload).sid ?? sid;
+      } catch {
+        // An expired refresh token still identifies nothing we need to revoke
+      }
+    }
+
+    if (sid) {
+      await this.endSession(sid, 'logout', userId);
+    }
     logger.info(`User logged out: ${userId}`);
   }
 
+  /**
+   * Active sessions (devices) of a user
+   */
+  static async listSessions(
+    userId: number,
+    currentSessionId?: string
+  ): Promise<(IUserSession & { current: boolean })[]> {
+    const sessions = await UserSessionModel.findActiveByUser(userId);
+    return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+  }
+
+  /**
+   * Sign one of the user's own devices out, including its access tokens
+   */
+  static async revokeSession(userId: number, sessionId: string): Promise<void> {
+    if (!(await this.endSession(sessionId, 'revoked', userId))) {
+      throw new NotFoundError('Session not found');
+    }
+    logger.info(`User ${userId} revoked session ${sessionId}`);
+  }
+
+  /**
+   * Change the password of a logged-in user and sign out their other sessions
+   */
+  static async changePassword(
+    userId: number,
+    currentPassword: string,
+    newPassword: string,
+    sessionId?: string
+  ): Promise<{ sessions_revoked: number }> {
+    const user = await UserModel.findById(userId);
+    if (!user) {
+      throw new UnauthorizedError('User not found');
+    }
+
+    if (!(await UserModel.verifyPassword(currentPassword, user.password_hash))) {
+      throw new ValidationError('Current password is incorrect');
+    }
+    this.assertValidPassword(newPassword);
+    if (await UserModel.verifyPassword(newPassword, user.password_hash)) {
+      throw new ValidationError('New password must be different from the current password');
+    }
+
+    await UserModel.updatePassword(userId, newPassword);
+    await PasswordResetTokenModel.invalidateForUser(userId);
+    const revokedSessions = await UserSessionModel.revokeAllForUser(userId, 'password_changed', sessionId);
+    await TokenRevocationService.revokeSessions(revokedSessions);
+
+    logger.info(`Password changed for user ${userId} (${revokedSessions.length} sessions revoked)`);
+    return { sessions_revoked: revokedSessions.length };
+  }
+
+  /**
+   * Send a single-use reset token by SMS (users with a phone) or through the email channel.
+   * Unknown emails are ignored silently so the endpoint does not reveal which accounts exist.
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const user = await UserModel.findByEmail(email);
+    if (!user) {
+      logger.info(`Password reset requested for unknown email: ${email}`);
+      return;
+    }
+
+    await PasswordResetTokenModel.invalidateForUser(user.id);
+
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + this.PASSWORD_RESET_EXPIRES_MINUTES * 60 * 1000);
+    await PasswordResetTokenModel.create(user.id, hashToken(token), expiresAt);
+
+    const delivery = { token, expiresInMinutes: this.PASSWORD_RESET_EXPIRES_MINUTES };
+    if (user.phone) {
+      const sms = await TwilioService.sendPasswordResetSMS({ ...delivery, phone: user.phone, userId: user.id });
+      if (sms.success) {
+        logger.info(`Password reset sent by SMS to user ${user.id}`);
+        return;
+      }
+      logger.warn(`Password reset SMS failed for user ${user.id}, falling back to email: ${sms.error}`);
+    }
+
+    const published = await SNSService.notifyPasswordReset({ ...delivery, email: user.email });
+    if (!published.success) {
+      logger.error(`Password reset could not be delivered to user ${user.id}: ${published.error}`);
+      return;
+    }
+    logger.info(`Password reset sent by email to user ${user.id}`);
+  }
+
+  /**
+   * Set a new password with a reset token and sign the user out everywhere
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    this.assertValidPassword(newPassword);
+
+    const userId = await PasswordResetTokenModel.consume(hashToken(token), newPassword);
+    if (!userId) {
+      throw new UnauthorizedError('Invalid or expired reset token');
+    }
+
+    const sessionsRevoked = await this.revokeAllRefreshTokens(userId, 'password_reset');
+    logger.info(`Password reset for user ${userId} (${sessionsRevoked} sessions revoked)`);
+  }
+
   /**
    * Verify access token
    */
   static verifyAccessToken(token: string): JWTPayload {
+    let payload: JWTPayload & { purpose?: string };
     try {
-      return jwt.verify(token, this.JWT_SECRET) as JWTPayload;
+      payload = jwt.verify(token, this.JWT_SECRET) as JWTPayload & { purpose?: string };
     } catch (error) {
       throw new UnauthorizedError('Invalid or expired token');
     }
+    // MFA challenge tokens share the secret but are not access tokens
+    if (payload.purpose) {
+      throw new UnauthorizedError('Invalid or expired token');
+    }
+    return payload;
+  }
+
+  /**
+   * Revoke a session and the access tokens issued for it
+   */
+  private static async endSession(sessionId: string, reason: string, userId?: number): Promise<boolean> {
+    const revoked = await UserSessionModel.revoke(sessionId, reason, userId);
+    if (revoked) {
+      await TokenRevocationService.revokeSessions([sessionId]);
+    }
+    return revoked;
+  }
+
+  /**
+   * Start a session for a user by ID and return it with the user
+   */
+  private static async startSession(userId: number, client?: ClientInfo): Promise<Session> {
+    const user = await UserModel.findByIdSafe(userId);
+    if (!user) {
+      throw new Error('Failed to create user');
+    }
+
+    const tokens = await this.createSession({ id: user.id, email: user.email, role: user.role }, client);
+    return { user, ...tokens };
+  }
+
+  /**
+   * Create a session and its first token pair; only the refresh token's hash is stored
+   */
+  private static async createSession(
+    user: JWTTokenPayload,
+    client?: ClientInfo
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const payload: JWTTokenPayload = {
+      ...user,
+      sid: crypto.randomUUID(),
+      ver: await TokenRevocationService.getTokenVersion(user.id)
+    };
+    const refreshToken = this.generateRefreshToken(payload);
+
+    await UserSessionModel.create({
+      id: payload.sid!,
+      user_id: user.id,
+      token_hash: hashToken(refreshToken),
+      expires_at: this.tokenExpiry(refreshToken),
+      client
+    });
+
+    return { accessToken: this.generateAccessToken(payload), refreshToken };
   }
 
   /**
    * Generate access token
    */
   private static generateAccessToken(payload: JWTTokenPayload): string {
+    // jwtid lets a single access token be revoked
     return jwt.sign(payload, this.JWT_SECRET, {
-      expiresIn: this.JWT_EXPIRES_IN
+      expiresIn: this.JWT_EXPIRES_IN,
+      jwtid: crypto.randomUUID()
     } as SignOptions);
   }
 
   /**
-   * Generate refresh token
+   * Generate MFA challenge token
    */
-  private static generateRefreshToken(payload: JWTTokenPayload): string {
-    return jwt.sign(payload, this.JWT_REFRESH_SECRET, {
-      expiresIn: this.JWT_REFRESH_EXPIRES_IN
+  private static generateChallengeToken(payload: JWTTokenPayload, purpose: MfaChallengePayload['purpose']): string {
+    return jwt.sign({ ...payload, purpose }, this.JWT_SECRET, {
+      expiresIn: this.MFA_CHALLENGE_TTL_SECONDS,
+      jwtid: crypto.randomUUID()
     } as SignOptions);
   }
 
   /**
-   * Store refresh token in database
+   * Verify MFA challenge token
    */
-  private static async storeRefreshToken(userId: number, token: string): Promise<void> {
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
-
-    await mysqlPool.execute<ResultSetHeader>(
-      'INSERT INTO refresh_tokens (user_id, token, expires_at) VALUES (?, ?, ?)',
-      [userId, token, expiresAt]
-    );
+  private static verifyChallengeToken(token: string, purpose: MfaChallengePayload['purpose']): MfaChallengePayload {
+    let payload: MfaChallengePayload;
+    try {
+      payload = jwt.verify(token, this.JWT_SECRET) as MfaChallengePayload;
+    } catch {
+      throw new UnauthorizedError('Invalid or expired MFA challenge, please log in again');
+    }
+    if (payload.purpose !== purpose) {
+      throw new UnauthorizedError('Invalid or expired MFA challenge, please log in again');
+    }
+    return payload;
   }
 
   /**
-   * Check if refresh token is valid
+   * Generate refresh token
    */
-  private static async isRefreshTokenValid(userId: number, token: string): Promise<boolean> {
-    const [rows] = await mysqlPool.execute<RowDataPacket[]>(
-      'SELECT id FROM refresh_tokens WHERE user_id = ? AND token = ? AND expires_at > NOW()',
-      [userId, token]
-    );
-    return rows.length > 0;
+  private static generateRefreshToken(payload: JWTTokenPayload): string {
+    // jwtid keeps consecutive tokens of a session distinct
+    return jwt.sign(payload, this.JWT_REFRESH_SECRET, {
+      expiresIn: this.JWT_REFRESH_EXPIRES_IN,
+      jwtid: crypto.randomUUID()
+    } as SignOptions);
+  }
+
+  private static tokenExpiry(token: string): Date {
+    const { exp } = jwt.decode(token) as JWTPayload;
+    return new Date((exp ?? 0) * 1000);
   }
 
   /**
-   * Revoke refresh token
+   * Revoke every session and access token of a user (forced logout)
+   * @returns Number of sessions revoked
    */
-  private static async revokeRefreshToken(userId: number, token: string): Promise<void> {
-    await mysqlPool.execute<ResultSetHeader>(
-      'DELETE FROM refresh_tokens WHERE user_id = ? AND token = ?',
-      [userId, token]
-    );
+  static async revokeAllRefreshTokens(userId: number, reason: string = 'revoked'): Promise<number> {
+    const revokedSessions = await UserSessionModel.revokeAllForUser(userId, reason);
+    await TokenRevocationService.bumpTokenVersion(userId);
+    return revokedSessions.length;
   }
 
   /**
-   * Clean up expired tokens
+   * Clean up expired sessions, spent password reset tokens and old security events
    */
   static async cleanupExpiredTokens(): Promise<number> {
-    const [result] = await mysqlPool.execute<ResultSetHeader>(
-      'DELETE FROM refresh_tokens WHERE expires_at < NOW()'
+    return (
+      (await UserSessionModel.deleteExpired()) +
+      (await PasswordResetTokenModel.cleanup()) +
+      (await SecurityEventService.cleanup())
     );
-    return result.affectedRows;
   }
 
   /**
@@ -228,6 +562,17 @@ export class AuthService {
     return emailRegex.test(email);
   }
 
+  /**
+   * Throw unless the password is strong enough
+   */
+  private static assertValidPassword(password: string): void {
+    if (!this.isValidPassword(password)) {
+      throw new ValidationError(
+        'Password must be at least 8 characters and contain uppercase, lowercase, number, and special character'
+      );
+    }
+  }
+
   /**
    * Validate password strength
    */
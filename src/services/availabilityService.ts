@@ -0,0 +1,270 @@
+import { AgentAvailabilityModel } from '../models/mysql/AgentAvailability';
+import { LeadModel } from '../models/mysql/Lead';
+import { UserModel } from '../models/mysql/User';
+import { PipelineService } from './pipelineService';
+import { TeamService } from './teamService';
+import { AgentAvailabilityStatus, IAgentAvailability, UserRole, Weekday, WorkingHours } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+type AvailabilityInput = {
+  status?: AgentAvailabilityStatus;
+  away_until?: Date | null;
+  max_open_leads?: number | null;
+  working_hours?: WorkingHours | null;
+};
+
+type AgentAvailabilityView = IAgentAvailability & {
+  effective_status: AgentAvailabilityStatus;
+  open_leads: number;
+  on_shift: boolean;
+};
+
+// Statuses that stop an agent from receiving new leads or call tasks
+const AWAY_STATUSES: AgentAvailabilityStatus[] = ['on_leave', 'offline'];
+
+export class AvailabilityService {
+  /**
+   * Get an agent's availability with current load. Agents may only view their own.
+   */
+  static async getAvailability(
+    userId: number,
+    actor?: { id: number; role: UserRole }
+  ): Promise<AgentAvailabilityView> {
+    if (actor && actor.role === UserRole.AGENT && actor.id !== userId) {
+      throw new ForbiddenError('You can only view your own availability');
+    }
+
+    const user = await UserModel.findByIdSafe(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const [availability, openLeads] = await Promise.all([
+      AgentAvailabilityModel.findByUser(userId),
+      this.countOpenLeads([userId])
+    ]);
+    return this.toView(availability, openLeads[userId]);
+  }
+
+  /**
+   * Get availability and current load of all active agents
+   */
+  static async listAvailability(): Promise<AgentAvailabilityView[]> {
+    const agentIds = (await UserModel.findAgents()).map(agent => agent.id);
+    const [availability, openLeads] = await Promise.all([
+      AgentAvailabilityModel.findByUsers(agentIds),
+      this.countOpenLeads(agentIds)
+    ]);
+    return agentIds.map(id => this.toView(availability[id], openLeads[id]));
+  }
+
+  /**
+   * Update an agent's availability. Agents may only change their own status and
+   * working hours; capacity is set by admins and managers.
+   */
+  static async updateAvailability(
+    userId: number,
+    data: AvailabilityInput,
+    actor: { id: number; role: UserRole }
+  ): Promise<AgentAvailabilityView> {
+    const isManager = actor.role === UserRole.ADMIN || actor.role === UserRole.MANAGER;
+    if (!isManager && actor.id !== userId) {
+      throw new ForbiddenError('You can only update your own availability');
+    }
+    if (!isManager && data.max_open_leads !== undefined) {
+      throw new ForbiddenError('Only admins and managers can set capacity limits');
+    }
+    await TeamService.assertCanManage(userId, actor);
+
+    const user = await UserModel.findByIdSafe(userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const existing = await AgentAvailabilityModel.findByUser(userId);
+    const next: IAgentAvailability = {
+      user_id: userId,
+      status: data.status ?? existing.status,
+      // A new status without an end date clears the previous one
+      away_until: data.away_until !== undefined ? data.away_until : data.status ? null : existing.away_until,
+      max_open_leads: data.max_open_leads !== undefined ? data.max_open_leads : existing.max_open_leads,
+      working_hours: data.working_hours !== undefined ? data.working_hours : existing.working_hours
+    };
+
+    await AgentAvailabilityModel.upsert(next);
+    logger.info(`Availability updated for user ${userId}: ${next.status}`);
+
+    return this.getAvailability(userId);
+  }
+
+  /**
+   * Throw a ConflictError (with a suggested alternative) when the agent is away or at capacity
+   */
+  static async assertCanTakeLead(agentId: number): Promise<void> {
+    const [availability, openLeads] = await Promise.all([
+      AgentAvailabilityModel.findByUser(agentId),
+      this.countOpenLeads([agentId])
+    ]);
+
+    const reason = this.leadBlocker(availability, openLeads[agentId]);
+    if (reason) {
+      const suggested = await this.suggestAgent(agentId);
+      throw new ConflictError(`Agent ${agentId} cannot take new leads: ${reason}`, {
+        suggested_agent_id: suggested
+      });
+    }
+  }
+
+  /**
+   * How many more leads the agent can take (null when unlimited).
+   * Throws a ConflictError when the agent is away.
+   */
+  static async remainingLeadCapacity(agentId: number): Promise<number | null> {
+    const [availability, openLeads] = await Promise.all([
+      AgentAvailabilityModel.findByUser(agentId),
+      this.countOpenLeads([agentId])
+    ]);
+
+    const status = this.effectiveStatus(availability);
+    if (AWAY_STATUSES.includes(status)) {
+      const suggested = await this.suggestAgent(agentId);
+      throw new ConflictError(`Agent ${agentId} cannot take new leads: agent is ${status.replace('_', ' ')}`, {
+        suggested_agent_id: suggested
+      });
+    }
+
+    return availability.max_open_leads === null
+      ? null
+      : Math.max(0, availability.max_open_leads - openLeads[agentId]);
+  }
+
+  /**
+   * Throw a ConflictError (with a suggested alternative) when the agent is away
+   * or off shift at the time the task is scheduled for
+   */
+  static async assertCanTakeTask(agentId: number, at: Date = new Date()): Promise<void> {
+    const availability = await AgentAvailabilityModel.findByUser(agentId);
+
+    const reason = this.taskBlocker(availability, at);
+    if (reason) {
+      const suggested = await this.suggestAgent(agentId, at);
+      throw new ConflictError(`Agent ${agentId} cannot take this call task: ${reason}`, {
+        suggested_agent_id: suggested
+      });
+    }
+  }
+
+  /**
+   * Why each agent can't take a new lead right now (null when it can)
+   */
+  static async leadBlockers(agentIds: number[]): Promise<Record<number, string | null>> {
+    const [availability, openLeads] = await Promise.all([
+      AgentAvailabilityModel.findByUsers(agentIds),
+      this.countOpenLeads(agentIds)
+    ]);
+
+    const result: Record<number, string | null> = {};
+    agentIds.forEach(id => {
+      result[id] = this.leadBlocker(availability[id], openLeads[id]);
+    });
+    return result;
+  }
+
+  /**
+   * The active agent (other than `excludeId`) with the fewest open leads who can
+   * take a new lead, or a task at `taskAt` when given
+   */
+  private static async suggestAgent(excludeId: number, taskAt?: Date): Promise<number | null> {
+    const agentIds = (await UserModel.findAgents()).map(agent => agent.id).filter(id => id !== excludeId);
+    const [availability, openLeads] = await Promise.all([
+      AgentAvailabilityModel.findByUsers(agentIds),
+      this.countOpenLeads(agentIds)
+    ]);
+
+    const eligible = agentIds
+      .filter(id => !this.leadBlocker(availability[id], openLeads[id]))
+      .filter(id => !taskAt || !this.taskBlocker(availability[id], taskAt))
+      .sort((a, b) => openLeads[a] - openLeads[b] || a - b);
+
+    return eligible.length > 0 ? eligible[0] : null;
+  }
+
+  private static leadBlocker(availability: IAgentAvailability, openLeads: number): string | null {
+    const status = this.effectiveStatus(availability);
+    if (AWAY_STATUSES.includes(status)) {
+      return `agent is ${status.replace('_', ' ')}`;
+    }
+    if (availability.max_open_leads !== null && openLeads >= availability.max_open_leads) {
+      return `at capacity (${openLeads}/${availability.max_open_leads} open leads)`;
+    }
+    return null;
+  }
+
+  private static taskBlocker(availability: IAgentAvailability, at: Date): string | null {
+    const status = this.effectiveStatus(availability, at);
+    if (AWAY_STATUSES.includes(status)) {
+      return `agent is ${status.replace('_', ' ')}`;
+    }
+    if (availability.working_hours && !this.isOnShift(availability.working_hours, at)) {
+      const { days, start, end, timezone } = availability.working_hours;
+      return `outside working hours (${days.join(',')} ${start}-${end} ${timezone})`;
+    }
+    return null;
+  }
+
+  /**
+   * Leave and offline statuses lapse back to available once `away_until` has passed
+   */
+  private static effectiveStatus(availability: IAgentAvailability, at: Date = new Date()): AgentAvailabilityStatus {
+    if (
+      AWAY_STATUSES.includes(availability.status) &&
+      availability.away_until &&
+      new Date(availability.away_until) <= at
+    ) {
+      return 'available';
+    }
+    return availability.status;
+  }
+
+  /**
+   * Whether `at` falls within the shift, in the shift's time zone.
+   * Overnight shifts (end before start) count from the day they start.
+   */
+  private static isOnShift(hours: WorkingHours, at: Date): boolean {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: hours.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+    const day = part('weekday').toLowerCase() as Weekday;
+    const time = `${part('hour')}:${part('minute')}`;
+
+    if (hours.start <= hours.end) {
+      return hours.days.includes(day) && time >= hours.start && time < hours.end;
+    }
+
+    const days: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+    const previousDay = days[(days.indexOf(day) + 6) % 7];
+    return (hours.days.includes(day) && time >= hours.start) || (hours.days.includes(previousDay) && time < hours.end);
+  }
+
+  private static async countOpenLeads(agentIds: number[]): Promise<Record<number, number>> {
+    const { stages } = await PipelineService.getPipeline();
+    const closed = stages.filter(stage => stage.is_terminal).map(stage => stage.stage_key);
+    return LeadModel.countOpenByAgents(agentIds, closed);
+  }
+
+  private static toView(availability: IAgentAvailability, openLeads: number): AgentAvailabilityView {
+    return {
+      ...availability,
+      effective_status: this.effectiveStatus(availability),
+      open_leads: openLeads,
+      on_shift: availability.working_hours ? this.isOnShift(availability.working_hours, new Date()) : true
+    };
+  }
+}
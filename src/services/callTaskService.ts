@@ -1,25 +1,37 @@
 import { CallTaskModel } from '../models/mysql/CallTask';
 import { LeadModel } from '../models/mysql/Lead';
 import { UserModel } from '../models/mysql/User';
-import { ICallTask, CallTaskStatus } from '../types';
+import { Actor, ICallTask, CallTaskStatus, CursorPageInfo } from '../types';
 import { ValidationError, NotFoundError, ForbiddenError } from '../utils/errors';
 import { CallLog } from '../models/mongodb/CallLog';
 import { SNSService } from './snsService';
+import { AvailabilityService } from './availabilityService';
+import { LeadScoringService } from './leadScoringService';
+import { LeadAccessService } from './leadAccessService';
+import { TeamService } from './teamService';
 import { TwilioService } from './twilioService';
 import { cacheService } from '../config/redis';
 import logger from '../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { buildCursors, CursorShape, decodeCursor } from '../utils/cursor';
 
 export class CallTaskService {
+  private static TASK_SORT = 'created_at:desc';
+  private static TASK_CURSOR: CursorShape = { value: 'date', id: 'number' };
+
   /**
-   * Create a new call task and send notifications
+   * Create a new call task and send notifications.
+   * Managers may only create tasks on their teams' leads, for their own agents.
    */
   static async createCallTask(data: {
     lead_id: number;
     agent_id: number;
     scheduled_at?: Date;
     idempotency_key?: string;
-  }): Promise<ICallTask> {
+  }, actor?: Actor): Promise<ICallTask> {
+    await LeadAccessService.assertCanAccess(data.lead_id, actor);
+    await TeamService.assertCanManage(data.agent_id, actor);
+
     // Validate lead exists
     const lead = await LeadModel.findById(data.lead_id);
     if (!lead) {
@@ -32,6 +44,8 @@ export class CallTaskService {
       throw new NotFoundError('Agent not found');
     }
 
+    await AvailabilityService.assertCanTakeTask(data.agent_id, data.scheduled_at ? new Date(data.scheduled_at) : undefined);
+
     // Create task with idempotency
     const idempotencyKey = data.idempotency_key || uuidv4();
     const taskId = await CallTaskModel.create({
@@ -97,6 +111,9 @@ export class CallTaskService {
     // Create immutable call log
     await this.createCallLog(updatedTask, notes, outcome);
 
+    // The outcome and contact time feed into the lead's score
+    await LeadScoringService.refreshScore(task.lead_id);
+
     // Send completion notifications
     const lead = await LeadModel.findById(task.lead_id);
     const agent = await UserModel.findById(agentId);
@@ -110,6 +127,7 @@ export class CallTaskService {
     // Invalidate cache
     await cacheService.flushPattern('call_tasks:*');
     await cacheService.flushPattern('reports:*');
+    await cacheService.flushPattern('leads:*');
 
     logger.info(`Call task completed: ${taskId} by agent ${agentId}`);
 
@@ -172,6 +190,41 @@ export class CallTaskService {
     return tasks;
   }
 
+  /**
+   * Get a page of an agent's tasks, newest first, with keyset cursors
+   */
+  static async getAgentTaskPage(
+    agentId: number,
+    status?: CallTaskStatus,
+    options: { limit?: number; cursor?: string; include_total?: boolean } = {}
+  ): Promise<{ tasks: ICallTask[] } & CursorPageInfo> {
+    const limit = options.limit ?? 50;
+    const cursor = options.cursor ? decodeCursor(options.cursor, this.TASK_SORT, this.TASK_CURSOR) : undefined;
+
+    const cacheKey = `call_tasks:agent_page:${agentId}:${status || 'all'}:${limit}:${options.cursor || 'first'}:${options.include_total ? 'total' : ''}`;
+    const cached = await cacheService.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { tasks, total, has_more } = await CallTaskModel.findPageByAgent(agentId, status, {
+      limit,
+      cursor,
+      include_total: options.include_total
+    });
+
+    const result: { tasks: ICallTask[] } & CursorPageInfo = {
+      tasks,
+      ...buildCursors(tasks, has_more, this.TASK_SORT, task => ({ value: task.created_at, id: task.id }), cursor)
+    };
+    if (total !== undefined) result.total = total;
+
+    // Cache for 2 minutes
+    await cacheService.set(cacheKey, result, 120);
+
+    return result;
+  }
+
   /**
    * Get pending tasks for an agent
    */
@@ -180,10 +233,10 @@ export class CallTaskService {
   }
 
   /**
-   * Get overdue tasks
+   * Get overdue tasks: all for admins, the team's for managers, their own for agents
    */
-  static async getOverdueTasks(_agentId?: number): Promise<ICallTask[]> {
-    return await CallTaskModel.getOverdueTasks();
+  static async getOverdueTasks(actor?: Actor): Promise<ICallTask[]> {
+    return await CallTaskModel.getOverdueTasks(await TeamService.managedAgentIds(actor));
   }
 
   /**
@@ -271,8 +324,11 @@ export class CallTaskService {
   static async getAgentTaskStats(
     agentId: number,
     startDate: string,
-    endDate: string
+    endDate: string,
+    actor?: Actor
   ): Promise<any> {
+    await TeamService.assertCanManage(agentId, actor);
+
     const cacheKey = `call_tasks:stats:${agentId}:${startDate}:${endDate}`;
     const cached = await cacheService.get(cacheKey);
     if (cached) {
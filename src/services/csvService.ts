@@ -1,5 +1,8 @@
 import { S3Service } from './s3Service';
 import { LeadModel } from '../models/mysql/Lead';
+import { CustomFieldService } from './customFieldService';
+import { LeadService } from './leadService';
+import { LeadScoringService } from './leadScoringService';
 import { CsvLog } from '../models/mongodb/CsvLog';
 import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import { sqsClient, AWS_CONFIG } from '../config/aws';
@@ -8,6 +11,9 @@ import logger from '../utils/logger';
 import csvParser from 'csv-parser';
 import { Readable } from 'stream';
 import Joi from 'joi';
+import { Types } from 'mongoose';
+import { CursorPageInfo } from '../types';
+import { buildCursors, CursorShape, decodeCursor } from '../utils/cursor';
 
 
 const csvRowSchema = Joi.object({
@@ -22,8 +28,15 @@ export interface CsvRow {
   phone: string;
   email?: string;
   source?: string;
+  custom_fields?: Record<string, any>;
 }
 
+const HISTORY_SORT = 'created_at:desc';
+const HISTORY_CURSOR: CursorShape = { value: 'date', id: 'object_id' };
+const CSV_ASSIGN_BATCH_SIZE = 500;
+
+const CSV_BASE_COLUMNS = ['name', 'phone', 'email', 'source'];
+
 export class CsvService {
   /**
    * Upload CSV and trigger async processing
@@ -96,6 +109,11 @@ export class CsvService {
       if (!res.ok) throw new Error(`Failed to download CSV: ${res.status} ${res.statusText}`);
       const csvContent = await res.text();
 
+      // Extra columns matching a custom field key are imported as custom field values
+      const definitions = await CustomFieldService.getDefinitions();
+      const customKeys = new Set(definitions.map(def => def.field_key));
+      const customFieldSchema = await CustomFieldService.getSchema();
+
       // Parse CSV
       const rows: CsvRow[] = [];
       const errors: Array<{ row: number; data: any; error: string }> = [];
@@ -122,10 +140,30 @@ export class CsvService {
                 data,
                 error: error.details.map((d) => d.message).join(', ')
               });
-            } else {
-              // value is validated and typed as any; cast to CsvRow
-              rows.push(value as CsvRow);
+              return;
+            }
+
+            const extras: Record<string, any> = {};
+            for (const [column, cell] of Object.entries(data)) {
+              if (CSV_BASE_COLUMNS.includes(column) || !customKeys.has(column) || cell === '') continue;
+              extras[column] = cell;
+            }
+
+            const custom = customFieldSchema.validate(extras, { abortEarly: false, convert: true });
+            if (custom.error) {
+              errors.push({
+                row: rowNumber,
+                data,
+                error: custom.error.details.map((d) => d.message).join(', ')
+              });
+              return;
             }
+
+            // value is validated and typed as any; cast to CsvRow
+            rows.push({
+              ...(value as CsvRow),
+              custom_fields: Object.keys(custom.value).length > 0 ? custom.value : undefined
+            });
           })
           .on('end', () => resolve())
           .on('error', (err) => reject(err));
@@ -135,8 +173,28 @@ export class CsvService {
 
       // Bulk create leads (assume LeadModel.bulkCreate returns number of created rows)
       // If your bulkCreate signature differs (e.g. returns array), adjust accordingly.
+      // created_at has whole seconds, so round down to catch rows inserted this second
+      const insertStartedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
       const successfulImports: number = await LeadModel.bulkCreate(rows);
 
+      // Route the imported leads through the assignment rules. Leads that already existed
+      // (skipped by INSERT IGNORE) keep their current state.
+      const phones = successfulImports > 0 ? [...new Set(rows.map(row => row.phone))] : [];
+      for (let i = 0; i < phones.length; i += CSV_ASSIGN_BATCH_SIZE) {
+        const imported = await LeadModel.findUnassignedByPhones(
+          phones.slice(i, i + CSV_ASSIGN_BATCH_SIZE),
+          insertStartedAt
+        );
+        await LeadService.autoAssignLeads(imported, 'csv_import');
+      }
+
+      // Score the new leads without holding up the import
+      if (successfulImports > 0) {
+        LeadScoringService.recomputeAll(true).catch(error => {
+          logger.error('Failed to score imported leads:', error);
+        });
+      }
+
       const processingTime = Date.now() - startTime;
 
       // Update CSV log
@@ -228,17 +286,38 @@ export class CsvService {
   /**
    * Get user's CSV upload history
    */
-  static async getUserCsvHistory(userId: number, limit: number = 10): Promise<Array<any>> {
-    const logs = await CsvLog.find({ upload_user_id: userId })
-      .sort({ created_at: -1 })
-      .limit(limit)
-      .lean()
-      .exec?.();
-
-    // If .exec is not available, logs is already the result
-    const results = (logs as any[]) ?? (await CsvLog.find({ upload_user_id: userId }).sort({ created_at: -1 }).limit(limit));
+  static async getUserCsvHistory(
+    userId: number,
+    limit: number = 10,
+    options: { cursor?: string; include_total?: boolean } = {}
+  ): Promise<{ history: Array<any> } & CursorPageInfo> {
+    const cursor = options.cursor ? decodeCursor(options.cursor, HISTORY_SORT, HISTORY_CURSOR) : undefined;
+    const filter: Record<string, any> = { upload_user_id: userId };
+
+    if (cursor) {
+      const op = cursor.direction === 'next' ? '$lt' : '$gt';
+      const createdAt = new Date(cursor.value as string);
+      filter.$or = [
+        { created_at: { [op]: createdAt } },
+        { created_at: createdAt, _id: { [op]: new Types.ObjectId(String(cursor.id)) } }
+      ];
+    }
 
-    return results.map((log: any) => ({
+    // Walking backwards: read oldest-first, then flip the page
+    const direction = cursor?.direction === 'prev' ? 1 : -1;
+    const [logs, total] = await Promise.all([
+      CsvLog.find(filter)
+        .sort({ created_at: direction, _id: direction })
+        .limit(limit + 1)
+        .lean()
+        .exec(),
+      options.include_total ? CsvLog.countDocuments({ upload_user_id: userId }).exec() : Promise.resolve(undefined)
+    ]);
+
+    const results = (logs as any[]).slice(0, limit);
+    if (cursor?.direction === 'prev') results.reverse();
+
+    const history = results.map((log: any) => ({
       id: log._id.toString(),
       file_name: log.file_name,
       status: log.status,
@@ -248,5 +327,18 @@ export class CsvService {
       created_at: log.created_at,
       completed_at: log.completed_at
     }));
+
+    const page: { history: Array<any> } & CursorPageInfo = {
+      history,
+      ...buildCursors(
+        history,
+        logs.length > limit,
+        HISTORY_SORT,
+        log => ({ value: log.created_at, id: log.id }),
+        cursor
+      )
+    };
+    if (total !== undefined) page.total = total;
+    return page;
   }
 }
\ No newline at end of file
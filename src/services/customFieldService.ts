@@ -0,0 +1,227 @@
+import Joi from 'joi';
+import { CustomFieldModel } from '../models/mysql/CustomField';
+import { ICustomFieldDefinition, CustomFieldType, CustomFieldValidation } from '../types';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { compilePattern } from '../utils/safeRegex';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+export class CustomFieldService {
+  private static CACHE_KEY = 'custom_fields:definitions';
+  private static CACHE_TTL = 600; // 10 minutes
+  private static patternCache = new Map<string, RegExp | null>();
+
+  /**
+   * Get all custom field definitions
+   */
+  static async getDefinitions(): Promise<ICustomFieldDefinition[]> {
+    const cached = await cacheService.get(this.CACHE_KEY);
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? (JSON.parse(cached) as ICustomFieldDefinition[]) : cached;
+      } catch (err) {
+        logger.warn(`Failed to parse cached custom fields: ${(err as Error).message}`);
+      }
+    }
+
+    const definitions = await CustomFieldModel.findAll();
+    await cacheService.set(this.CACHE_KEY, JSON.stringify(definitions), this.CACHE_TTL);
+    return definitions;
+  }
+
+  /**
+   * Create a custom field definition
+   */
+  static async createDefinition(data: {
+    field_key: string;
+    label: string;
+    field_type: CustomFieldType;
+    is_required?: boolean;
+    options?: string[];
+    validation?: CustomFieldValidation;
+  }): Promise<ICustomFieldDefinition> {
+    const definitions = await this.getDefinitions();
+    if (definitions.some(def => def.field_key === data.field_key)) {
+      throw new ConflictError(`Custom field '${data.field_key}' already exists`);
+    }
+
+    this.assertOptions(data.field_type, data.options);
+    this.assertPattern(data.validation);
+
+    const id = await CustomFieldModel.create(data);
+    const definition = await CustomFieldModel.findById(id);
+    if (!definition) {
+      throw new Error('Failed to create custom field');
+    }
+
+    await cacheService.del(this.CACHE_KEY);
+
+    logger.info(`Custom field created: ${definition.field_key}`);
+    return definition;
+  }
+
+  /**
+   * Update a custom field definition
+   */
+  static async updateDefinition(
+    id: number,
+    data: Partial<Pick<ICustomFieldDefinition, 'label' | 'is_required' | 'options' | 'validation'>>
+  ): Promise<ICustomFieldDefinition> {
+    const existing = await CustomFieldModel.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Custom field not found');
+    }
+
+    if (data.options !== undefined) {
+      this.assertOptions(existing.field_type, data.options ?? undefined);
+    }
+    this.assertPattern(data.validation);
+
+    await CustomFieldModel.update(id, data);
+    await cacheService.del(this.CACHE_KEY);
+
+    const definition = await CustomFieldModel.findById(id);
+    if (!definition) {
+      throw new Error('Failed to retrieve updated custom field');
+    }
+
+    logger.info(`Custom field updated: ${definition.field_key}`);
+    return definition;
+  }
+
+  /**
+   * Delete a custom field definition and its stored values
+   */
+  static async deleteDefinition(id: number): Promise<void> {
+    const existing = await CustomFieldModel.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Custom field not found');
+    }
+
+    await CustomFieldModel.delete(id, existing.field_key);
+
+    await cacheService.del(this.CACHE_KEY);
+    await cacheService.flushPattern('leads:*');
+    await cacheService.flushPattern('lead:*');
+
+    logger.info(`Custom field deleted: ${existing.field_key}`);
+  }
+
+  /**
+   * Validate custom field values against the definitions.
+   * With `partial` (updates) required fields may be omitted and null clears a value.
+   */
+  static async validateValues(
+    values: Record<string, any> | undefined,
+    partial: boolean = false
+  ): Promise<Record<string, any>> {
+    const definitions = await this.getDefinitions();
+    const { error, value } = this.buildSchema(definitions, partial).validate(values ?? {}, {
+      abortEarly: false,
+      convert: true
+    });
+
+    if (error) {
+      throw new ValidationError(error.details.map(detail => detail.message).join(', '));
+    }
+
+    return value;
+  }
+
+  /**
+   * Build the validation schema once for callers validating many rows (CSV import)
+   */
+  static async getSchema(partial: boolean = false): Promise<Joi.ObjectSchema> {
+    const definitions = await this.getDefinitions();
+    return this.buildSchema(definitions, partial);
+  }
+
+  /**
+   * Ensure filter keys refer to defined custom fields
+   */
+  static async assertFilterKeys(filters: Record<string, string>): Promise<void> {
+    const definitions = await this.getDefinitions();
+    const unknown = Object.keys(filters).filter(key => !definitions.some(def => def.field_key === key));
+
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown custom field filter: ${unknown.join(', ')}`);
+    }
+  }
+
+  private static buildSchema(definitions: ICustomFieldDefinition[], partial: boolean): Joi.ObjectSchema {
+    const keys: Record<string, Joi.Schema> = {};
+
+    for (const def of definitions) {
+      let schema: Joi.Schema = this.buildFieldSchema(def).label(`custom_fields.${def.field_key}`);
+
+      if (def.is_required && !partial) {
+        schema = schema.required();
+      } else if (partial && !def.is_required) {
+        schema = schema.allow(null);
+      }
+
+      keys[def.field_key] = schema;
+    }
+
+    return Joi.object(keys).prefs({ messages: { 'object.unknown': 'Unknown custom field {{#label}}' } });
+  }
+
+  private static buildFieldSchema(def: ICustomFieldDefinition): Joi.Schema {
+    const rules = def.validation ?? {};
+
+    switch (def.field_type) {
+      case 'number': {
+        let schema = Joi.number();
+        if (rules.min !== undefined) schema = schema.min(rules.min);
+        if (rules.max !== undefined) schema = schema.max(rules.max);
+        return schema;
+      }
+      case 'boolean':
+        return Joi.boolean();
+      case 'date':
+        return Joi.string().isoDate();
+      case 'enum':
+        return Joi.string().valid(...(def.options ?? []));
+      default: {
+        let schema = Joi.string().max(rules.max ?? 1000);
+        if (rules.min !== undefined) schema = schema.min(rules.min);
+        if (rules.pattern) {
+          const pattern = this.compiledPattern(rules.pattern);
+          if (pattern) schema = schema.pattern(pattern);
+        }
+        return schema;
+      }
+    }
+  }
+
+  private static assertPattern(validation?: CustomFieldValidation | null): void {
+    if (!validation?.pattern) return;
+
+    const compiled = compilePattern(validation.pattern);
+    if (typeof compiled === 'string') {
+      throw new ValidationError(`validation.pattern ${compiled}`);
+    }
+  }
+
+  // Compiled once per pattern. Patterns stored before they were checked are skipped, not thrown,
+  // so one bad definition can't break every lead write.
+  private static compiledPattern(pattern: string): RegExp | null {
+    if (!this.patternCache.has(pattern)) {
+      const compiled = compilePattern(pattern);
+      if (typeof compiled === 'string') {
+        logger.warn(`Ignoring custom field pattern /${pattern}/: ${compiled}`);
+      }
+      this.patternCache.set(pattern, typeof compiled === 'string' ? null : compiled);
+    }
+    return this.patternCache.get(pattern) ?? null;
+  }
+
+  private static assertOptions(fieldType: CustomFieldType, options?: string[] | null): void {
+    if (fieldType === 'enum' && (!options || options.length === 0)) {
+      throw new ValidationError('Enum custom fields need at least one option');
+    }
+    if (fieldType !== 'enum' && options && options.length > 0) {
+      throw new ValidationError('Only enum custom fields can have options');
+    }
+  }
+}
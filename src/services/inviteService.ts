@@ -0,0 +1,75 @@
+import { UserInviteModel } from '../models/mysql/UserInvite';
+import { UserModel } from '../models/mysql/User';
+import { Actor, IUserInvite, UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { generateToken, hashToken } from '../utils/tokens';
+import logger from '../utils/logger';
+
+type InviteInput = {
+  email: string;
+  role: UserRole;
+  phone?: string;
+  expires_in_hours?: number;
+};
+
+export class InviteService {
+  private static DEFAULT_EXPIRY_HOURS = 72;
+
+  /**
+   * Invite someone to create an account with a preset role.
+   * Managers may only invite agents. Older pending invites for the email stop working.
+   * The raw token is only returned here; the database keeps its hash.
+   */
+  static async createInvite(data: InviteInput, actor: Actor): Promise<{ invite: IUserInvite; token: string }> {
+    if (actor.role === UserRole.MANAGER && data.role !== UserRole.AGENT) {
+      throw new ForbiddenError('Managers can only invite agents');
+    }
+    if (await UserModel.emailExists(data.email)) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    await UserInviteModel.revokePendingForEmail(data.email);
+
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + (data.expires_in_hours ?? this.DEFAULT_EXPIRY_HOURS) * 60 * 60 * 1000);
+    const id = await UserInviteModel.create({
+      token_hash: hashToken(token),
+      email: data.email,
+      role: data.role,
+      phone: data.phone,
+      invited_by: actor.id,
+      expires_at: expiresAt
+    });
+
+    const invite = await UserInviteModel.findById(id);
+    if (!invite) {
+      throw new Error('Failed to create invite');
+    }
+
+    logger.info(`User ${actor.id} invited ${data.email} as ${data.role}`);
+    return { invite, token };
+  }
+
+  /**
+   * List invites; managers only see the ones they sent
+   */
+  static async listInvites(actor: Actor): Promise<IUserInvite[]> {
+    return UserInviteModel.findAll(actor.role === UserRole.MANAGER ? actor.id : undefined);
+  }
+
+  /**
+   * Revoke a pending invite; managers may only revoke their own
+   */
+  static async revokeInvite(id: number, actor: Actor): Promise<void> {
+    const invite = await UserInviteModel.findById(id);
+    if (!invite || (actor.role === UserRole.MANAGER && invite.invited_by !== actor.id)) {
+      throw new NotFoundError('Invite not found');
+    }
+    if (invite.accepted_at) {
+      throw new ConflictError('Invite has already been accepted');
+    }
+
+    await UserInviteModel.revoke(id);
+    logger.info(`Invite ${id} revoked by user ${actor.id}`);
+  }
+}
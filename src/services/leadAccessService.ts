@@ -0,0 +1,50 @@
+import { LeadModel } from '../models/mysql/Lead';
+import { TeamService } from './teamService';
+import { Actor, AuditContext, LeadFilters, LeadScope, UserRole } from '../types';
+import { NotFoundError } from '../utils/errors';
+
+export class LeadAccessService {
+  /**
+   * Row-level lead scope for a user; undefined means unrestricted.
+   * Agents see leads assigned to them or with one of their call tasks; managers see
+   * their teams' leads, their own and unassigned ones (so they can hand them out).
+   * Admins and internal callers (no actor) are unrestricted.
+   */
+  static async scopeFor(actor?: Actor): Promise<LeadScope | undefined> {
+    if (!actor || actor.role === UserRole.ADMIN) {
+      return undefined;
+    }
+    if (actor.role === UserRole.AGENT) {
+      return { agent_ids: [actor.id] };
+    }
+
+    const memberIds = (await TeamService.managedAgentIds(actor)) ?? [];
+    return { agent_ids: [...new Set([actor.id, ...memberIds])], include_unassigned: true };
+  }
+
+  /**
+   * Narrow list filters to what the actor may see
+   */
+  static async scopeFilters<T extends LeadFilters>(filters: T, actor?: Actor): Promise<T> {
+    const scope = await this.scopeFor(actor);
+    return scope ? { ...filters, scope } : filters;
+  }
+
+  /**
+   * Throw NotFoundError when the lead is outside the actor's scope, so that
+   * out-of-scope leads are indistinguishable from missing ones
+   */
+  static async assertCanAccess(leadId: number, actor?: Actor): Promise<void> {
+    const scope = await this.scopeFor(actor);
+    if (scope && !(await LeadModel.isInScope(leadId, scope))) {
+      throw new NotFoundError('Lead not found');
+    }
+  }
+
+  /**
+   * The acting user recorded on an audit context, if any
+   */
+  static actorFrom(context: AuditContext): Actor | undefined {
+    return context.user_id && context.role ? { id: context.user_id, role: context.role } : undefined;
+  }
+}
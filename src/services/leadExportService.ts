@@ -0,0 +1,289 @@
+import { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { Types } from 'mongoose';
+import { createObjectCsvStringifier } from 'csv-writer';
+import { LeadModel } from '../models/mysql/Lead';
+import { LeadTagModel } from '../models/mysql/LeadTag';
+import { UserModel } from '../models/mysql/User';
+import { ExportJob } from '../models/mongodb/ExportJob';
+import { S3Service } from './s3Service';
+import { LeadAccessService } from './leadAccessService';
+import { AWS_CONFIG } from '../config/aws';
+import { Actor, ILead, LeadExportField, LeadExportFormat, LeadExportRequest, UserRole } from '../types';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+type ExportRecord = Partial<Record<LeadExportField, any>>;
+
+interface RecordWriter {
+  write(records: ExportRecord[]): Promise<void>;
+  /** Flush and end the underlying stream */
+  end(): Promise<void>;
+}
+
+export const EXPORT_FORMATS: Record<LeadExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' }
+};
+
+const DEFAULT_FIELDS: LeadExportField[] = [
+  'id', 'name', 'phone', 'email', 'status', 'source', 'assigned_to', 'agent_email',
+  'score', 'tags', 'created_at', 'updated_at'
+];
+
+// Write respecting backpressure. A client that disconnects never drains, so stop waiting on close or error.
+const writeChunk = async (out: Writable, chunk: string): Promise<void> => {
+  if (out.destroyed || out.write(chunk)) return;
+
+  await new Promise<void>(resolve => {
+    const done = () => {
+      out.off('drain', done).off('close', done).off('error', done);
+      resolve();
+    };
+    out.once('drain', done).once('close', done).once('error', done);
+  });
+};
+
+// Spreadsheet apps run cells starting with = + - @ as formulas; numbers like +15551234567 are safe
+const safeCell = (value: any): any =>
+  typeof value === 'string' && /^[=+\-@]/.test(value) && !/^[+-]?\d[\d\s().-]*$/.test(value)
+    ? `'${value}`
+    : value;
+
+// Flat cell value for CSV/XLSX (NDJSON keeps arrays and objects)
+const flatten = (value: any): any => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return safeCell(value);
+};
+
+const createWriter = (format: LeadExportFormat, out: Writable, fields: LeadExportField[]): RecordWriter => {
+  if (format === 'ndjson') {
+    return {
+      write: records => writeChunk(out, records.map(record => JSON.stringify(record)).join('\n') + '\n'),
+      end: async () => {
+        out.end();
+      }
+    };
+  }
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: false, useSharedStrings: false });
+    const sheet = workbook.addWorksheet('Leads');
+    sheet.columns = fields.map(field => ({ header: field, key: field }));
+
+    return {
+      write: async records => {
+        if (out.destroyed) return;
+        records.forEach(record => {
+          const row: ExportRecord = {};
+          fields.forEach(field => {
+            row[field] = flatten(record[field]);
+          });
+          sheet.addRow(row).commit();
+        });
+      },
+      // Committing the workbook finalizes the zip and ends `out`
+      end: async () => {
+        sheet.commit();
+        await workbook.commit();
+      }
+    };
+  }
+
+  const stringifier = createObjectCsvStringifier({ header: fields.map(field => ({ id: field, title: field })) });
+  let headerWritten = false;
+
+  return {
+    write: async records => {
+      const header = headerWritten ? '' : stringifier.getHeaderString() ?? '';
+      headerWritten = true;
+      const rows = records.map(record => {
+        const row: ExportRecord = {};
+        fields.forEach(field => {
+          row[field] = flatten(record[field]);
+        });
+        return row;
+      });
+      await writeChunk(out, header + stringifier.stringifyRecords(rows));
+    },
+    end: async () => {
+      if (!headerWritten) {
+        await writeChunk(out, stringifier.getHeaderString() ?? '');
+      }
+      out.end();
+    }
+  };
+};
+
+export class LeadExportService {
+  /** Exports above this many rows run as a background job */
+  static INLINE_LIMIT = parseInt(process.env.LEAD_EXPORT_INLINE_LIMIT || '10000');
+  private static BATCH_SIZE = 1000;
+
+  /**
+   * Queue a background export when the filters match more rows than can be streamed
+   * inline. Returns the job, or null when the caller should stream the export itself.
+   * The job keeps the user's lead scope with its filters.
+   */
+  static async queueIfLarge(request: LeadExportRequest, user: Actor): Promise<any | null> {
+    const filters = await LeadAccessService.scopeFilters(request.filters ?? {}, user);
+    const total = await LeadModel.count(filters);
+    if (total <= this.INLINE_LIMIT) {
+      return null;
+    }
+
+    const job = await ExportJob.create({
+      user_id: user.id,
+      format: request.format,
+      filters,
+      fields: request.fields ?? DEFAULT_FIELDS,
+      status: 'pending',
+      total_rows: total
+    });
+
+    // Runs on this instance; the client polls GET /api/leads/exports/:id
+    this.runJob(job._id.toString()).catch(error => {
+      logger.error(`Lead export job ${job._id} failed:`, error);
+    });
+
+    logger.info(`Lead export job queued: ${job._id} (${total} rows, ${request.format})`);
+    return job;
+  }
+
+  /**
+   * Stream matching leads to `out` in the requested format and end it.
+   * Leads are read in ID order in batches, so memory use stays flat.
+   * Stops early when `out` is destroyed (e.g. the client disconnected).
+   * Returns the number of rows written.
+   */
+  static async streamLeads(request: LeadExportRequest, out: Writable, actor?: Actor): Promise<number> {
+    const filters = await LeadAccessService.scopeFilters(request.filters ?? {}, actor);
+    const fields = request.fields ?? DEFAULT_FIELDS;
+    const writer = createWriter(request.format, out, fields);
+    const agentEmails = new Map<number, string>();
+
+    let lastId = 0;
+    let exported = 0;
+
+    for (;;) {
+      if (out.destroyed) {
+        logger.info(`Lead export stopped after ${exported} rows: output closed`);
+        return exported;
+      }
+
+      const leads = await LeadModel.findAfterId(filters, lastId, this.BATCH_SIZE);
+      if (leads.length === 0) break;
+
+      const tags = fields.includes('tags') ? await LeadTagModel.findByLeads(leads.map(lead => lead.id)) : {};
+
+      if (fields.includes('agent_email')) {
+        const unknown = [...new Set(leads.map(lead => lead.assigned_to).filter((id): id is number => !!id))]
+          .filter(id => !agentEmails.has(id));
+        const emails = await UserModel.findEmailsByIds(unknown);
+        Object.entries(emails).forEach(([id, email]) => agentEmails.set(Number(id), email));
+      }
+
+      await writer.write(leads.map(lead => this.toRecord(lead, fields, tags[lead.id] ?? [], agentEmails)));
+
+      exported += leads.length;
+      lastId = leads[leads.length - 1].id;
+    }
+
+    if (!out.destroyed) {
+      await writer.end();
+    }
+    return exported;
+  }
+
+  /**
+   * Get an export job; completed jobs include a presigned download URL
+   */
+  static async getJob(jobId: string, user: Actor): Promise<any> {
+    if (!Types.ObjectId.isValid(jobId)) {
+      throw new NotFoundError('Export job not found');
+    }
+    const job = await ExportJob.findById(jobId).lean().exec();
+    if (!job) {
+      throw new NotFoundError('Export job not found');
+    }
+    if (job.user_id !== user.id && user.role !== UserRole.ADMIN) {
+      throw new ForbiddenError('You can only view your own exports');
+    }
+
+    const downloadUrl = job.status === 'completed' && job.s3_key
+      ? await S3Service.generateDownloadUrl(AWS_CONFIG.S3_BUCKET_EXPORTS, job.s3_key)
+      : null;
+
+    return { ...job, download_url: downloadUrl };
+  }
+
+  /**
+   * Write the export to a temp file, upload it to S3 and record the outcome
+   */
+  private static async runJob(jobId: string): Promise<void> {
+    const job = await ExportJob.findByIdAndUpdate(
+      jobId,
+      { $set: { status: 'processing', started_at: new Date() } },
+      { new: true }
+    ).exec();
+    if (!job) return;
+
+    const { extension, contentType } = EXPORT_FORMATS[job.format];
+    const filePath = path.join(os.tmpdir(), `lead-export-${jobId}.${extension}`);
+
+    const file = fs.createWriteStream(filePath);
+    try {
+      const exported = await this.streamLeads(
+        { format: job.format, filters: job.filters, fields: job.fields },
+        file
+      );
+      // Rejects if the file was closed before everything was written
+      await finished(file);
+
+      const key = `exports/${job.user_id}/${jobId}.${extension}`;
+      await S3Service.uploadFile(filePath, key, contentType, AWS_CONFIG.S3_BUCKET_EXPORTS);
+
+      await ExportJob.updateOne(
+        { _id: jobId },
+        { $set: { status: 'completed', exported_rows: exported, s3_key: key, completed_at: new Date() } }
+      );
+      logger.info(`Lead export job completed: ${jobId} (${exported} rows)`);
+    } catch (error: any) {
+      file.destroy();
+      await ExportJob.updateOne(
+        { _id: jobId },
+        { $set: { status: 'failed', error: error.message, completed_at: new Date() } }
+      );
+      throw error;
+    } finally {
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+
+  private static toRecord(
+    lead: ILead,
+    fields: LeadExportField[],
+    tags: string[],
+    agentEmails: Map<number, string>
+  ): ExportRecord {
+    const record: ExportRecord = {};
+    fields.forEach(field => {
+      if (field === 'tags') {
+        record.tags = tags;
+      } else if (field === 'agent_email') {
+        record.agent_email = lead.assigned_to ? agentEmails.get(lead.assigned_to) ?? null : null;
+      } else {
+        record[field] = lead[field] ?? null;
+      }
+    });
+    return record;
+  }
+}
@@ -0,0 +1,225 @@
+import { LeadModel } from '../models/mysql/Lead';
+import { LeadScoringConfigModel } from '../models/mysql/LeadScoringConfig';
+import { LeadAccessService } from './leadAccessService';
+import { CallLog } from '../models/mongodb/CallLog';
+import { Actor, ILead, LeadScoreBreakdown, LeadScoreSignal, LeadScoringConfig } from '../types';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+const DEFAULT_CONFIG: LeadScoringConfig = {
+  weights: { source: 20, status: 30, call_outcomes: 25, recency: 15, email: 10 },
+  sources: { referral: 1, website: 0.7, csv_import: 0.3 },
+  statuses: { new: 0.3, contacted: 0.5, qualified: 0.9, converted: 0 },
+  outcomes: { interested: 1, callback: 0.5, no_answer: -0.2, not_interested: -1 },
+  recency_half_life_days: 7
+};
+
+// Factor for sources/stages the config doesn't mention
+const NEUTRAL = 0.5;
+
+interface RecentCall {
+  outcome?: string | null;
+  created_at: Date;
+}
+
+export class LeadScoringService {
+  private static CACHE_KEY = 'lead_scoring:config';
+  private static CACHE_TTL = 600; // 10 minutes
+  private static RECENT_CALLS = 5;
+  private static BATCH_SIZE = 500;
+  private static RECOMPUTE_LOCK = 'lead_scoring:recompute:lock';
+  private static RECOMPUTE_LOCK_TTL = 3600; // 1 hour, in case a run dies holding it
+
+  /**
+   * Get the scoring configuration (built-in defaults until an admin saves one)
+   */
+  static async getConfig(): Promise<LeadScoringConfig> {
+    const cached = await cacheService.get(this.CACHE_KEY);
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? (JSON.parse(cached) as LeadScoringConfig) : cached;
+      } catch (err) {
+        logger.warn(`Failed to parse cached scoring config: ${(err as Error).message}`);
+      }
+    }
+
+    const config = (await LeadScoringConfigModel.find()) ?? DEFAULT_CONFIG;
+    await cacheService.set(this.CACHE_KEY, JSON.stringify(config), this.CACHE_TTL);
+    return config;
+  }
+
+  /**
+   * Update the scoring configuration and rescore all leads in the background.
+   * Maps given here replace the stored ones; weights are merged per signal.
+   */
+  static async updateConfig(data: Partial<LeadScoringConfig>, userId?: number): Promise<LeadScoringConfig> {
+    const current = await this.getConfig();
+    const config: LeadScoringConfig = {
+      ...current,
+      ...data,
+      weights: { ...current.weights, ...data.weights }
+    };
+
+    if (Object.values(config.weights).every(weight => weight === 0)) {
+      throw new ValidationError('At least one scoring weight must be greater than 0');
+    }
+
+    await LeadScoringConfigModel.save(config, userId);
+    await cacheService.del(this.CACHE_KEY);
+
+    this.recomputeAll().catch(error => {
+      logger.error('Failed to rescore leads after config change:', error);
+    });
+
+    logger.info('Lead scoring config updated');
+    return config;
+  }
+
+  /**
+   * Compute, store and explain a lead's score
+   */
+  static async scoreLead(leadId: number, actor?: Actor): Promise<LeadScoreBreakdown> {
+    await LeadAccessService.assertCanAccess(leadId, actor);
+
+    const lead = await LeadModel.findById(leadId);
+    if (!lead) {
+      throw new NotFoundError('Lead not found');
+    }
+
+    const breakdown = await this.compute(lead, await this.getConfig());
+    await LeadModel.updateScore(leadId, breakdown.score);
+    await cacheService.del(`lead:${leadId}`);
+
+    return breakdown;
+  }
+
+  /**
+   * Rescore a lead after a change; failures are logged, never thrown, so they
+   * can't fail the update that triggered them
+   */
+  static async refreshScore(leadId: number): Promise<void> {
+    try {
+      await this.scoreLead(leadId);
+    } catch (error) {
+      logger.error(`Failed to rescore lead ${leadId}:`, error);
+    }
+  }
+
+  /**
+   * Rescore several leads one after another (e.g. after a bulk change)
+   */
+  static async refreshScores(leadIds: number[]): Promise<void> {
+    for (const leadId of leadIds) {
+      await this.refreshScore(leadId);
+    }
+  }
+
+  /**
+   * Rescore every live lead (or only never-scored ones) in batches. Returns the number rescored.
+   * Only one run goes at a time across all instances; a call while one is running is skipped.
+   */
+  static async recomputeAll(unscoredOnly: boolean = false): Promise<number> {
+    const lock = await cacheService.acquireLock(this.RECOMPUTE_LOCK, this.RECOMPUTE_LOCK_TTL);
+    if (!lock) {
+      logger.info('Lead rescoring already running, skipped');
+      return 0;
+    }
+
+    try {
+      const config = await this.getConfig();
+      let lastId = 0;
+      let rescored = 0;
+
+      for (;;) {
+        const leads = await LeadModel.findBatchAfter(lastId, this.BATCH_SIZE, unscoredOnly);
+        if (leads.length === 0) break;
+
+        const callsByLead = await this.recentCallsByLead(leads.map(lead => lead.id));
+        for (const lead of leads) {
+          const { score } = await this.compute(lead, config, callsByLead.get(lead.id) ?? []);
+          if (unscoredOnly || score !== lead.score) {
+            await LeadModel.updateScore(lead.id, score);
+            rescored++;
+          }
+        }
+        lastId = leads[leads.length - 1].id;
+      }
+
+      if (rescored > 0) {
+        await cacheService.flushPattern('lead:*');
+        await cacheService.flushPattern('leads:*');
+      }
+
+      logger.info(`Lead scores recomputed: ${rescored} changed`);
+      return rescored;
+    } finally {
+      await cacheService.releaseLock(this.RECOMPUTE_LOCK, lock);
+    }
+  }
+
+  private static async compute(
+    lead: ILead,
+    config: LeadScoringConfig,
+    recentCalls?: RecentCall[]
+  ): Promise<LeadScoreBreakdown> {
+    const calls = recentCalls ?? await CallLog.find({ lead_id: lead.id, status: 'completed' })
+      .sort({ created_at: -1 })
+      .limit(this.RECENT_CALLS)
+      .lean()
+      .exec();
+
+    const lastContactAt = calls.length > 0 ? new Date(calls[0].created_at) : null;
+
+    // Outcome values (-1..1) averaged over recent calls, mapped to 0..1
+    const outcomeValues = calls.map(call => config.outcomes[this.outcomeKey(call.outcome)] ?? 0);
+    const outcomeFactor = outcomeValues.length > 0
+      ? (outcomeValues.reduce((sum, value) => sum + value, 0) / outcomeValues.length + 1) / 2
+      : NEUTRAL;
+
+    // Leads never contacted age from creation, so fresh leads start hot
+    const since = lastContactAt ?? new Date(lead.created_at);
+    const days = Math.max(0, (Date.now() - since.getTime()) / 86400000);
+    const recencyFactor = Math.pow(0.5, days / Math.max(config.recency_half_life_days, 1));
+
+    const factors: Record<LeadScoreSignal, number> = {
+      source: lead.source ? config.sources[lead.source] ?? NEUTRAL : NEUTRAL,
+      status: config.statuses[lead.status] ?? NEUTRAL,
+      call_outcomes: outcomeFactor,
+      recency: recencyFactor,
+      email: lead.email ? 1 : 0
+    };
+
+    const totalWeight = Object.values(config.weights).reduce((sum, weight) => sum + weight, 0);
+    const signals = {} as Record<LeadScoreSignal, number>;
+    let score = 0;
+    (Object.keys(factors) as LeadScoreSignal[]).forEach(signal => {
+      const points = totalWeight > 0 ? (100 * config.weights[signal] * factors[signal]) / totalWeight : 0;
+      signals[signal] = Math.round(points * 10) / 10;
+      score += points;
+    });
+
+    return {
+      score: Math.min(100, Math.max(0, Math.round(score))),
+      signals,
+      last_contact_at: lastContactAt
+    };
+  }
+
+  // Latest completed calls of each lead in one query, newest first
+  private static async recentCallsByLead(leadIds: number[]): Promise<Map<number, RecentCall[]>> {
+    const groups = await CallLog.aggregate<{ _id: number; calls: RecentCall[] }>([
+      { $match: { lead_id: { $in: leadIds }, status: 'completed' } },
+      { $sort: { lead_id: 1, created_at: -1 } },
+      { $group: { _id: '$lead_id', calls: { $push: { outcome: '$outcome', created_at: '$created_at' } } } },
+      { $project: { calls: { $slice: ['$calls', this.RECENT_CALLS] } } }
+    ]);
+
+    return new Map(groups.map(group => [group._id, group.calls]));
+  }
+
+  // Free-text outcomes ("Not interested") match config keys ("not_interested")
+  private static outcomeKey(outcome?: string | null): string {
+    return (outcome ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  }
+}
@@ -1,16 +1,74 @@
 import { LeadModel } from '../models/mysql/Lead';
+import { LeadTagModel } from '../models/mysql/LeadTag';
+import { CallTaskModel } from '../models/mysql/CallTask';
+import { CallLog } from '../models/mongodb/CallLog';
+import { NotificationLog } from '../models/mongodb/NotificationLog';
+import { LeadAuditLog } from '../models/mongodb/LeadAuditLog';
+import { PipelineService } from './pipelineService';
+import { CustomFieldService } from './customFieldService';
+import { AssignmentService } from './assignmentService';
+import { AvailabilityService } from './availabilityService';
+import { LeadScoringService } from './leadScoringService';
+import { LeadAccessService } from './leadAccessService';
+import { TeamService } from './teamService';
 import {
+  Actor,
+  AssignmentTrigger,
+  AuditContext,
+  DuplicateMatchReason,
   ILead,
-  LeadStatus,
+  LeadDuplicateGroup,
+  LeadAuditAction,
+  LeadBulkChange,
+  LeadBulkRequest,
+  LeadBulkResult,
+  LeadFieldChange,
   LeadFilters,
+  LeadListOptions,
+  LeadPage,
+  LeadScope,
+  LeadSearchHit,
+  LeadSortField,
+  IPipelineStage,
+  LeadTimeline,
+  LeadTimelineEvent,
   PaginationParams
 } from '../types';
 import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
 import { cacheService } from '../config/redis';
 import logger from '../utils/logger';
+import { buildCursors, CursorShape, decodeCursor } from '../utils/cursor';
+import {
+  nameSimilarity,
+  normalizeEmail,
+  normalizePhone,
+  wordMatchScore,
+  wordSpans
+} from '../utils/textMatching';
 
 export class LeadService {
   private static CACHE_TTL = 300; // 5 minutes
+  private static PURGE_RETENTION_DAYS = parseInt(process.env.LEAD_PURGE_RETENTION_DAYS || '30');
+  private static NAME_SIMILARITY_THRESHOLD = 0.85;
+  private static MAX_NAME_BUCKET_SIZE = 200;
+  private static MAX_DUPLICATE_CANDIDATES = 5000;
+  private static SEARCH_POOL_FACTOR = 5;
+  private static MAX_SEARCH_POOL = 200;
+  private static SEARCH_MIN_RELEVANCE = 0.5;
+  private static MAX_BULK_LEADS = 5000;
+  private static BULK_CHUNK_SIZE = 200;
+  private static MERGE_FILL_FIELDS: Array<keyof ILead> = ['email', 'source', 'assigned_to', 'image_url'];
+  private static MERGE_LOG_ATTEMPTS = 3;
+  // What a listing cursor must carry for each sort (source and assigned_to may be NULL)
+  private static LEAD_CURSOR_SHAPES: Record<LeadSortField, CursorShape> = {
+    id: { value: 'number', id: 'number' },
+    created_at: { value: 'date', id: 'number' },
+    updated_at: { value: 'date', id: 'number' },
+    status: { value: 'string', id: 'number' },
+    source: { value: 'string', nullable: true, id: 'number' },
+    assigned_to: { value: 'number', nullable: true, id: 'number' },
+    score: { value: 'number', id: 'number' }
+  };
 
   /**
    * Create a new lead with duplicate checking
@@ -19,29 +77,50 @@ export class LeadService {
     name: string;
     phone: string;
     email?: string;
-    status?: LeadStatus;
+    status?: string;
     source?: string;
     assigned_to?: number;
     image_url?: string;
-  }): Promise<ILead> {
+    custom_fields?: Record<string, any>;
+  }, context: AuditContext = {}): Promise<ILead> {
     // Validate required fields
     if (!data.name || !data.phone) {
       throw new ValidationError('Name and phone are required');
     }
 
+    if (data.status) {
+      await PipelineService.assertStageExists(data.status);
+    }
+
+    const customFields = await CustomFieldService.validateValues(data.custom_fields);
+
     // Check for duplicates
     const existing = await LeadModel.findByPhoneOrEmail(data.phone, data.email);
+    if (existing?.deleted_at) {
+      throw new ConflictError(`A deleted lead (${existing.id}) has this phone or email; restore it instead`);
+    }
     if (existing) {
       throw new ConflictError('Lead with this phone or email already exists');
     }
 
+    if (data.assigned_to) {
+      await TeamService.assertCanManage(data.assigned_to, LeadAccessService.actorFrom(context));
+      await AvailabilityService.assertCanTakeLead(data.assigned_to);
+    }
+
     // Create lead
-    const leadId = await LeadModel.create(data);
-    const lead = await LeadModel.findById(leadId);
+    const leadId = await LeadModel.create({ ...data, custom_fields: customFields });
+    await LeadScoringService.refreshScore(leadId);
+    let lead = await LeadModel.findById(leadId);
     if (!lead) {
       throw new Error('Failed to create lead');
     }
 
+    // Route unassigned leads through the assignment rules
+    if (!lead.assigned_to && (await this.autoAssign(lead, 'create', context))) {
+      lead = (await LeadModel.findById(leadId)) ?? lead;
+    }
+
     // Invalidate related caches
     await cacheService.flushPattern?.('leads:*');
     await cacheService.del?.(`lead:${leadId}`);
@@ -51,9 +130,11 @@ export class LeadService {
   }
 
   /**
-   * Get lead by ID
+   * Get lead by ID (leads outside the actor's scope are reported as not found)
    */
-  static async getLeadById(id: number): Promise<ILead> {
+  static async getLeadById(id: number, actor?: Actor): Promise<ILead> {
+    await LeadAccessService.assertCanAccess(id, actor);
+
     // Try cache first
     const cacheKey = `lead:${id}`;
     const cached = await cacheService.get(cacheKey);
@@ -72,16 +153,134 @@ export class LeadService {
     if (!lead) {
       throw new NotFoundError('Lead not found');
     }
+    lead.tags = await LeadTagModel.findByLead(id);
 
     // Cache it (stringify for consistency)
     await cacheService.set(cacheKey, JSON.stringify(lead), this.CACHE_TTL);
     return lead;
   }
 
+  /**
+   * Get activity timeline for a lead (tasks, call logs, notifications, field changes).
+   * Each source is read only up to the end of the requested page; totals are counted separately.
+   */
+  static async getLeadTimeline(
+    id: number,
+    page: number = 1,
+    limit: number = 20,
+    actor?: Actor
+  ): Promise<LeadTimeline> {
+    await LeadAccessService.assertCanAccess(id, actor);
+    const lead = await LeadModel.findById(id);
+    if (!lead) {
+      throw new NotFoundError('Lead not found');
+    }
+
+    // The newest page * limit events can only come from the newest page * limit of each source
+    const fetchLimit = page * limit;
+    const [tasks, callLogs, notifications, auditLogs, counts] = await Promise.all([
+      CallTaskModel.findByLead(id, fetchLimit),
+      CallLog.find({ lead_id: id }).sort({ created_at: -1 }).limit(fetchLimit).lean().exec(),
+      NotificationLog.find({ lead_id: id }).sort({ created_at: -1 }).limit(fetchLimit).lean().exec(),
+      LeadAuditLog.find({ lead_id: id }).sort({ created_at: -1 }).limit(fetchLimit).lean().exec(),
+      Promise.all([
+        CallTaskModel.countByLead(id),
+        CallLog.countDocuments({ lead_id: id }).exec(),
+        NotificationLog.countDocuments({ lead_id: id }).exec(),
+        LeadAuditLog.countDocuments({ lead_id: id }).exec()
+      ])
+    ]);
+
+    const events: LeadTimelineEvent[] = [
+      {
+        type: 'lead_created',
+        timestamp: lead.created_at,
+        reference_id: lead.id,
+        data: { name: lead.name, status: lead.status, source: lead.source ?? null }
+      }
+    ];
+
+    for (const task of tasks) {
+      events.push({
+        type: 'call_task_created',
+        timestamp: task.created_at,
+        reference_id: task.id,
+        data: {
+          agent_id: task.agent_id,
+          status: task.status,
+          scheduled_at: task.scheduled_at ?? null
+        }
+      });
+    }
+
+    for (const log of callLogs) {
+      events.push({
+        type: 'call_logged',
+        timestamp: log.created_at,
+        reference_id: log._id.toString(),
+        data: {
+          call_task_id: log.call_task_id,
+          agent_id: log.agent_id,
+          status: log.status,
+          outcome: log.outcome ?? null,
+          notes: log.notes ?? null
+        }
+      });
+    }
+
+    for (const notification of notifications) {
+      events.push({
+        type: 'notification',
+        timestamp: notification.created_at,
+        reference_id: notification._id.toString(),
+        data: {
+          channel: notification.type,
+          recipient: notification.recipient,
+          status: notification.status,
+          call_task_id: notification.call_task_id ?? null
+        }
+      });
+    }
+
+    for (const audit of auditLogs) {
+      events.push({
+        type: 'lead_changed',
+        timestamp: audit.created_at,
+        reference_id: audit._id.toString(),
+        data: {
+          action: audit.action,
+          user_id: audit.user_id ?? null,
+          changes: audit.changes
+        }
+      });
+    }
+
+    // Newest first
+    events.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const offset = (page - 1) * limit;
+    // The lead_created event plus every entry of each source
+    const total = 1 + counts.reduce((sum, count) => sum + count, 0);
+
+    return {
+      lead_id: id,
+      events: events.slice(offset, offset + limit),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
   /**
    * Update lead
    */
-  static async updateLead(id: number, data: Partial<ILead>): Promise<ILead> {
+  static async updateLead(
+    id: number,
+    data: Partial<ILead>,
+    context: AuditContext = {}
+  ): Promise<ILead> {
+    await LeadAccessService.assertCanAccess(id, LeadAccessService.actorFrom(context));
+
     // Check if lead exists
     const existing = await LeadModel.findById(id);
     if (!existing) {
@@ -99,11 +298,33 @@ export class LeadService {
       }
     }
 
+    // Enforce pipeline transition rules
+    if (data.status && data.status !== existing.status) {
+      await PipelineService.validateTransition(existing.status, data.status, context.reason);
+    }
+
+    // Reassignment must respect the new agent's availability and capacity
+    if (data.assigned_to && data.assigned_to !== existing.assigned_to) {
+      await TeamService.assertCanManage(data.assigned_to, LeadAccessService.actorFrom(context));
+      await AvailabilityService.assertCanTakeLead(data.assigned_to);
+    }
+
+    // Custom fields are merged into the stored values; null removes a value
+    if (data.custom_fields) {
+      const changes = await CustomFieldService.validateValues(data.custom_fields, true);
+      const merged: Record<string, any> = { ...(existing.custom_fields ?? {}), ...changes };
+      for (const key of Object.keys(merged)) {
+        if (merged[key] === null) delete merged[key];
+      }
+      data = { ...data, custom_fields: merged };
+    }
+
     // Update lead
     const updated = await LeadModel.update(id, data);
     if (!updated) {
       throw new Error('Failed to update lead');
     }
+    await LeadScoringService.refreshScore(id);
 
     // Invalidate cache
     await cacheService.del?.(`lead:${id}`);
@@ -115,44 +336,131 @@ export class LeadService {
       throw new Error('Failed to retrieve updated lead');
     }
 
+    await this.recordAudit(id, 'update', this.diffLead(existing, lead, Object.keys(data)), context);
+
     logger.info(`Lead updated: ${id}`);
     return lead;
   }
 
   /**
-   * Delete lead
+   * Delete lead (soft delete - call tasks are kept until purge)
    */
-  static async deleteLead(id: number): Promise<void> {
+  static async deleteLead(id: number, context: AuditContext = {}): Promise<void> {
+    await LeadAccessService.assertCanAccess(id, LeadAccessService.actorFrom(context));
     const existing = await LeadModel.findById(id);
     if (!existing) {
       throw new NotFoundError('Lead not found');
     }
 
-    await LeadModel.delete(id);
+    await LeadModel.softDelete(id);
 
     // Invalidate cache
     await cacheService.del?.(`lead:${id}`);
     await cacheService.flushPattern?.('leads:*');
 
+    const deleted = await LeadModel.findById(id, true);
+    if (deleted) {
+      await this.recordAudit(id, 'delete', this.diffLead(existing, deleted, ['deleted_at']), context);
+    }
+
     logger.info(`Lead deleted: ${id}`);
   }
 
   /**
-   * Get all leads with filters and pagination
+   * Restore a soft-deleted lead
+   */
+  static async restoreLead(id: number, context: AuditContext = {}): Promise<ILead> {
+    await LeadAccessService.assertCanAccess(id, LeadAccessService.actorFrom(context));
+    const existing = await LeadModel.findById(id, true);
+    if (!existing) {
+      throw new NotFoundError('Lead not found');
+    }
+    if (!existing.deleted_at) {
+      throw new ConflictError('Lead is not deleted');
+    }
+    if (existing.merged_into) {
+      throw new ConflictError(`Lead was merged into lead ${existing.merged_into} and cannot be restored`);
+    }
+
+    if (!(await LeadModel.restore(id))) {
+      throw new ConflictError('Lead could not be restored');
+    }
+
+    // Invalidate cache
+    await cacheService.del?.(`lead:${id}`);
+    await cacheService.flushPattern?.('leads:*');
+
+    const lead = await LeadModel.findById(id);
+    if (!lead) {
+      throw new Error('Failed to retrieve restored lead');
+    }
+
+    await this.recordAudit(id, 'restore', this.diffLead(existing, lead, ['deleted_at']), context);
+
+    logger.info(`Lead restored: ${id}`);
+    return lead;
+  }
+
+  /**
+   * Permanently remove leads soft-deleted longer than the retention period
+   */
+  static async purgeDeletedLeads(
+    olderThanDays: number = this.PURGE_RETENTION_DAYS,
+    context: AuditContext = {}
+  ): Promise<{ purged: number; older_than_days: number }> {
+    if (olderThanDays < this.PURGE_RETENTION_DAYS) {
+      throw new ValidationError(
+        `Deleted leads are retained for at least ${this.PURGE_RETENTION_DAYS} days`
+      );
+    }
+
+    const leads = await LeadModel.findDeletedBefore(olderThanDays);
+    const purged = await LeadModel.purge(leads.map(lead => lead.id));
+
+    // Keep a final snapshot of every purged lead in the audit trail
+    for (const lead of leads) {
+      const snapshot = Object.keys(lead).map(field => ({
+        field,
+        from: this.normalizeAuditValue(lead[field as keyof ILead]),
+        to: null
+      }));
+      await this.recordAudit(lead.id, 'purge', snapshot, context);
+    }
+
+    await cacheService.flushPattern?.('leads:*');
+
+    logger.info(`Purged ${purged} deleted leads older than ${olderThanDays} days`);
+    return { purged, older_than_days: olderThanDays };
+  }
+
+  /**
+   * Get all leads visible to the actor with filters and pagination.
+   * Offset pages (`page`) include the total by default; cursor pages only with `include_total`.
    */
   static async getLeads(
     filters: LeadFilters,
     page: number = 1,
-    limit: number = 20
-  ): Promise<{ leads: ILead[]; total: number; page: number; totalPages: number }> {
+    limit: number = 20,
+    options: LeadListOptions = {},
+    actor?: Actor
+  ): Promise<LeadPage> {
+    // Scope is part of the filters, so it is also part of the cache key
+    filters = await LeadAccessService.scopeFilters(filters, actor);
+    if (filters.custom_fields) {
+      await CustomFieldService.assertFilterKeys(filters.custom_fields);
+    }
+
+    const sortKey = `${options.sort ?? 'created_at'}:${options.order ?? 'desc'}`;
+    const cursor = options.cursor
+      ? decodeCursor(options.cursor, sortKey, this.LEAD_CURSOR_SHAPES[options.sort ?? 'created_at'])
+      : undefined;
+
     // Build cache key from filters
-    const cacheKey = `leads:${JSON.stringify(filters)}:${page}:${limit}`;
+    const cacheKey = `leads:${JSON.stringify(filters)}:${JSON.stringify(options)}:${page}:${limit}`;
     const cached = await cacheService.get(cacheKey);
     if (cached) {
       try {
-        return typeof cached === 'string'
-          ? (JSON.parse(cached) as { leads: ILead[]; total: number; page: number; totalPages: number })
-          : (cached as { leads: ILead[]; total: number; page: number; totalPages: number });
+        return typeof cached === 'string' ? (JSON.parse(cached) as LeadPage) : (cached as LeadPage);
       } catch (err) {
         logger.warn(`Failed to parse cached leads ${cacheKey}: ${(err as Error).message}`);
       }
@@ -160,14 +468,37 @@ export class LeadService {
 
     const offset = (page - 1) * limit;
     const pagination: PaginationParams = { page, limit, offset };
+    const includeTotal = options.include_total ?? !cursor;
+
+    const { leads, total, has_more } = await LeadModel.findAll(
+      filters,
+      { ...pagination, cursor, include_total: includeTotal },
+      options
+    );
+    if (!options.fields || options.fields.includes('tags')) {
+      const tags = await LeadTagModel.findByLeads(leads.map(lead => lead.id));
+      leads.forEach(lead => {
+        lead.tags = tags[lead.id] ?? [];
+      });
+    }
 
-    const { leads, total } = await LeadModel.findAll(filters, pagination);
-    const result = {
+    const sortField = options.sort ?? 'created_at';
+    const result: LeadPage = {
       leads,
-      total,
-      page,
-      totalPages: Math.ceil(total / limit)
+      ...buildCursors(
+        leads,
+        has_more,
+        sortKey,
+        lead => ({ value: lead[sortField] ?? null, id: lead.id }),
+        cursor,
+        page > 1
+      )
     };
+    if (total !== undefined) result.total = total;
+    if (!cursor) {
+      result.page = page;
+      if (total !== undefined) result.totalPages = Math.ceil(total / limit);
+    }
 
     // Cache the result (stringify to keep cache consistent)
     await cacheService.set(cacheKey, JSON.stringify(result), this.CACHE_TTL);
@@ -177,12 +508,23 @@ export class LeadService {
   /**
    * Assign lead to agent
    */
-  static async assignLead(leadId: number, agentId: number): Promise<ILead> {
+  static async assignLead(
+    leadId: number,
+    agentId: number,
+    context: AuditContext = {}
+  ): Promise<ILead> {
+    await LeadAccessService.assertCanAccess(leadId, LeadAccessService.actorFrom(context));
+
     const lead = await LeadModel.findById(leadId);
     if (!lead) {
       throw new NotFoundError('Lead not found');
     }
 
+    if (lead.assigned_to !== agentId) {
+      await TeamService.assertCanManage(agentId, LeadAccessService.actorFrom(context));
+      await AvailabilityService.assertCanTakeLead(agentId);
+    }
+
     await LeadModel.assignToAgent(leadId, agentId);
 
     // Invalidate cache
@@ -194,30 +536,535 @@ export class LeadService {
       throw new Error('Failed to retrieve updated lead');
     }
 
+    await this.recordAudit(leadId, 'assign', this.diffLead(lead, updated, ['assigned_to']), context);
+
     logger.info(`Lead ${leadId} assigned to agent ${agentId}`);
     return updated;
   }
 
   /**
-   * Search leads
+   * Add tags to a lead; returns the lead's full tag list
+   */
+  static async addTags(leadId: number, tags: string[], context: AuditContext = {}): Promise<string[]> {
+    return this.changeTags(leadId, tags, 'add', context);
+  }
+
+  /**
+   * Remove tags from a lead; returns the lead's remaining tags
+   */
+  static async removeTags(leadId: number, tags: string[], context: AuditContext = {}): Promise<string[]> {
+    return this.changeTags(leadId, tags, 'remove', context);
+  }
+
+  /**
+   * Run the assignment rules over unassigned leads (e.g. rows just imported)
+   */
+  static async autoAssignLeads(
+    leads: ILead[],
+    trigger: AssignmentTrigger,
+    context: AuditContext = {}
+  ): Promise<{ processed: number; assigned: number }> {
+    let assigned = 0;
+    for (const lead of leads) {
+      if (!lead.assigned_to && (await this.autoAssign(lead, trigger, context))) {
+        assigned++;
+      }
+    }
+
+    if (assigned > 0) {
+      await cacheService.flushPattern('leads:*');
+      await cacheService.flushPattern('lead:*');
+    }
+
+    logger.info(`Auto-assigned ${assigned} of ${leads.length} leads (${trigger})`);
+    return { processed: leads.length, assigned };
+  }
+
+  /**
+   * Auto-assign the backlog of unassigned leads
+   */
+  static async autoAssignBacklog(
+    limit: number = 100,
+    context: AuditContext = {}
+  ): Promise<{ processed: number; assigned: number }> {
+    const leads = await LeadModel.findUnassigned(limit);
+    return this.autoAssignLeads(leads, 'backlog', context);
+  }
+
+  /**
+   * Apply one action to many leads, picked by ID or by filters. Leads are changed
+   * in chunks, one transaction each, and every ID reports its own outcome.
    */
-  static async searchLeads(searchTerm: string, limit: number = 20): Promise<ILead[]> {
-    if (!searchTerm || searchTerm.trim().length < 2) {
+  static async bulkUpdateLeads(request: LeadBulkRequest, context: AuditContext = {}): Promise<LeadBulkResult> {
+    // Leads outside the caller's scope are reported as not found
+    const scope = await LeadAccessService.scopeFor(LeadAccessService.actorFrom(context));
+    const ids = request.ids
+      ? [...new Set(request.ids)]
+      : await LeadModel.findIds({ ...request.filters, scope }, this.MAX_BULK_LEADS + 1);
+    if (ids.length > this.MAX_BULK_LEADS) {
+      throw new ValidationError(`Bulk actions are limited to ${this.MAX_BULK_LEADS} leads; narrow the filters`);
+    }
+
+    const { action } = request;
+    const tags = [...new Set((request.tags ?? []).map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+    const change: LeadBulkChange = {
+      assign: { assigned_to: request.agent_id },
+      status: { status: request.status },
+      add_tags: { add_tags: tags },
+      remove_tags: { remove_tags: tags },
+      delete: { delete: true }
+    }[action];
+
+    if (action === 'status') {
+      await PipelineService.assertStageExists(request.status!);
+    }
+    if (action === 'assign') {
+      await TeamService.assertCanManage(request.agent_id!, LeadAccessService.actorFrom(context));
+    }
+    // Agents who are away fail the whole request; capacity is handed out lead by lead
+    let capacity = action === 'assign' ? await AvailabilityService.remainingLeadCapacity(request.agent_id!) : null;
+
+    const auditContext = { ...context, reason: request.status_reason ?? context.reason };
+    const results = new Map<number, { id: number; success: boolean; error?: string }>();
+    const changedIds: number[] = [];
+
+    for (let i = 0; i < ids.length; i += this.BULK_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + this.BULK_CHUNK_SIZE);
+      const before = new Map((await LeadModel.findByIds(chunk, scope)).map(lead => [lead.id, lead]));
+      const eligible: number[] = [];
+
+      for (const id of chunk) {
+        const lead = before.get(id);
+        if (!lead) {
+          results.set(id, { id, success: false, error: 'Lead not found' });
+          continue;
+        }
+
+        // Already in the requested state
+        if ((action === 'assign' && lead.assigned_to === request.agent_id) ||
+            (action === 'status' && lead.status === request.status)) {
+          results.set(id, { id, success: true });
+          continue;
+        }
+
+        if (action === 'assign' && capacity !== null) {
+          if (capacity <= 0) {
+            results.set(id, { id, success: false, error: `Agent ${request.agent_id} is at capacity` });
+            continue;
+          }
+          capacity--;
+        }
+
+        if (action === 'status') {
+          try {
+            await PipelineService.validateTransition(lead.status, request.status!, request.status_reason);
+          } catch (error) {
+            results.set(id, { id, success: false, error: (error as Error).message });
+            continue;
+          }
+        }
+
+        eligible.push(id);
+      }
+
+      if (eligible.length === 0) continue;
+
+      try {
+        const isTagAction = action === 'add_tags' || action === 'remove_tags';
+        const tagsBefore = isTagAction ? await LeadTagModel.findByLeads(eligible) : {};
+        const after = await LeadModel.bulkChange(eligible, change);
+        const tagsAfter = isTagAction ? await LeadTagModel.findByLeads(eligible) : {};
+
+        const audits = after.map(lead => ({
+          lead_id: lead.id,
+          changes: isTagAction
+            ? [{ field: 'tags', from: tagsBefore[lead.id] ?? [], to: tagsAfter[lead.id] ?? [] }]
+                .filter(diff => diff.from.join(',') !== diff.to.join(','))
+            : this.diffLead(before.get(lead.id)!, lead, Object.keys(change).map(key => (key === 'delete' ? 'deleted_at' : key)))
+        }));
+        await this.recordBulkAudit(action === 'assign' ? 'assign' : action === 'delete' ? 'delete' : 'update', audits, auditContext);
+
+        eligible.forEach(id => results.set(id, { id, success: true }));
+        changedIds.push(...eligible);
+      } catch (error) {
+        logger.error(`Bulk ${action} failed for leads ${eligible[0]}-${eligible[eligible.length - 1]}:`, error);
+        eligible.forEach(id => results.set(id, { id, success: false, error: 'Not applied: the chunk was rolled back' }));
+        if (capacity !== null) capacity += eligible.length;
+      }
+    }
+
+    // Invalidate cache once for the whole request
+    await cacheService.delMany(ids.map(id => `lead:${id}`));
+    await cacheService.flushPattern('leads:*');
+
+    if (action === 'status' && changedIds.length > 0) {
+      LeadScoringService.refreshScores(changedIds).catch(error => {
+        logger.error('Failed to rescore leads after bulk status change:', error);
+      });
+    }
+
+    const ordered = ids.map(id => results.get(id)!);
+    const succeeded = ordered.filter(result => result.success).length;
+
+    logger.info(`Bulk ${action}: ${succeeded}/${ids.length} leads`);
+    return {
+      action,
+      matched: ids.length,
+      succeeded,
+      failed: ids.length - succeeded,
+      results: ordered
+    };
+  }
+
+  /**
+   * Get field-level audit history for a lead (newest first)
+   */
+  static async getLeadHistory(
+    id: number,
+    page: number = 1,
+    limit: number = 20,
+    actor?: Actor
+  ): Promise<{ history: any[]; total: number; page: number; totalPages: number }> {
+    await LeadAccessService.assertCanAccess(id, actor);
+
+    const offset = (page - 1) * limit;
+
+    const [history, total] = await Promise.all([
+      LeadAuditLog.find({ lead_id: id }).sort({ created_at: -1 }).skip(offset).limit(limit).lean().exec(),
+      LeadAuditLog.countDocuments({ lead_id: id }).exec()
+    ]);
+
+    if (total === 0 && !(await LeadModel.findById(id, true))) {
+      throw new NotFoundError('Lead not found');
+    }
+
+    return {
+      history: history.map(entry => ({
+        id: entry._id.toString(),
+        lead_id: entry.lead_id,
+        action: entry.action,
+        user_id: entry.user_id ?? null,
+        correlation_id: entry.correlation_id ?? null,
+        reason: entry.reason ?? null,
+        changes: entry.changes,
+        created_at: entry.created_at
+      })),
+      total,
+      page,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Find groups of likely duplicate leads (all groups, or those containing `leadId`)
+   * among the leads the actor may see
+   */
+  static async findDuplicates(
+    leadId?: number,
+    limit: number = 50,
+    actor?: Actor
+  ): Promise<{ groups: LeadDuplicateGroup[]; total: number; truncated: boolean }> {
+    let target: ILead | null = null;
+    if (leadId) {
+      await LeadAccessService.assertCanAccess(leadId, actor);
+      target = await LeadModel.findById(leadId);
+      if (!target) {
+        throw new NotFoundError('Lead not found');
+      }
+    }
+
+    const { candidates, nameBlocks, truncated: candidatesTruncated } = await LeadModel.findDuplicateCandidates(
+      leadId,
+      await LeadAccessService.scopeFor(actor),
+      this.MAX_DUPLICATE_CANDIDATES
+    );
+    let truncated = candidatesTruncated;
+    // The capped candidates may not reach the lead itself
+    if (target && !candidates.some(lead => lead.id === leadId)) {
+      candidates.unshift(target);
+      nameBlocks.unshift('');
+    }
+    const pairs: Array<[number, number, DuplicateMatchReason]> = [];
+    const isSimilarName = (i: number, j: number) =>
+      nameSimilarity(candidates[i].name, candidates[j].name) >= this.NAME_SIMILARITY_THRESHOLD;
+
+    // Exact phone/email matches chain each lead to the first one sharing its key
+    const firstByKey = new Map<string, number>();
+    candidates.forEach((lead, i) => {
+      const keys: Array<[DuplicateMatchReason, string]> = [
+        ['phone', normalizePhone(lead.phone)],
+        ['email', normalizeEmail(lead.email)]
+      ];
+      for (const [reason, value] of keys) {
+        if (!value) continue;
+        const first = firstByKey.get(`${reason}:${value}`);
+        if (first === undefined) {
+          firstByKey.set(`${reason}:${value}`, i);
+        } else {
+          pairs.push([first, i, reason]);
+        }
+      }
+    });
+
+    if (leadId) {
+      const targetIndex = candidates.findIndex(lead => lead.id === leadId);
+      candidates.forEach((_, i) => {
+        if (i !== targetIndex && isSimilarName(targetIndex, i)) pairs.push([targetIndex, i, 'name']);
+      });
+    } else {
+      // Only leads in the same name block (name SOUNDEX and phone prefix) are compared
+      const buckets = new Map<string, number[]>();
+      nameBlocks.forEach((block, i) => {
+        buckets.set(block, [...(buckets.get(block) ?? []), i]);
+      });
+
+      for (const bucket of buckets.values()) {
+        if (bucket.length < 2) continue;
+        if (bucket.length > this.MAX_NAME_BUCKET_SIZE) {
+          logger.warn(`Fuzzy name matching skipped for a name block of ${bucket.length} leads`);
+          truncated = true;
+          continue;
+        }
+        for (let x = 0; x < bucket.length; x++) {
+          for (let y = x + 1; y < bucket.length; y++) {
+            if (isSimilarName(bucket[x], bucket[y])) pairs.push([bucket[x], bucket[y], 'name']);
+          }
+        }
+      }
+    }
+
+    // Union-find over matched pairs
+    const parent = candidates.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    for (const [a, b] of pairs) {
+      parent[find(a)] = find(b);
+    }
+
+    const groups = new Map<number, { members: Set<number>; reasons: Set<DuplicateMatchReason> }>();
+    for (const [a, b, reason] of pairs) {
+      const root = find(a);
+      const group = groups.get(root) ?? { members: new Set<number>(), reasons: new Set<DuplicateMatchReason>() };
+      group.members.add(a).add(b);
+      group.reasons.add(reason);
+      groups.set(root, group);
+    }
+
+    const result: LeadDuplicateGroup[] = [...groups.values()]
+      .map(group => ({
+        leads: [...group.members].sort((a, b) => a - b).map(i => candidates[i]),
+        reasons: [...group.reasons]
+      }))
+      .sort((a, b) => b.leads.length - a.leads.length);
+
+    if (truncated) {
+      logger.warn(`Duplicate search truncated (over ${this.MAX_DUPLICATE_CANDIDATES} candidates or an oversized name block)`);
+    }
+    return { groups: result.slice(0, limit), total: result.length, truncated };
+  }
+
+  /**
+   * Merge a secondary lead into a primary one, moving its call tasks,
+   * call logs and notifications and soft-deleting the secondary.
+   * Logs live in MongoDB, outside the MySQL transaction; moving them is retried, and
+   * any that still could not be moved are listed in `logs_not_moved`.
+   */
+  static async mergeLeads(
+    primaryId: number,
+    secondaryId: number,
+    context: AuditContext = {}
+  ): Promise<{
+    lead: ILead;
+    merged_lead_id: number;
+    call_tasks_moved: number;
+    call_logs_moved: number;
+    notifications_moved: number;
+    logs_not_moved: Array<'call_logs' | 'notifications'>;
+  }> {
+    if (primaryId === secondaryId) {
+      throw new ValidationError('A lead cannot be merged into itself');
+    }
+
+    const actor = LeadAccessService.actorFrom(context);
+    await LeadAccessService.assertCanAccess(primaryId, actor);
+    await LeadAccessService.assertCanAccess(secondaryId, actor);
+
+    const [primary, secondary] = await Promise.all([
+      LeadModel.findById(primaryId),
+      LeadModel.findById(secondaryId)
+    ]);
+    if (!primary) {
+      throw new NotFoundError('Primary lead not found');
+    }
+    if (!secondary) {
+      throw new NotFoundError('Secondary lead not found');
+    }
+
+    // Primary values win; only blanks are filled from the secondary
+    const fill: Partial<ILead> = {};
+    for (const field of this.MERGE_FILL_FIELDS) {
+      const current = primary[field];
+      const incoming = secondary[field];
+      if ((current === null || current === undefined || current === '') && incoming) {
+        (fill as Record<string, unknown>)[field] = incoming;
+      }
+    }
+
+    const missingCustomFields = Object.entries(secondary.custom_fields ?? {}).filter(
+      ([key]) => primary.custom_fields?.[key] === undefined
+    );
+    if (missingCustomFields.length > 0) {
+      fill.custom_fields = { ...(primary.custom_fields ?? {}), ...Object.fromEntries(missingCustomFields) };
+    }
+
+    const callTasksMoved = await LeadModel.merge(primaryId, secondaryId, fill);
+
+    const [callLogsMoved, notificationsMoved] = await Promise.all([
+      this.moveLogs('call_logs', () =>
+        CallLog.updateMany({ lead_id: secondaryId }, { $set: { lead_id: primaryId } }).exec()
+      ),
+      this.moveLogs('notifications', () =>
+        NotificationLog.updateMany({ lead_id: secondaryId }, { $set: { lead_id: primaryId } }).exec()
+      )
+    ]);
+    const logsNotMoved = [
+      ...(callLogsMoved === null ? ['call_logs' as const] : []),
+      ...(notificationsMoved === null ? ['notifications' as const] : [])
+    ];
+    if (logsNotMoved.length > 0) {
+      logger.error(`Lead ${secondaryId} merged into ${primaryId}, but its ${logsNotMoved.join(' and ')} were not moved`);
+    }
+    await LeadScoringService.refreshScore(primaryId);
+
+    // Invalidate cache
+    await cacheService.del?.(`lead:${primaryId}`);
+    await cacheService.del?.(`lead:${secondaryId}`);
+    await cacheService.flushPattern?.('leads:*');
+    await cacheService.flushPattern?.('call_tasks:*');
+
+    const [lead, mergedSecondary] = await Promise.all([
+      LeadModel.findById(primaryId),
+      LeadModel.findById(secondaryId, true)
+    ]);
+    if (!lead || !mergedSecondary) {
+      throw new Error('Failed to retrieve merged lead');
+    }
+
+    await this.recordAudit(
+      primaryId,
+      'merge',
+      [
+        ...this.diffLead(primary, lead, Object.keys(fill)),
+        { field: 'merged_lead_id', from: null, to: secondaryId }
+      ],
+      context
+    );
+    await this.recordAudit(
+      secondaryId,
+      'merge',
+      this.diffLead(secondary, mergedSecondary, ['deleted_at', 'merged_into']),
+      context
+    );
+
+    logger.info(`Lead ${secondaryId} merged into ${primaryId}`);
+
+    return {
+      lead,
+      merged_lead_id: secondaryId,
+      call_tasks_moved: callTasksMoved,
+      call_logs_moved: callLogsMoved ?? 0,
+      notifications_moved: notificationsMoved ?? 0,
+      logs_not_moved: logsNotMoved
+    };
+  }
+
+  /**
+   * Search leads visible to the actor by name, phone or email, ranked by relevance.
+   * Phone input is compared digit-by-digit; names tolerate small typos.
+   */
+  static async searchLeads(
+    searchTerm: string,
+    limit: number = 20,
+    filters: LeadFilters = {},
+    actor?: Actor
+  ): Promise<LeadSearchHit[]> {
+    const term = (searchTerm ?? '').trim();
+    if (term.length < 2) {
       throw new ValidationError('Search term must be at least 2 characters');
     }
+    if (filters.custom_fields) {
+      await CustomFieldService.assertFilterKeys(filters.custom_fields);
+    }
+    filters = await LeadAccessService.scopeFilters(filters, actor);
 
-    return await LeadModel.search(searchTerm.trim(), limit);
+    const words = [...new Set(wordSpans(term).map(span => span.word))];
+    const digits = /^[\d\s()+.-]+$/.test(term) ? normalizePhone(term) : '';
+    const poolSize = Math.min(limit * this.SEARCH_POOL_FACTOR, this.MAX_SEARCH_POOL);
+
+    const candidates = await LeadModel.searchCandidates(
+      {
+        booleanQuery: words.length > 0 ? words.map(word => `${word}*`).join(' ') : undefined,
+        phoneDigits: digits.length >= 3 ? digits : undefined
+      },
+      filters,
+      poolSize
+    );
+
+    // Too few direct hits: widen with sound-alike names so typos still match
+    if (candidates.length < limit && !digits && words.length > 0) {
+      const seen = new Set(candidates.map(candidate => candidate.lead.id));
+      const fuzzy = await LeadModel.searchCandidates({ fuzzyTokens: words.slice(0, 3) }, filters, poolSize);
+      candidates.push(...fuzzy.filter(candidate => !seen.has(candidate.lead.id)));
+    }
+
+    const textScores = new Map(candidates.map(candidate => [candidate.lead.id, candidate.text_score]));
+
+    return candidates
+      .map(candidate => this.rankSearchHit(candidate.lead, term, words, digits))
+      .filter((hit): hit is LeadSearchHit => hit !== null)
+      .sort((a, b) =>
+        b.relevance - a.relevance ||
+        (textScores.get(b.id) ?? 0) - (textScores.get(a.id) ?? 0) ||
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * Get lead counts per pipeline stage, in pipeline order (kanban board)
+   */
+  static async getPipelineCounts(actor?: Actor): Promise<Array<IPipelineStage & { count: number }>> {
+    const scope = await LeadAccessService.scopeFor(actor);
+    const cacheKey = this.scopedCacheKey('leads:pipeline', scope);
+    const cached = await cacheService.get(cacheKey);
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? JSON.parse(cached) : cached;
+      } catch (err) {
+        logger.warn(`Failed to parse cached pipeline counts: ${(err as Error).message}`);
+      }
+    }
+
+    const [{ stages }, byStatus] = await Promise.all([
+      PipelineService.getPipeline(),
+      LeadModel.countByStatus(scope)
+    ]);
+
+    const counts = stages.map(stage => ({ ...stage, count: byStatus[stage.stage_key] ?? 0 }));
+
+    await cacheService.set(cacheKey, JSON.stringify(counts), this.CACHE_TTL);
+    return counts;
   }
 
   /**
    * Get lead statistics
    */
-  static async getLeadStats(): Promise<{
+  static async getLeadStats(actor?: Actor): Promise<{
     total: number;
     byStatus: Record<string, number>;
     bySource: Record<string, number> | Array<{ source: string; count: number }>;
   }> {
-    const cacheKey = 'leads:stats';
+    const scope = await LeadAccessService.scopeFor(actor);
+    const cacheKey = this.scopedCacheKey('leads:stats', scope);
     const cached = await cacheService.get(cacheKey);
     if (cached) {
       try {
@@ -228,8 +1075,8 @@ export class LeadService {
     }
 
     const [byStatus, bySource] = await Promise.all([
-      LeadModel.countByStatus(), // assume returns Record<string, number>
-      LeadModel.countBySource() // can be Record<string, number> or Array<{source,count}>
+      LeadModel.countByStatus(scope), // assume returns Record<string, number>
+      LeadModel.countBySource(scope) // can be Record<string, number> or Array<{source,count}>
     ]);
 
     const total = Object.values(byStatus).reduce((sum, count) => sum + (count ?? 0), 0);
@@ -245,4 +1092,246 @@ export class LeadService {
 
     return stats;
   }
+
+  /**
+   * Compute per-field changes between two lead snapshots
+   */
+  private static diffLead(before: ILead, after: ILead, fields: string[]): LeadFieldChange[] {
+    const changes: LeadFieldChange[] = [];
+
+    for (const field of fields) {
+      if (field === 'id' || field === 'created_at' || field === 'updated_at') continue;
+
+      const from = this.normalizeAuditValue(before[field as keyof ILead]);
+      const to = this.normalizeAuditValue(after[field as keyof ILead]);
+
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes.push({ field, from, to });
+      }
+    }
+
+    return changes;
+  }
+
+  private static normalizeAuditValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    return value;
+  }
+
+  /**
+   * Score a search candidate (0-1, best matching field wins) and collect highlight ranges
+   */
+  private static rankSearchHit(
+    lead: ILead,
+    term: string,
+    words: string[],
+    digits: string
+  ): LeadSearchHit | null {
+    const highlights: LeadSearchHit['highlights'] = {};
+    let relevance = 0;
+
+    if (words.length > 0) {
+      const spans = wordSpans(lead.name);
+      const ranges: Array<[number, number]> = [];
+      let total = 0;
+
+      for (const word of words) {
+        let best = 0;
+        let bestRange: [number, number] | null = null;
+        for (const span of spans) {
+          const score = wordMatchScore(word, span.word);
+          if (score > best) {
+            best = score;
+            // Prefix matches highlight only the typed part
+            bestRange = [span.start, span.word.startsWith(word) ? span.start + word.length : span.end];
+          }
+        }
+        total += best;
+        if (bestRange) ranges.push(bestRange);
+      }
+
+      if (ranges.length > 0) {
+        highlights.name = ranges;
+        relevance = Math.max(relevance, total / words.length);
+      }
+    }
+
+    if (lead.email) {
+      const email = lead.email.toLowerCase();
+      const needle = term.toLowerCase();
+      const index = email.indexOf(needle);
+      if (index >= 0) {
+        highlights.email = [[index, index + needle.length]];
+        relevance = Math.max(relevance, index > 0 ? 0.6 : email === needle ? 1 : 0.85);
+      }
+    }
+
+    if (digits.length >= 3) {
+      const stored = normalizePhone(lead.phone);
+      const index = stored.indexOf(digits);
+      if (index >= 0) {
+        // Map digit offsets back onto the formatted phone string
+        const positions = Array.from(lead.phone).flatMap((char, i) => (/\d/.test(char) ? [i] : []));
+        highlights.phone = [[positions[index], positions[index + digits.length - 1] + 1]];
+
+        let score = 0.7;
+        if (stored === digits) score = 1;
+        else if (stored.endsWith(digits)) score = 0.95;
+        else if (index === 0) score = 0.9;
+        relevance = Math.max(relevance, score);
+      }
+    }
+
+    if (relevance < this.SEARCH_MIN_RELEVANCE) return null;
+
+    return { ...lead, relevance: Math.round(relevance * 1000) / 1000, highlights };
+  }
+
+  /**
+   * Apply the assignment rules to one lead; returns the chosen agent, if any.
+   * Failures are logged, never thrown: the lead itself is already saved.
+   */
+  private static async autoAssign(
+    lead: ILead,
+    trigger: AssignmentTrigger,
+    context: AuditContext
+  ): Promise<number | null> {
+    try {
+      const decision = await AssignmentService.decide(lead, trigger, context);
+      if (decision.agent_id === null) return null;
+
+      await LeadModel.assignToAgent(lead.id, decision.agent_id);
+      await cacheService.del(`lead:${lead.id}`);
+      await this.recordAudit(
+        lead.id,
+        'assign',
+        [{ field: 'assigned_to', from: lead.assigned_to ?? null, to: decision.agent_id }],
+        { ...context, reason: decision.reason }
+      );
+
+      return decision.agent_id;
+    } catch (error) {
+      logger.error(`Auto-assignment failed for lead ${lead.id}:`, error);
+      return null;
+    }
+  }
+
+  private static async changeTags(
+    leadId: number,
+    tags: string[],
+    mode: 'add' | 'remove',
+    context: AuditContext
+  ): Promise<string[]> {
+    await LeadAccessService.assertCanAccess(leadId, LeadAccessService.actorFrom(context));
+
+    const lead = await LeadModel.findById(leadId);
+    if (!lead) {
+      throw new NotFoundError('Lead not found');
+    }
+
+    const normalized = [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+    const before = await LeadTagModel.findByLead(leadId);
+
+    if (mode === 'add') {
+      await LeadTagModel.add(leadId, normalized);
+    } else {
+      await LeadTagModel.remove(leadId, normalized);
+    }
+
+    const after = await LeadTagModel.findByLead(leadId);
+
+    await cacheService.del(`lead:${leadId}`);
+    await cacheService.flushPattern('leads:*');
+
+    if (before.join(',') !== after.join(',')) {
+      await this.recordAudit(leadId, 'update', [{ field: 'tags', from: before, to: after }], context);
+    }
+
+    return after;
+  }
+
+  /**
+   * Re-point one log collection after a merge. The update is idempotent, so it is retried.
+   * @returns Documents moved, or null when every attempt failed
+   */
+  private static async moveLogs(
+    collection: string,
+    update: () => Promise<{ modifiedCount: number }>
+  ): Promise<number | null> {
+    for (let attempt = 1; attempt <= this.MERGE_LOG_ATTEMPTS; attempt++) {
+      try {
+        return (await update()).modifiedCount;
+      } catch (error) {
+        logger.warn(`Moving ${collection} after merge failed (attempt ${attempt}):`, error);
+        if (attempt < this.MERGE_LOG_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, attempt * 200));
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Per-scope variant of an aggregate cache key (still matched by `leads:*`)
+   */
+  private static scopedCacheKey(base: string, scope?: LeadScope): string {
+    if (!scope) return base;
+    return `${base}:${scope.agent_ids.join(',')}${scope.include_unassigned ? ':unassigned' : ''}`;
+  }
+
+  /**
+   * Write an immutable audit record for a lead change
+   */
+  private static async recordAudit(
+    leadId: number,
+    action: LeadAuditAction,
+    changes: LeadFieldChange[],
+    context: AuditContext
+  ): Promise<void> {
+    // Nothing actually changed (e.g. re-assigning to the same agent)
+    if (changes.length === 0) return;
+
+    try {
+      await LeadAuditLog.create({
+        lead_id: leadId,
+        action,
+        user_id: context.user_id,
+        correlation_id: context.correlation_id,
+        reason: context.reason,
+        changes,
+        created_at: new Date()
+      });
+    } catch (error) {
+      // The MySQL write already succeeded; don't fail the request over the audit trail
+      logger.error(`Failed to record ${action} audit for lead ${leadId}:`, error);
+    }
+  }
+
+  /**
+   * Write audit records for leads changed by one bulk action
+   */
+  private static async recordBulkAudit(
+    action: LeadAuditAction,
+    entries: Array<{ lead_id: number; changes: LeadFieldChange[] }>,
+    context: AuditContext
+  ): Promise<void> {
+    const docs = entries
+      .filter(entry => entry.changes.length > 0)
+      .map(entry => ({
+        ...entry,
+        action,
+        user_id: context.user_id,
+        correlation_id: context.correlation_id,
+        reason: context.reason,
+        created_at: new Date()
+      }));
+    if (docs.length === 0) return;
+
+    try {
+      await LeadAuditLog.insertMany(docs);
+    } catch (error) {
+      logger.error(`Failed to record bulk ${action} audit for ${docs.length} leads:`, error);
+    }
+  }
 }
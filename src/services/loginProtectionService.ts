@@ -0,0 +1,148 @@
+import { redis, cacheService } from '../config/redis';
+import { ClientInfo } from '../types';
+import { TooManyRequestsError } from '../utils/errors';
+import { SecurityEventService } from './securityEventService';
+import logger from '../utils/logger';
+
+type LockScope = 'email' | 'ip_email';
+
+type LoginFailureReason = 'unknown_email' | 'invalid_password' | 'invalid_mfa_code';
+
+/**
+ * Progressive lockout of logins. Wrong passwords and wrong MFA codes are counted per email (any IP) and
+ * per IP+email; once a counter reaches its threshold the pair or the whole account is
+ * locked, and every further failure doubles the lock up to a maximum.
+ *
+ * The per IP+email limit is low so one client guessing a password is stopped quickly;
+ * the per email limit is high so attackers spread over many IPs can't lock real users out easily.
+ */
+export class LoginProtectionService {
+  private static IP_EMAIL_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+  private static EMAIL_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD || '20');
+  private static BASE_LOCK_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS || '60');
+  private static MAX_LOCK_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MAX_SECONDS || '3600');
+  // Failures are forgotten after a day without any
+  private static FAILURE_WINDOW_SECONDS = 24 * 60 * 60;
+
+  /**
+   * Reject the attempt while the account or this IP+email pair is locked
+   */
+  static async assertNotLocked(email: string, client?: ClientInfo): Promise<void> {
+    const key = this.normalize(email);
+    const ip = client?.ip_address || 'unknown';
+
+    const locks = await cacheService.getMany([this.lockKey('email', key), this.lockKey('ip_email', key, ip)]);
+    const lockedUntil = Math.max(...locks.map(until => Number(until) || 0));
+    const retryAfter = Math.ceil((lockedUntil - Date.now()) / 1000);
+    if (retryAfter <= 0) return;
+
+    await SecurityEventService.record('login_blocked', { email: key, client, details: { retry_after: retryAfter } });
+    throw new TooManyRequestsError('Too many failed login attempts. Please try again later.', {
+      retryAfter
+    });
+  }
+
+  /**
+   * Count a failed login (wrong password or MFA code) and lock when a threshold is reached
+   */
+  static async recordFailure(
+    email: string,
+    client?: ClientInfo,
+    userId?: number,
+    reason: LoginFailureReason = userId ? 'invalid_password' : 'unknown_email'
+  ): Promise<void> {
+    const key = this.normalize(email);
+    const ip = client?.ip_address || 'unknown';
+
+    let emailFailures = 0;
+    let ipEmailFailures = 0;
+    try {
+      [emailFailures, ipEmailFailures] = await Promise.all([
+        this.increment(this.failureKey('email', key)),
+        this.increment(this.failureKey('ip_email', key, ip))
+      ]);
+
+      await Promise.all([
+        this.lockIfNeeded('email', emailFailures, this.EMAIL_THRESHOLD, key, client, userId),
+        this.lockIfNeeded('ip_email', ipEmailFailures, this.IP_EMAIL_THRESHOLD, key, client, userId)
+      ]);
+    } catch (error) {
+      logger.error(`Failed to count failed login for ${key}:`, error);
+    }
+
+    await SecurityEventService.record('login_failed', {
+      email: key,
+      user_id: userId,
+      client,
+      details: { reason, failures: emailFailures }
+    });
+  }
+
+  /**
+   * Forget the failures of a successful login
+   */
+  static async recordSuccess(email: string, client?: ClientInfo): Promise<void> {
+    const key = this.normalize(email);
+    await cacheService.delMany([
+      this.failureKey('email', key),
+      this.failureKey('ip_email', key, client?.ip_address || 'unknown')
+    ]);
+  }
+
+  /**
+   * Lift every lock and failure count of an account (admin action)
+   */
+  static async unlock(email: string, actorId: number, userId?: number): Promise<void> {
+    const key = this.normalize(email);
+    await cacheService.delMany([this.failureKey('email', key), this.lockKey('email', key)]);
+    // Glob-escape the email so it only matches its own IP+email keys
+    await cacheService.flushPattern(`auth:login:*:ip_email:${key.replace(/[*?[\]\\]/g, '\\$&')}:*`);
+
+    await SecurityEventService.record('account_unlocked', {
+      email: key,
+      user_id: userId,
+      details: { unlocked_by: actorId }
+    });
+    logger.info(`Login lockout of ${key} cleared by user ${actorId}`);
+  }
+
+  private static async lockIfNeeded(
+    scope: LockScope,
+    failures: number,
+    threshold: number,
+    email: string,
+    client?: ClientInfo,
+    userId?: number
+  ): Promise<void> {
+    if (failures < threshold) return;
+
+    const lockSeconds = Math.min(this.BASE_LOCK_SECONDS * 2 ** (failures - threshold), this.MAX_LOCK_SECONDS);
+    const ip = client?.ip_address || 'unknown';
+    await cacheService.set(this.lockKey(scope, email, ip), Date.now() + lockSeconds * 1000, lockSeconds);
+
+    logger.warn(`Login locked for ${email} (${scope}${scope === 'ip_email' ? ` ${ip}` : ''}) for ${lockSeconds}s`);
+    await SecurityEventService.record('account_locked', {
+      email,
+      user_id: userId,
+      client,
+      details: { scope, failures, lock_seconds: lockSeconds }
+    });
+  }
+
+  private static async increment(key: string): Promise<number> {
+    const results = await redis.multi().incr(key).expire(key, this.FAILURE_WINDOW_SECONDS).exec();
+    return Number(results?.[0]?.[1]) || 0;
+  }
+
+  private static failureKey(scope: LockScope, email: string, ip?: string): string {
+    return scope === 'email' ? `auth:login:failures:email:${email}` : `auth:login:failures:ip_email:${email}:${ip}`;
+  }
+
+  private static lockKey(scope: LockScope, email: string, ip?: string): string {
+    return scope === 'email' ? `auth:login:lock:email:${email}` : `auth:login:lock:ip_email:${email}:${ip}`;
+  }
+
+  private static normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { MfaModel } from '../models/mysql/Mfa';
+import { MfaPolicy, UserRole } from '../types';
+import { ConflictError, ForbiddenError, ValidationError } from '../utils/errors';
+import { generateTotpSecret, totpUri, verifyTotp } from '../utils/totp';
+import { hashToken } from '../utils/tokens';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+export class MfaService {
+  private static CACHE_TTL = 300; // 5 minutes
+  private static RECOVERY_CODE_COUNT = 10;
+  private static ISSUER = process.env.MFA_ISSUER || 'Unite CRM';
+  // AES-256-GCM key for TOTP secrets at rest
+  private static ENCRYPTION_KEY = crypto
+    .createHash('sha256')
+    .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key')
+    .digest();
+
+  /**
+   * Whether MFA is on for a user and whether their role requires it
+   */
+  static async getStatus(
+    userId: number,
+    role: UserRole
+  ): Promise<{ enabled: boolean; required: boolean; recovery_codes_remaining: number }> {
+    const [mfa, required] = await Promise.all([MfaModel.findByUserId(userId), this.isRequired(role)]);
+    const enabled = Boolean(mfa?.enabled_at);
+    return {
+      enabled,
+      required,
+      recovery_codes_remaining: enabled ? await MfaModel.countUnusedRecoveryCodes(userId) : 0
+    };
+  }
+
+  static async isEnabled(userId: number): Promise<boolean> {
+    const mfa = await MfaModel.findByUserId(userId);
+    return Boolean(mfa?.enabled_at);
+  }
+
+  /**
+   * Start enrollment: a new secret for the authenticator app. Restarting replaces a pending secret.
+   */
+  static async beginSetup(user: { id: number; email: string }): Promise<{ secret: string; otpauth_url: string }> {
+    if (await this.isEnabled(user.id)) {
+      throw new ConflictError('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await MfaModel.savePending(user.id, this.encrypt(secret));
+
+    return { secret, otpauth_url: totpUri(secret, user.email, this.ISSUER) };
+  }
+
+  /**
+   * Finish enrollment with a code from the app
+   * @returns Recovery codes, shown only once
+   */
+  static async enable(userId: number, code: string): Promise<{ recovery_codes: string[] }> {
+    const mfa = await MfaModel.findByUserId(userId);
+    if (!mfa) {
+      throw new ValidationError('Start MFA setup first');
+    }
+    if (mfa.enabled_at) {
+      throw new ConflictError('MFA is already enabled');
+    }
+
+    const step = verifyTotp(this.decrypt(mfa.secret_encrypted), code);
+    if (step === null) {
+      throw new ValidationError('Invalid MFA code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    if (!(await MfaModel.enable(userId, step, recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode))))) {
+      throw new ConflictError('MFA is already enabled');
+    }
+
+    logger.info(`MFA enabled for user ${userId}`);
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Turn MFA off; not allowed while the user's role requires it
+   */
+  static async disable(userId: number, role: UserRole, code: string): Promise<void> {
+    if (await this.isRequired(role)) {
+      throw new ForbiddenError(`MFA is required for the ${role} role`);
+    }
+    await this.assertCode(userId, code);
+
+    await MfaModel.delete(userId);
+    logger.info(`MFA disabled for user ${userId}`);
+  }
+
+  /**
+   * Replace the recovery codes (the old ones stop working)
+   */
+  static async regenerateRecoveryCodes(userId: number, code: string): Promise<{ recovery_codes: string[] }> {
+    await this.assertCode(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await MfaModel.replaceRecoveryCodes(userId, recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)));
+
+    logger.info(`MFA recovery codes regenerated for user ${userId}`);
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Remove a user's MFA so they can enroll again (lost device)
+   */
+  static async reset(userId: number): Promise<boolean> {
+    const removed = await MfaModel.delete(userId);
+    if (removed) {
+      logger.info(`MFA reset for user ${userId}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code. Each TOTP step and recovery code works once.
+   */
+  static async verifyCode(userId: number, code: string): Promise<boolean> {
+    const mfa = await MfaModel.findByUserId(userId);
+    if (!mfa?.enabled_at) return false;
+
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      const step = verifyTotp(this.decrypt(mfa.secret_encrypted), trimmed);
+      return step !== null && (await MfaModel.useStep(userId, step));
+    }
+
+    const used = await MfaModel.useRecoveryCode(userId, this.hashRecoveryCode(trimmed));
+    if (used) {
+      logger.warn(`MFA recovery code used by user ${userId}`);
+    }
+    return used;
+  }
+
+  static async getPolicy(): Promise<MfaPolicy> {
+    const cached = await cacheService.get('mfa:policy');
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? (JSON.parse(cached) as MfaPolicy) : cached;
+      } catch (err) {
+        logger.warn(`Failed to parse cached MFA policy: ${(err as Error).message}`);
+      }
+    }
+
+    const policy = await MfaModel.findPolicy();
+    await cacheService.set('mfa:policy', JSON.stringify(policy), this.CACHE_TTL);
+    return policy;
+  }
+
+  /**
+   * Set which roles must use MFA
+   * @returns The new policy and the roles that just became required
+   */
+  static async setPolicy(
+    changes: Partial<MfaPolicy>,
+    actorId: number
+  ): Promise<{ policy: MfaPolicy; newly_required: UserRole[] }> {
+    const current = await MfaModel.findPolicy();
+    const newlyRequired: UserRole[] = [];
+
+    for (const [role, required] of Object.entries(changes) as [UserRole, boolean][]) {
+      if (required && !current[role]) {
+        newlyRequired.push(role);
+      }
+      await MfaModel.setPolicy(role, required, actorId);
+    }
+    await cacheService.del('mfa:policy');
+
+    logger.info(`MFA policy updated by user ${actorId}: ${JSON.stringify(changes)}`);
+    return { policy: await this.getPolicy(), newly_required: newlyRequired };
+  }
+
+  static async isRequired(role: UserRole): Promise<boolean> {
+    const policy = await this.getPolicy();
+    return Boolean(policy[role]);
+  }
+
+  private static async assertCode(userId: number, code: string): Promise<void> {
+    if (!(await this.isEnabled(userId))) {
+      throw new ValidationError('MFA is not enabled');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new ValidationError('Invalid MFA code');
+    }
+  }
+
+  // xxxxx-xxxxx, lowercase hex
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  // Users may type recovery codes without the dash or in upper case
+  private static hashRecoveryCode(code: string): string {
+    return hashToken(code.replace(/[\s-]/g, '').toLowerCase());
+  }
+
+  private static encrypt(plain: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.ENCRYPTION_KEY, iv);
+    const encrypted = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+  }
+
+  private static decrypt(stored: string): string {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+}
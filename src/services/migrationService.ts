@@ -1,3 +1,4 @@
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
 import { mysqlPool } from '../config/database';
 import logger from '../utils/logger';
 
@@ -34,6 +35,7 @@ export class MigrationService {
           role ENUM('admin', 'manager', 'agent') NOT NULL DEFAULT 'agent',
           phone VARCHAR(20),
           is_active BOOLEAN DEFAULT TRUE,
+          token_version INT UNSIGNED NOT NULL DEFAULT 0,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
           INDEX idx_email (email),
@@ -49,18 +51,29 @@ export class MigrationService {
           name VARCHAR(255) NOT NULL,
           phone VARCHAR(20) NOT NULL,
           email VARCHAR(255),
-          status ENUM('new', 'contacted', 'qualified', 'converted') DEFAULT 'new',
+          status VARCHAR(50) DEFAULT 'new',
           source VARCHAR(100),
           assigned_to INT,
           image_url VARCHAR(500),
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          deleted_at TIMESTAMP NULL,
+          merged_into INT NULL,
+          custom_fields JSON NULL,
+          score TINYINT UNSIGNED NOT NULL DEFAULT 0,
+          score_updated_at TIMESTAMP NULL,
+          phone_digits VARCHAR(20) AS (REGEXP_REPLACE(phone, '[^0-9]', '')) STORED INVISIBLE,
           FOREIGN KEY (assigned_to) REFERENCES users(id) ON DELETE SET NULL,
           UNIQUE KEY unique_phone_email (phone, email),
           INDEX idx_status (status),
           INDEX idx_source (source),
           INDEX idx_assigned_to (assigned_to),
-          INDEX idx_created_at (created_at)
+          INDEX idx_created_at (created_at),
+          INDEX idx_updated_at (updated_at),
+          INDEX idx_deleted_at (deleted_at),
+          INDEX idx_phone_digits (phone_digits),
+          INDEX idx_score (score),
+          FULLTEXT INDEX ft_name_email (name, email)
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
       `);
 
@@ -90,33 +103,343 @@ export class MigrationService {
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
       `);
 
-      // Refresh tokens table
-      logger.info('  → CREATE TABLE refresh_tokens');
+      // Login sessions: one row per refresh token family, holding the hash of its current token
+      logger.info('  → CREATE TABLE user_sessions');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS user_sessions (
+          id CHAR(36) PRIMARY KEY,
+          user_id INT NOT NULL,
+          token_hash CHAR(64) NOT NULL,
+          user_agent VARCHAR(255) NULL,
+          ip_address VARCHAR(45) NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          expires_at TIMESTAMP NOT NULL,
+          revoked_at TIMESTAMP NULL,
+          revoked_reason VARCHAR(50) NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          INDEX idx_user_id (user_id),
+          INDEX idx_expires_at (expires_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Earlier releases kept refresh tokens in plaintext; drop them (everyone logs in again once)
+      logger.info('  → DROP TABLE refresh_tokens');
+      await connection.query('DROP TABLE IF EXISTS refresh_tokens');
+
+      // Pipeline stages table
+      logger.info('  → CREATE TABLE pipeline_stages');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS pipeline_stages (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          stage_key VARCHAR(50) UNIQUE NOT NULL,
+          name VARCHAR(100) NOT NULL,
+          position INT NOT NULL,
+          is_terminal BOOLEAN DEFAULT FALSE,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          INDEX idx_position (position)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Pipeline transitions table
+      logger.info('  → CREATE TABLE pipeline_transitions');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS pipeline_transitions (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          from_stage_id INT NOT NULL,
+          to_stage_id INT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (from_stage_id) REFERENCES pipeline_stages(id) ON DELETE CASCADE,
+          FOREIGN KEY (to_stage_id) REFERENCES pipeline_stages(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_transition (from_stage_id, to_stage_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Custom field definitions table
+      logger.info('  → CREATE TABLE custom_field_definitions');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS custom_field_definitions (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          field_key VARCHAR(50) UNIQUE NOT NULL,
+          label VARCHAR(100) NOT NULL,
+          field_type ENUM('text', 'number', 'boolean', 'date', 'enum') NOT NULL,
+          is_required BOOLEAN DEFAULT FALSE,
+          options JSON NULL,
+          validation JSON NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Lead tags table
+      logger.info('  → CREATE TABLE lead_tags');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS lead_tags (
+          lead_id INT NOT NULL,
+          tag VARCHAR(50) NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (lead_id, tag),
+          FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE,
+          INDEX idx_tag (tag)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Saved lead segments table
+      logger.info('  → CREATE TABLE lead_segments');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS lead_segments (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          name VARCHAR(100) UNIQUE NOT NULL,
+          description VARCHAR(255) NULL,
+          filters JSON NOT NULL,
+          created_by INT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Assignment rules table
+      logger.info('  → CREATE TABLE assignment_rules');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS assignment_rules (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          name VARCHAR(100) UNIQUE NOT NULL,
+          priority INT NOT NULL DEFAULT 100,
+          strategy ENUM('round_robin', 'least_loaded') NOT NULL,
+          match_source VARCHAR(100) NULL,
+          match_phone_prefix VARCHAR(20) NULL,
+          agent_ids JSON NULL,
+          is_active BOOLEAN DEFAULT TRUE,
+          last_assigned_agent_id INT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          INDEX idx_priority (priority)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Agent availability table
+      logger.info('  → CREATE TABLE agent_availability');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS agent_availability (
+          user_id INT PRIMARY KEY,
+          status ENUM('available', 'busy', 'on_leave', 'offline') NOT NULL DEFAULT 'available',
+          away_until TIMESTAMP NULL,
+          max_open_leads INT NULL,
+          working_hours JSON NULL,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Lead scoring weights (single row; code defaults apply until saved)
+      logger.info('  → CREATE TABLE lead_scoring_config');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS lead_scoring_config (
+          id TINYINT PRIMARY KEY DEFAULT 1,
+          config JSON NOT NULL,
+          updated_by INT NULL,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Teams: a manager and the agents they manage
+      logger.info('  → CREATE TABLE teams');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS teams (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          name VARCHAR(100) UNIQUE NOT NULL,
+          manager_id INT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (manager_id) REFERENCES users(id) ON DELETE SET NULL,
+          INDEX idx_manager_id (manager_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Team membership (an agent belongs to at most one team)
+      logger.info('  → CREATE TABLE team_members');
       await connection.query(`
-        CREATE TABLE IF NOT EXISTS refresh_tokens (
+        CREATE TABLE IF NOT EXISTS team_members (
+          team_id INT NOT NULL,
+          user_id INT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (team_id, user_id),
+          UNIQUE KEY uniq_user (user_id),
+          FOREIGN KEY (team_id) REFERENCES teams(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Single-use invitations; only a SHA-256 hash of the token is stored
+      logger.info('  → CREATE TABLE user_invites');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS user_invites (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          token_hash CHAR(64) UNIQUE NOT NULL,
+          email VARCHAR(255) NOT NULL,
+          role ENUM('admin', 'manager', 'agent') NOT NULL,
+          phone VARCHAR(20),
+          invited_by INT NULL,
+          expires_at TIMESTAMP NOT NULL,
+          accepted_at TIMESTAMP NULL,
+          accepted_user_id INT NULL,
+          revoked_at TIMESTAMP NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (invited_by) REFERENCES users(id) ON DELETE SET NULL,
+          FOREIGN KEY (accepted_user_id) REFERENCES users(id) ON DELETE SET NULL,
+          INDEX idx_email (email)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Single-use password reset tokens; only a SHA-256 hash of the token is stored
+      logger.info('  → CREATE TABLE password_reset_tokens');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS password_reset_tokens (
           id INT PRIMARY KEY AUTO_INCREMENT,
           user_id INT NOT NULL,
-          token VARCHAR(500) NOT NULL,
+          token_hash CHAR(64) UNIQUE NOT NULL,
           expires_at TIMESTAMP NOT NULL,
+          used_at TIMESTAMP NULL,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-          INDEX idx_token (token(255)),
           INDEX idx_user_id (user_id)
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
       `);
 
-      // Insert admin user
-      logger.info('  → INSERT admin user');
+      // TOTP enrollment; the secret is encrypted with MFA_ENCRYPTION_KEY
+      logger.info('  → CREATE TABLE user_mfa');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS user_mfa (
+          user_id INT PRIMARY KEY,
+          secret_encrypted VARCHAR(255) NOT NULL,
+          enabled_at TIMESTAMP NULL,
+          last_used_step BIGINT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Single-use MFA recovery codes, stored as SHA-256 hashes
+      logger.info('  → CREATE TABLE mfa_recovery_codes');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          user_id INT NOT NULL,
+          code_hash CHAR(64) NOT NULL,
+          used_at TIMESTAMP NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY uniq_user_code (user_id, code_hash)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Roles that must use MFA
+      logger.info('  → CREATE TABLE mfa_policies');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS mfa_policies (
+          role ENUM('admin', 'manager', 'agent') PRIMARY KEY,
+          required BOOLEAN NOT NULL DEFAULT FALSE,
+          updated_by INT NULL,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Login security events (failed logins, lockouts, unlocks) for spotting credential stuffing
+      logger.info('  → CREATE TABLE security_events');
       await connection.query(`
-        INSERT IGNORE INTO users (email, password_hash, role, phone) 
-        VALUES (
-          'admin@unite.com',
-          '$2a$10$rEqN0K5pY8LKxZ5mVQz5dOXKN5yYZ5Y5Y5Y5Y5Y5Y5Y5Y5Y5Y5Y5.',
-          'admin',
-          '+1234567890'
-        )
+        CREATE TABLE IF NOT EXISTS security_events (
+          id BIGINT PRIMARY KEY AUTO_INCREMENT,
+          event_type VARCHAR(50) NOT NULL,
+          email VARCHAR(255) NULL,
+          user_id INT NULL,
+          ip_address VARCHAR(45) NULL,
+          user_agent VARCHAR(255) NULL,
+          details JSON NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+          INDEX idx_type_created (event_type, created_at),
+          INDEX idx_email (email),
+          INDEX idx_ip_address (ip_address),
+          INDEX idx_created_at (created_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
       `);
 
+      // API keys for integrations; requests act as user_id within the key's scopes. Only SHA-256 hashes of keys are stored
+      logger.info('  → CREATE TABLE api_keys');
+      await connection.query(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id INT PRIMARY KEY AUTO_INCREMENT,
+          name VARCHAR(100) NOT NULL,
+          key_prefix VARCHAR(16) NOT NULL,
+          key_hash CHAR(64) UNIQUE NOT NULL,
+          previous_key_hash CHAR(64) NULL,
+          previous_key_expires_at TIMESTAMP NULL,
+          scopes JSON NOT NULL,
+          user_id INT NOT NULL,
+          created_by INT NULL,
+          expires_at TIMESTAMP NULL,
+          last_used_at TIMESTAMP NULL,
+          last_used_ip VARCHAR(45) NULL,
+          rotated_at TIMESTAMP NULL,
+          revoked_at TIMESTAMP NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+          INDEX idx_previous_key_hash (previous_key_hash)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+
+      // Default pipeline (only seeded once so admin edits survive restarts)
+      const [stageRows] = await connection.query<RowDataPacket[]>(
+        'SELECT COUNT(*) AS total FROM pipeline_stages'
+      );
+      if (Number(stageRows[0].total) === 0) {
+        logger.info('  → INSERT default pipeline');
+        await connection.query(`
+          INSERT IGNORE INTO pipeline_stages (stage_key, name, position, is_terminal) VALUES
+            ('new', 'New', 1, FALSE),
+            ('contacted', 'Contacted', 2, FALSE),
+            ('qualified', 'Qualified', 3, FALSE),
+            ('converted', 'Converted', 4, TRUE)
+        `);
+        await connection.query(`
+          INSERT IGNORE INTO pipeline_transitions (from_stage_id, to_stage_id)
+          SELECT f.id, t.id FROM pipeline_stages f JOIN pipeline_stages t
+          WHERE (f.stage_key, t.stage_key) IN (
+            ('new', 'contacted'), ('new', 'qualified'), ('new', 'converted'),
+            ('contacted', 'new'), ('contacted', 'qualified'), ('contacted', 'converted'),
+            ('qualified', 'contacted'), ('qualified', 'converted')
+          )
+        `);
+      }
+
+      // Upgrade tables created by earlier releases
+      await this.addColumnIfMissing(connection, 'leads', 'deleted_at', 'TIMESTAMP NULL');
+      await this.addIndexIfMissing(connection, 'leads', 'idx_deleted_at', '(deleted_at)');
+      await this.addIndexIfMissing(connection, 'leads', 'idx_updated_at', '(updated_at)');
+      await this.addColumnIfMissing(connection, 'leads', 'merged_into', 'INT NULL');
+      await this.addColumnIfMissing(connection, 'leads', 'custom_fields', 'JSON NULL');
+      await this.modifyColumnIfType(connection, 'leads', 'status', 'enum', "VARCHAR(50) DEFAULT 'new'");
+      await this.addColumnIfMissing(
+        connection,
+        'leads',
+        'phone_digits',
+        "VARCHAR(20) AS (REGEXP_REPLACE(phone, '[^0-9]', '')) STORED INVISIBLE"
+      );
+      await this.addIndexIfMissing(connection, 'leads', 'idx_phone_digits', '(phone_digits)');
+      await this.addIndexIfMissing(connection, 'leads', 'ft_name_email', '(name, email)', 'FULLTEXT INDEX');
+      await this.addColumnIfMissing(connection, 'leads', 'score', 'TINYINT UNSIGNED NOT NULL DEFAULT 0');
+      await this.addColumnIfMissing(connection, 'leads', 'score_updated_at', 'TIMESTAMP NULL');
+      await this.addIndexIfMissing(connection, 'leads', 'idx_score', '(score)');
+      await this.addColumnIfMissing(connection, 'users', 'token_version', 'INT UNSIGNED NOT NULL DEFAULT 0');
+
+      // No default admin is seeded; the first one is created with POST /api/auth/bootstrap
+
       logger.info('✅ Migrations completed successfully');
 
     } catch (error: any) {
@@ -132,4 +455,69 @@ export class MigrationService {
       connection.release();
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Add a column to an existing table (CREATE TABLE IF NOT EXISTS won't)
+   */
+  private static async addColumnIfMissing(
+    connection: PoolConnection,
+    table: string,
+    column: string,
+    definition: string
+  ): Promise<void> {
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.COLUMNS
+       WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+      [table, column]
+    );
+
+    if (rows.length === 0) {
+      logger.info(`  → ALTER TABLE ${table} ADD COLUMN ${column}`);
+      await connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * Change a column definition while it still has the given data type
+   */
+  private static async modifyColumnIfType(
+    connection: PoolConnection,
+    table: string,
+    column: string,
+    dataType: string,
+    definition: string
+  ): Promise<void> {
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT DATA_TYPE FROM INFORMATION_SCHEMA.COLUMNS
+       WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+      [table, column]
+    );
+
+    if (rows.length > 0 && String(rows[0].DATA_TYPE).toLowerCase() === dataType) {
+      logger.info(`  → ALTER TABLE ${table} MODIFY COLUMN ${column}`);
+      await connection.query(`ALTER TABLE ${table} MODIFY COLUMN ${column} ${definition}`);
+    }
+  }
+
+  /**
+   * Add an index to an existing table if it is missing
+   */
+  private static async addIndexIfMissing(
+    connection: PoolConnection,
+    table: string,
+    index: string,
+    definition: string,
+    kind: 'INDEX' | 'FULLTEXT INDEX' = 'INDEX'
+  ): Promise<void> {
+    const [rows] = await connection.query<RowDataPacket[]>(
+      `SELECT INDEX_NAME FROM INFORMATION_SCHEMA.STATISTICS
+       WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?`,
+      [table, index]
+    );
+
+    if (rows.length === 0) {
+      logger.info(`  → ALTER TABLE ${table} ADD ${kind} ${index}`);
+      await connection.query(`ALTER TABLE ${table} ADD ${kind} ${index} ${definition}`);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { PipelineStageModel } from '../models/mysql/PipelineStage';
+import { LeadModel } from '../models/mysql/Lead';
+import { IPipelineStage, PipelineTransition } from '../types';
+import { ValidationError, NotFoundError, ConflictError } from '../utils/errors';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+type PipelineConfig = { stages: IPipelineStage[]; transitions: PipelineTransition[] };
+
+export class PipelineService {
+  private static CACHE_KEY = 'pipeline:config';
+  private static CACHE_TTL = 600; // 10 minutes
+
+  /**
+   * Get pipeline stages (in order) and allowed transitions
+   */
+  static async getPipeline(): Promise<PipelineConfig> {
+    const cached = await cacheService.get(this.CACHE_KEY);
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? (JSON.parse(cached) as PipelineConfig) : (cached as PipelineConfig);
+      } catch (err) {
+        logger.warn(`Failed to parse cached pipeline: ${(err as Error).message}`);
+      }
+    }
+
+    const [stages, transitions] = await Promise.all([
+      PipelineStageModel.findAll(),
+      PipelineStageModel.findTransitions()
+    ]);
+
+    const pipeline = { stages, transitions };
+    await cacheService.set(this.CACHE_KEY, JSON.stringify(pipeline), this.CACHE_TTL);
+    return pipeline;
+  }
+
+  /**
+   * Create a new pipeline stage
+   */
+  static async createStage(data: {
+    stage_key: string;
+    name: string;
+    position: number;
+    is_terminal?: boolean;
+  }): Promise<IPipelineStage> {
+    const { stages } = await this.getPipeline();
+    if (stages.some(stage => stage.stage_key === data.stage_key)) {
+      throw new ConflictError(`Pipeline stage '${data.stage_key}' already exists`);
+    }
+
+    const stageId = await PipelineStageModel.create(data);
+    const stage = await PipelineStageModel.findById(stageId);
+    if (!stage) {
+      throw new Error('Failed to create pipeline stage');
+    }
+
+    await this.invalidateCache();
+
+    logger.info(`Pipeline stage created: ${stage.stage_key}`);
+    return stage;
+  }
+
+  /**
+   * Update a pipeline stage
+   */
+  static async updateStage(
+    id: number,
+    data: Partial<Pick<IPipelineStage, 'name' | 'position' | 'is_terminal'>>
+  ): Promise<IPipelineStage> {
+    const existing = await PipelineStageModel.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Pipeline stage not found');
+    }
+
+    await PipelineStageModel.update(id, data);
+    await this.invalidateCache();
+
+    const stage = await PipelineStageModel.findById(id);
+    if (!stage) {
+      throw new Error('Failed to retrieve updated pipeline stage');
+    }
+
+    logger.info(`Pipeline stage updated: ${stage.stage_key}`);
+    return stage;
+  }
+
+  /**
+   * Delete a pipeline stage that no lead is in
+   */
+  static async deleteStage(id: number): Promise<void> {
+    const stage = await PipelineStageModel.findById(id);
+    if (!stage) {
+      throw new NotFoundError('Pipeline stage not found');
+    }
+
+    const leadCount = await LeadModel.countInStatus(stage.stage_key);
+    if (leadCount > 0) {
+      throw new ConflictError(`Cannot delete stage '${stage.stage_key}': ${leadCount} leads are in it`);
+    }
+
+    await PipelineStageModel.delete(id);
+    await this.invalidateCache();
+
+    logger.info(`Pipeline stage deleted: ${stage.stage_key}`);
+  }
+
+  /**
+   * Replace the allowed transition rules
+   */
+  static async setTransitions(transitions: PipelineTransition[]): Promise<PipelineConfig> {
+    const { stages } = await this.getPipeline();
+    const idByKey = new Map(stages.map(stage => [stage.stage_key, stage.id]));
+
+    const rows = transitions.map(({ from, to }) => {
+      const fromId = idByKey.get(from);
+      const toId = idByKey.get(to);
+      if (!fromId || !toId) {
+        throw new ValidationError(`Unknown pipeline stage in transition '${from}' -> '${to}'`);
+      }
+      if (fromId === toId) {
+        throw new ValidationError(`Transition '${from}' -> '${to}' must change stage`);
+      }
+      return { from_stage_id: fromId, to_stage_id: toId };
+    });
+
+    await PipelineStageModel.replaceTransitions(rows);
+    await this.invalidateCache();
+
+    logger.info(`Pipeline transitions replaced (${rows.length} rules)`);
+    return this.getPipeline();
+  }
+
+  /**
+   * Ensure a status is a configured pipeline stage
+   */
+  static async assertStageExists(stageKey: string): Promise<void> {
+    const { stages } = await this.getPipeline();
+    if (!stages.some(stage => stage.stage_key === stageKey)) {
+      throw new ValidationError(`Unknown lead status '${stageKey}'`);
+    }
+  }
+
+  /**
+   * Enforce transition rules for a status change; backward moves need a reason
+   */
+  static async validateTransition(from: string, to: string, reason?: string): Promise<void> {
+    const { stages, transitions } = await this.getPipeline();
+    const fromStage = stages.find(stage => stage.stage_key === from);
+    const toStage = stages.find(stage => stage.stage_key === to);
+
+    if (!toStage) {
+      throw new ValidationError(`Unknown lead status '${to}'`);
+    }
+
+    // Leads in a stage that was since removed can move anywhere
+    if (!fromStage) return;
+
+    if (fromStage.is_terminal) {
+      throw new ValidationError(`Leads in '${from}' cannot change status`);
+    }
+
+    if (!transitions.some(rule => rule.from === from && rule.to === to)) {
+      throw new ValidationError(`Cannot move lead from '${from}' to '${to}'`);
+    }
+
+    if (toStage.position < fromStage.position && !reason?.trim()) {
+      throw new ValidationError('A reason is required when moving a lead back in the pipeline');
+    }
+  }
+
+  private static async invalidateCache(): Promise<void> {
+    await cacheService.del(this.CACHE_KEY);
+    await cacheService.flushPattern('leads:*');
+  }
+}
@@ -1,7 +1,8 @@
 import { CallTaskModel } from '../models/mysql/CallTask';
 import { UserModel } from '../models/mysql/User';
 import { CallLog } from '../models/mongodb/CallLog';
-import { DailySummary, AgentStats } from '../types';
+import { TeamService } from './teamService';
+import { Actor, DailySummary, AgentStats } from '../types';
 import { cacheService } from '../config/redis';
 import logger from '../utils/logger';
 
@@ -16,8 +17,10 @@ type PerAgentSummary = {
 
 export class ReportService {
  
-  static async getDailySummary(date: string): Promise<DailySummary> {
-    const cacheKey = `report:daily:${date}`;
+  static async getDailySummary(date: string, actor?: Actor): Promise<DailySummary> {
+    // Managers only see their teams' agents
+    const agentIds = await TeamService.managedAgentIds(actor);
+    const cacheKey = `report:daily:${date}${this.scopeSuffix(actor, agentIds)}`;
     const cached = await cacheService.get(cacheKey);
     if (cached) {
       try {
@@ -37,6 +40,7 @@ export class ReportService {
 
     for (const row of summaryRows) {
       const agentId = Number(row.agent_id);
+      if (agentIds && !agentIds.includes(agentId)) continue;
       const agent = await UserModel.findById(agentId);
       if (!agent) continue;
 
@@ -88,7 +92,8 @@ export class ReportService {
   static async getAgentPerformanceReport(
     agentId: number,
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    actor?: Actor
   ): Promise<
     AgentStats & {
       agent_id: number;
@@ -97,6 +102,8 @@ export class ReportService {
       total_call_time_minutes: number;
     }
   > {
+    await TeamService.assertCanManage(agentId, actor);
+
     const cacheKey = `report:agent:${agentId}:${startDate.toISOString()}:${endDate.toISOString()}`;
     const cached = await cacheService.get(cacheKey);
     if (cached) {
@@ -175,7 +182,7 @@ export class ReportService {
     return report as any;
   }
 
-  static async getTeamPerformanceOverview(startDate: string, endDate: string): Promise<{
+  static async getTeamPerformanceOverview(startDate: string, endDate: string, actor?: Actor): Promise<{
     total_agents: number;
     total_calls: number;
     completed: number;
@@ -183,7 +190,8 @@ export class ReportService {
     completion_percentage: number;
     top_performers: AgentStats[];
   }> {
-    const cacheKey = `report:team:${startDate}:${endDate}`;
+    const agentIds = await TeamService.managedAgentIds(actor);
+    const cacheKey = `report:team:${startDate}:${endDate}${this.scopeSuffix(actor, agentIds)}`;
     const cached = await cacheService.get(cacheKey);
     if (cached) {
       try {
@@ -193,7 +201,7 @@ export class ReportService {
       }
     }
 
-    const agents = await UserModel.findAgents();
+    const agents = (await UserModel.findAgents()).filter(agent => !agentIds || agentIds.includes(agent.id));
     const agentStats: AgentStats[] = [];
     let totalCalls = 0;
     let totalCompleted = 0;
@@ -235,8 +243,9 @@ export class ReportService {
     return overview;
   }
 
-  static async getCallVolumeTrends(): Promise<Array<{ date: string; total_calls: number; completed: number; missed: number }>> {
-    const cacheKey = 'report:trends:7days';
+  static async getCallVolumeTrends(actor?: Actor): Promise<Array<{ date: string; total_calls: number; completed: number; missed: number }>> {
+    const agentIds = await TeamService.managedAgentIds(actor);
+    const cacheKey = `report:trends:7days${this.scopeSuffix(actor, agentIds)}`;
     const cached = await cacheService.get(cacheKey);
     if (cached) {
       try {
@@ -253,7 +262,7 @@ export class ReportService {
       const date = new Date(today);
       date.setDate(date.getDate() - i);
       const dateString = date.toISOString().split('T')[0];
-      const summary = await this.getDailySummary(dateString);
+      const summary = await this.getDailySummary(dateString, actor);
       trends.push({
         date: dateString,
         total_calls: summary.total_calls,
@@ -265,4 +274,9 @@ export class ReportService {
     await cacheService.set(cacheKey, JSON.stringify(trends), 3600);
     return trends;
   }
+
+  // Team-scoped reports are cached per manager
+  private static scopeSuffix(actor: Actor | undefined, agentIds: number[] | undefined): string {
+    return agentIds && actor ? `:user:${actor.id}` : '';
+  }
 }
@@ -2,6 +2,7 @@ import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { s3Client, AWS_CONFIG } from '../config/aws';
 import { v4 as uuidv4 } from 'uuid';
+import fs from 'fs';
 import logger from '../utils/logger';
 
 type ImageUploadResult = {
@@ -147,4 +148,35 @@ export class S3Service {
       throw err;
     }
   }
+
+  /**
+   * Upload a local file to S3 as a stream (the file is never read into memory)
+   * @param filePath local file path
+   * @param key destination key in bucket
+   * @param contentType mime type
+   * @param bucket bucket name
+   */
+  static async uploadFile(
+    filePath: string,
+    key: string,
+    contentType: string,
+    bucket: string
+  ): Promise<void> {
+    try {
+      const { size } = await fs.promises.stat(filePath);
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: fs.createReadStream(filePath),
+        ContentLength: size,
+        ContentType: contentType
+      });
+
+      await (s3Client as S3Client).send(command);
+      logger.info(`Uploaded file to S3: ${bucket}/${key} (${size} bytes)`);
+    } catch (err) {
+      logger.error(`uploadFile error for ${bucket}/${key}: ${(err as Error).message}`);
+      throw err;
+    }
+  }
 }
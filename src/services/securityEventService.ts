@@ -0,0 +1,48 @@
+import { SecurityEventModel } from '../models/mysql/SecurityEvent';
+import {
+  ClientInfo,
+  ISecurityEvent,
+  SecurityEventFilters,
+  SecurityEventType,
+  SuspiciousIp
+} from '../types';
+import logger from '../utils/logger';
+
+export class SecurityEventService {
+  private static RETENTION_DAYS = parseInt(process.env.SECURITY_EVENT_RETENTION_DAYS || '90');
+
+  /**
+   * Record an event. Never throws, so a failed insert can't break the login it describes.
+   */
+  static async record(
+    eventType: SecurityEventType,
+    data: { email?: string; user_id?: number; client?: ClientInfo; details?: Record<string, any> } = {}
+  ): Promise<void> {
+    try {
+      await SecurityEventModel.create({ event_type: eventType, ...data });
+    } catch (error) {
+      logger.error(`Failed to record security event ${eventType}:`, error);
+    }
+  }
+
+  static async listEvents(
+    filters: SecurityEventFilters,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<{ events: ISecurityEvent[]; total: number; page: number; totalPages: number }> {
+    const { events, total } = await SecurityEventModel.findAll(filters, { page, limit, offset: (page - 1) * limit });
+    return { events, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * IPs with the most failed logins in the last hours. Many distinct emails from one IP
+   * points at credential stuffing rather than a user who forgot their password.
+   */
+  static async getSuspiciousIps(hours: number = 24, limit: number = 20): Promise<SuspiciousIp[]> {
+    return SecurityEventModel.findSuspiciousIps(new Date(Date.now() - hours * 60 * 60 * 1000), limit);
+  }
+
+  static async cleanup(): Promise<number> {
+    return SecurityEventModel.deleteOlderThan(this.RETENTION_DAYS);
+  }
+}
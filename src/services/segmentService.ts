@@ -0,0 +1,109 @@
+import { LeadSegmentModel } from '../models/mysql/LeadSegment';
+import { LeadService } from './leadService';
+import { PipelineService } from './pipelineService';
+import { CustomFieldService } from './customFieldService';
+import { Actor, ILeadSegment, LeadFilters, LeadListOptions, LeadPage } from '../types';
+import { NotFoundError, ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export class SegmentService {
+  /**
+   * List saved segments
+   */
+  static async listSegments(): Promise<ILeadSegment[]> {
+    return LeadSegmentModel.findAll();
+  }
+
+  /**
+   * Get segment by ID
+   */
+  static async getSegment(id: number): Promise<ILeadSegment> {
+    const segment = await LeadSegmentModel.findById(id);
+    if (!segment) {
+      throw new NotFoundError('Segment not found');
+    }
+    return segment;
+  }
+
+  /**
+   * Create a saved segment
+   */
+  static async createSegment(
+    data: { name: string; description?: string; filters: LeadFilters },
+    userId: number
+  ): Promise<ILeadSegment> {
+    if (await LeadSegmentModel.findByName(data.name)) {
+      throw new ConflictError(`Segment '${data.name}' already exists`);
+    }
+
+    await this.assertFilters(data.filters);
+
+    const id = await LeadSegmentModel.create({ ...data, created_by: userId });
+    const segment = await LeadSegmentModel.findById(id);
+    if (!segment) {
+      throw new Error('Failed to create segment');
+    }
+
+    logger.info(`Lead segment created: ${segment.name} by user ${userId}`);
+    return segment;
+  }
+
+  /**
+   * Update a saved segment
+   */
+  static async updateSegment(
+    id: number,
+    data: Partial<Pick<ILeadSegment, 'name' | 'description' | 'filters'>>
+  ): Promise<ILeadSegment> {
+    const existing = await this.getSegment(id);
+
+    if (data.name && data.name !== existing.name && (await LeadSegmentModel.findByName(data.name))) {
+      throw new ConflictError(`Segment '${data.name}' already exists`);
+    }
+    if (data.filters) {
+      await this.assertFilters(data.filters);
+    }
+
+    await LeadSegmentModel.update(id, data);
+    return this.getSegment(id);
+  }
+
+  /**
+   * Delete a saved segment
+   */
+  static async deleteSegment(id: number): Promise<void> {
+    const deleted = await LeadSegmentModel.delete(id);
+    if (!deleted) {
+      throw new NotFoundError('Segment not found');
+    }
+
+    logger.info(`Lead segment deleted: ${id}`);
+  }
+
+  /**
+   * Resolve a segment's filters into a page of leads
+   */
+  static async getSegmentLeads(
+    id: number,
+    page: number = 1,
+    limit: number = 20,
+    options: Pick<LeadListOptions, 'cursor' | 'include_total'> = {},
+    actor?: Actor
+  ): Promise<LeadPage & { segment: ILeadSegment }> {
+    const segment = await this.getSegment(id);
+    const result = await LeadService.getLeads(segment.filters, page, limit, options, actor);
+    return { segment, ...result };
+  }
+
+  /**
+   * Reject filters that reference unknown stages or custom fields
+   */
+  private static async assertFilters(filters: LeadFilters): Promise<void> {
+    for (const status of ([] as string[]).concat(filters.status ?? [])) {
+      await PipelineService.assertStageExists(status);
+    }
+    if (filters.custom_fields) {
+      await CustomFieldService.assertFilterKeys(filters.custom_fields);
+    }
+  }
+}
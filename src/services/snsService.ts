@@ -134,6 +134,32 @@ export class SNSService {
     await this.publishNotification(message, subject, attributes);
   }
 
+  /**
+   * Publish a password reset for the email channel (subscribers deliver to `email`)
+   */
+  static async notifyPasswordReset(data: {
+    email: string;
+    token: string;
+    expiresInMinutes: number;
+  }): Promise<PublishResult> {
+    const message = [
+      'A password reset was requested for your account.',
+      '',
+      `Reset code: ${data.token}`,
+      '',
+      `It expires in ${data.expiresInMinutes} minutes. If you did not ask for a reset, ignore this message.`
+    ].join('\n');
+
+    const subject = 'Password Reset';
+    const attributes: MessageAttributesInput = {
+      event_type: 'password_reset',
+      channel: 'email',
+      email: data.email
+    };
+
+    return this.publishNotification(message, subject, attributes);
+  }
+
   /**
    * Build SNS message attributes from a flat string record
    */
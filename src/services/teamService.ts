@@ -0,0 +1,188 @@
+import { TeamModel } from '../models/mysql/Team';
+import { UserModel } from '../models/mysql/User';
+import { Actor, ITeam, UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+type TeamInput = {
+  name: string;
+  manager_id?: number | null;
+  member_ids?: number[];
+};
+
+export class TeamService {
+  private static CACHE_TTL = 300; // 5 minutes
+
+  /**
+   * List teams; managers only see the teams they run
+   */
+  static async listTeams(actor: Actor): Promise<ITeam[]> {
+    return TeamModel.findAll(actor.role === UserRole.MANAGER ? actor.id : undefined);
+  }
+
+  /**
+   * Get a team; managers may only view their own
+   */
+  static async getTeam(id: number, actor?: Actor): Promise<ITeam> {
+    const team = await TeamModel.findById(id);
+    if (!team) {
+      throw new NotFoundError('Team not found');
+    }
+    if (actor?.role === UserRole.MANAGER && team.manager_id !== actor.id) {
+      throw new ForbiddenError('You can only view your own teams');
+    }
+    return team;
+  }
+
+  /**
+   * Create a team
+   */
+  static async createTeam(data: TeamInput): Promise<ITeam> {
+    const teams = await TeamModel.findAll();
+    if (teams.some(team => team.name === data.name)) {
+      throw new ConflictError(`Team '${data.name}' already exists`);
+    }
+
+    await this.assertManager(data.manager_id);
+    await this.assertMembers(data.member_ids);
+
+    const id = await TeamModel.create(data);
+    const team = await TeamModel.findById(id);
+    if (!team) {
+      throw new Error('Failed to create team');
+    }
+
+    await this.invalidateCaches();
+
+    logger.info(`Team created: ${team.name}`);
+    return team;
+  }
+
+  /**
+   * Update a team; `member_ids` replaces the membership
+   */
+  static async updateTeam(id: number, data: Partial<TeamInput>): Promise<ITeam> {
+    const existing = await TeamModel.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Team not found');
+    }
+
+    if (data.name && data.name !== existing.name) {
+      const teams = await TeamModel.findAll();
+      if (teams.some(team => team.name === data.name)) {
+        throw new ConflictError(`Team '${data.name}' already exists`);
+      }
+    }
+
+    await this.assertManager(data.manager_id);
+    await this.assertMembers(data.member_ids, id);
+
+    await TeamModel.update(id, data);
+    await this.invalidateCaches();
+
+    const team = await TeamModel.findById(id);
+    if (!team) {
+      throw new Error('Failed to retrieve updated team');
+    }
+    return team;
+  }
+
+  /**
+   * Delete a team; its agents are left without a team
+   */
+  static async deleteTeam(id: number): Promise<void> {
+    const deleted = await TeamModel.delete(id);
+    if (!deleted) {
+      throw new NotFoundError('Team not found');
+    }
+
+    await this.invalidateCaches();
+    logger.info(`Team deleted: ${id}`);
+  }
+
+  /**
+   * Take a user out of their team and unset them as manager (e.g. after a role change)
+   */
+  static async releaseUser(userId: number): Promise<void> {
+    await TeamModel.removeUser(userId);
+    await this.invalidateCaches();
+  }
+
+  /**
+   * Agents a user may manage: undefined for admins and internal callers (everyone),
+   * the members of their teams for managers, and only themselves for agents
+   */
+  static async managedAgentIds(actor?: Actor): Promise<number[] | undefined> {
+    if (!actor || actor.role === UserRole.ADMIN) {
+      return undefined;
+    }
+    if (actor.role === UserRole.AGENT) {
+      return [actor.id];
+    }
+
+    const cacheKey = `teams:managed:${actor.id}`;
+    const cached = await cacheService.get(cacheKey);
+    if (cached) {
+      try {
+        return typeof cached === 'string' ? (JSON.parse(cached) as number[]) : cached;
+      } catch (err) {
+        logger.warn(`Failed to parse cached team members ${cacheKey}: ${(err as Error).message}`);
+      }
+    }
+
+    const memberIds = await TeamModel.findMemberIdsByManager(actor.id);
+    await cacheService.set(cacheKey, JSON.stringify(memberIds), this.CACHE_TTL);
+    return memberIds;
+  }
+
+  /**
+   * Throw unless the user may give work to this agent (managers: their own team or themselves)
+   */
+  static async assertCanManage(agentId: number, actor?: Actor): Promise<void> {
+    if (!actor || actor.id === agentId) return;
+
+    const agentIds = await this.managedAgentIds(actor);
+    if (agentIds && !agentIds.includes(agentId)) {
+      throw new ForbiddenError('You can only manage agents in your team');
+    }
+  }
+
+  // Team-scoped reports are cached per manager, so they go stale with the membership
+  private static async invalidateCaches(): Promise<void> {
+    await cacheService.flushPattern('teams:*');
+    await cacheService.flushPattern('report:*');
+  }
+
+  private static async assertManager(managerId?: number | null): Promise<void> {
+    if (!managerId) return;
+
+    const manager = await UserModel.findById(managerId);
+    if (!manager) {
+      throw new ValidationError(`Manager ${managerId} not found`);
+    }
+    if (manager.role === UserRole.AGENT) {
+      throw new ValidationError(`User ${managerId} is an agent and cannot manage a team`);
+    }
+  }
+
+  // Members must be active agents who are not already in another team
+  private static async assertMembers(memberIds?: number[], teamId?: number): Promise<void> {
+    if (!memberIds || memberIds.length === 0) return;
+
+    const agentIds = new Set((await UserModel.findAgents()).map(agent => agent.id));
+    const invalid = memberIds.filter(id => !agentIds.has(id));
+    if (invalid.length > 0) {
+      throw new ValidationError(`Team members must be active agents: ${invalid.join(', ')}`);
+    }
+
+    const current = await TeamModel.findTeamIdsByUsers(memberIds);
+    const taken = memberIds.filter(id => current[id] !== undefined && current[id] !== teamId);
+    if (taken.length > 0) {
+      throw new ConflictError(
+        `Agents already belong to another team: ${taken.join(', ')}`,
+        { team_ids: Object.fromEntries(taken.map(id => [id, current[id]])) }
+      );
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { UserModel } from '../models/mysql/User';
+import { UserSessionModel } from '../models/mysql/UserSession';
+import { JWTPayload } from '../types';
+import { redis, cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+/**
+ * Revocation of access tokens before they expire. A token is rejected when its `jti`
+ * or its session is on the Redis denylist, or when it was issued before the user's
+ * token version was bumped. `authenticate` checks all three with one Redis round trip,
+ * and falls back to the session and token version in MySQL when Redis fails.
+ */
+export class TokenRevocationService {
+  private static VERSION_CACHE_TTL = 60 * 60; // 1 hour
+  // Longest an access token can live, so denylist entries can expire with it
+  private static ACCESS_TOKEN_TTL = TokenRevocationService.durationToSeconds(process.env.JWT_EXPIRES_IN || '15m');
+
+  /**
+   * Revoke one access token until it expires
+   */
+  static async revokeToken(jti: string, exp?: number): Promise<void> {
+    const ttl = exp ? exp - Math.floor(Date.now() / 1000) : this.ACCESS_TOKEN_TTL;
+    if (ttl > 0) {
+      await cacheService.set(`auth:revoked:jti:${jti}`, 1, ttl);
+    }
+  }
+
+  /**
+   * Revoke the access tokens already issued for these sessions
+   */
+  static async revokeSessions(sessionIds: string[]): Promise<void> {
+    await Promise.all(
+      sessionIds.map(sid => cacheService.set(`auth:revoked:sid:${sid}`, 1, this.ACCESS_TOKEN_TTL))
+    );
+  }
+
+  /**
+   * Invalidate every access token of a user (role change, deactivation, forced logout)
+   */
+  static async bumpTokenVersion(userId: number): Promise<number> {
+    const version = await UserModel.incrementTokenVersion(userId);
+    await cacheService.set(`auth:token_version:${userId}`, version, this.VERSION_CACHE_TTL);
+
+    logger.info(`Access tokens of user ${userId} revoked (token version ${version})`);
+    return version;
+  }
+
+  static async getTokenVersion(userId: number): Promise<number> {
+    const cached = await cacheService.get(`auth:token_version:${userId}`);
+    if (cached !== null) {
+      return Number(cached);
+    }
+    return this.loadTokenVersion(userId);
+  }
+
+  /**
+   * Whether a verified access token has been revoked
+   */
+  static async isRevoked(payload: JWTPayload): Promise<boolean> {
+    const keys = [`auth:token_version:${payload.id}`];
+    if (payload.jti) keys.push(`auth:revoked:jti:${payload.jti}`);
+    if (payload.sid) keys.push(`auth:revoked:sid:${payload.sid}`);
+
+    // Read Redis directly: cacheService hides errors as misses, which would let revoked tokens through
+    let cached: (string | null)[];
+    try {
+      cached = await redis.mget(...keys);
+    } catch (error) {
+      logger.warn(`Token denylist unavailable, checking revocation in MySQL: ${(error as Error).message}`);
+      return this.isRevokedInDatabase(payload);
+    }
+
+    const [cachedVersion, ...denied] = cached;
+    if (denied.some(entry => entry !== null)) {
+      return true;
+    }
+
+    // Tokens from before versioning carry no `ver` and count as version 0
+    const version = cachedVersion !== null ? Number(cachedVersion) : await this.loadTokenVersion(payload.id);
+    return (payload.ver ?? 0) !== version;
+  }
+
+  /**
+   * Slower check while Redis is down. Revoked `jti`s live only in Redis, but logging out
+   * also revokes the session, so the token's session must still be live.
+   */
+  private static async isRevokedInDatabase(payload: JWTPayload): Promise<boolean> {
+    if (!payload.sid) return true;
+
+    const [session, version] = await Promise.all([
+      UserSessionModel.findById(payload.sid),
+      UserModel.getTokenVersion(payload.id)
+    ]);
+    return !session || session.revoked_at !== null || (payload.ver ?? 0) !== (version ?? 0);
+  }
+
+  private static async loadTokenVersion(userId: number): Promise<number> {
+    const version = (await UserModel.getTokenVersion(userId)) ?? 0;
+    await cacheService.set(`auth:token_version:${userId}`, version, this.VERSION_CACHE_TTL);
+    return version;
+  }
+
+  // "15m", "1h", "7d" or plain seconds, as accepted by JWT_EXPIRES_IN
+  private static durationToSeconds(value: string): number {
+    const match = /^(\d+)\s*([smhd]?)$/.exec(value.trim());
+    if (!match) return 24 * 60 * 60;
+
+    const units: Record<string, number> = { '': 1, s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+    return Number(match[1]) * units[match[2]];
+  }
+}
@@ -165,6 +165,18 @@ export class TwilioService {
     }
 
 
+    static async sendPasswordResetSMS(data: {
+        phone: string;
+        token: string;
+        expiresInMinutes: number;
+        userId?: number;
+    }): Promise<SendSMSResult> {
+        const message = `Your password reset code is:\n\n${data.token}\n\nIt expires in ${data.expiresInMinutes} minutes. If you did not ask for a reset, ignore this message.`;
+
+        return this.sendSMS(data.phone, message, { agent_id: data.userId });
+    }
+
+
     static async retryFailedMessages(maxRetries: number = 3): Promise<number> {
         const failedLogs = await NotificationLog.find({
             type: 'sms',
@@ -0,0 +1,205 @@
+import { UserModel } from '../models/mysql/User';
+import { CallTaskModel } from '../models/mysql/CallTask';
+import { LeadModel } from '../models/mysql/Lead';
+import { AuthService } from './authService';
+import { LeadService } from './leadService';
+import { PipelineService } from './pipelineService';
+import { TeamService } from './teamService';
+import { MfaService } from './mfaService';
+import { LoginProtectionService } from './loginProtectionService';
+import { AuditContext, IUser, UpdateUserInput, UserFilters, UserRole } from '../types';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { cacheService } from '../config/redis';
+import logger from '../utils/logger';
+
+type SafeUser = Omit<IUser, 'password_hash'>;
+
+export class UserService {
+  /**
+   * List users (active and inactive) with filters and pagination
+   */
+  static async listUsers(
+    filters: UserFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ users: SafeUser[]; total: number; page: number; totalPages: number }> {
+    const { users, total } = await UserModel.findAll(filters, { page, limit, offset: (page - 1) * limit });
+    return { users, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Get a user (active or not)
+   */
+  static async getUser(id: number): Promise<SafeUser> {
+    const user = await UserModel.findByIdSafe(id, true);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    return { ...user, is_active: Boolean(user.is_active) };
+  }
+
+  /**
+   * Edit a user's email or phone
+   */
+  static async updateProfile(id: number, data: Pick<UpdateUserInput, 'email' | 'phone'>): Promise<SafeUser> {
+    const existing = await this.getUser(id);
+
+    if (data.email && data.email !== existing.email && (await UserModel.emailExists(data.email))) {
+      throw new ConflictError('User with this email already exists');
+    }
+
+    await UserModel.update(id, data);
+
+    logger.info(`User updated: ${id}`);
+    return this.getUser(id);
+  }
+
+  /**
+   * Change a user's role. Their sessions are revoked so new tokens carry the new role,
+   * and they leave any team they were in or managed.
+   */
+  static async changeRole(id: number, role: UserRole, actorId: number): Promise<SafeUser> {
+    const existing = await this.getUser(id);
+    if (existing.role === role) {
+      return existing;
+    }
+    if (id === actorId) {
+      throw new ValidationError('You cannot change your own role');
+    }
+    if (existing.role === UserRole.ADMIN && existing.is_active) {
+      await this.assertNotLastAdmin();
+    }
+
+    await UserModel.update(id, { role });
+    await TeamService.releaseUser(id);
+    await AuthService.revokeAllRefreshTokens(id);
+
+    logger.info(`User ${id} role changed from ${existing.role} to ${role}`);
+    return this.getUser(id);
+  }
+
+  /**
+   * Deactivate a user and revoke their sessions. With `reassignTo`, their open leads
+   * and pending call tasks move to that agent first; otherwise the counts are returned
+   * so they can be handed out later.
+   */
+  static async deactivateUser(
+    id: number,
+    reassignTo: number | undefined,
+    context: AuditContext
+  ): Promise<{
+    user: SafeUser;
+    sessions_revoked: number;
+    open_leads: number;
+    pending_tasks: number;
+    reassigned: { agent_id: number; leads: number; leads_failed: number; tasks: number } | null;
+  }> {
+    const existing = await this.getUser(id);
+    if (!existing.is_active) {
+      throw new ConflictError('User is already deactivated');
+    }
+    if (id === context.user_id) {
+      throw new ValidationError('You cannot deactivate your own account');
+    }
+    if (existing.role === UserRole.ADMIN) {
+      await this.assertNotLastAdmin();
+    }
+    if (reassignTo !== undefined) {
+      const target = await UserModel.findById(reassignTo);
+      if (!target || target.role !== UserRole.AGENT || reassignTo === id) {
+        throw new ValidationError('Work can only be reassigned to another active agent');
+      }
+    }
+
+    const openStatuses = await this.openStatuses();
+    let reassigned = null;
+    if (reassignTo !== undefined) {
+      // Bulk assignment keeps the audit trail and the target's capacity limit
+      const leads = await LeadService.bulkUpdateLeads(
+        { action: 'assign', agent_id: reassignTo, filters: { assigned_to: id, status: openStatuses } },
+        { ...context, reason: `User ${id} deactivated` }
+      );
+      const tasks = await CallTaskModel.reassignPending(id, reassignTo);
+      await cacheService.flushPattern('call_tasks:*');
+      reassigned = { agent_id: reassignTo, leads: leads.succeeded, leads_failed: leads.failed, tasks };
+    }
+
+    await UserModel.softDelete(id);
+    await TeamService.releaseUser(id);
+    const sessionsRevoked = await AuthService.revokeAllRefreshTokens(id);
+
+    const [openLeads, pendingTasks] = await Promise.all([
+      LeadModel.count({ assigned_to: id, status: openStatuses }),
+      CallTaskModel.countPendingByAgents([id])
+    ]);
+
+    logger.info(`User deactivated: ${id}`);
+    return {
+      user: await this.getUser(id),
+      sessions_revoked: sessionsRevoked,
+      open_leads: openLeads,
+      pending_tasks: pendingTasks[id] ?? 0,
+      reassigned
+    };
+  }
+
+  /**
+   * Reactivate a deactivated user
+   */
+  static async reactivateUser(id: number): Promise<SafeUser> {
+    const existing = await this.getUser(id);
+    if (existing.is_active) {
+      throw new ConflictError('User is already active');
+    }
+
+    await UserModel.reactivate(id);
+
+    logger.info(`User reactivated: ${id}`);
+    return this.getUser(id);
+  }
+
+  /**
+   * Forced logout: revoke every refresh token of a user
+   */
+  static async logoutUser(id: number): Promise<{ sessions_revoked: number }> {
+    await this.getUser(id);
+    const sessionsRevoked = await AuthService.revokeAllRefreshTokens(id);
+
+    logger.info(`User ${id} logged out by an admin (${sessionsRevoked} sessions)`);
+    return { sessions_revoked: sessionsRevoked };
+  }
+
+  /**
+   * Remove a user's MFA (lost device) and revoke their sessions; they enroll again at next login
+   */
+  static async resetMfa(id: number): Promise<{ mfa_reset: boolean; sessions_revoked: number }> {
+    await this.getUser(id);
+    const reset = await MfaService.reset(id);
+    const sessionsRevoked = await AuthService.revokeAllRefreshTokens(id);
+
+    logger.info(`MFA of user ${id} reset by an admin`);
+    return { mfa_reset: reset, sessions_revoked: sessionsRevoked };
+  }
+
+  /**
+   * Clear a user's login lockout (account-wide and per IP)
+   */
+  static async unlockLogin(id: number, actorId: number): Promise<{ unlocked: true }> {
+    const user = await this.getUser(id);
+    await LoginProtectionService.unlock(user.email, actorId, id);
+    return { unlocked: true };
+  }
+
+  private static async assertNotLastAdmin(): Promise<void> {
+    const counts = await UserModel.countByRole();
+    if (counts[UserRole.ADMIN] <= 1) {
+      throw new ConflictError('At least one active admin is required');
+    }
+  }
+
+  // Leads in these stages still need an owner
+  private static async openStatuses(): Promise<string[]> {
+    const { stages } = await PipelineService.getPipeline();
+    return stages.filter(stage => !stage.is_terminal).map(stage => stage.stage_key);
+  }
+}
@@ -6,6 +6,7 @@ export enum UserRole {
     AGENT = 'agent'
 }
 
+/** Stages seeded into the default pipeline; admins can add more (see IPipelineStage) */
 export enum LeadStatus {
     NEW = 'new',
     CONTACTED = 'contacted',
@@ -43,6 +44,110 @@ export interface UpdateUserInput {
     role?: UserRole;
 }
 
+export interface IUserInvite {
+    id: number;
+    email: string;
+    role: UserRole;
+    phone: string | null;
+    invited_by: number | null;
+    expires_at: Date;
+    accepted_at: Date | null;
+    accepted_user_id: number | null;
+    revoked_at: Date | null;
+    created_at: Date;
+}
+
+export interface IUserMfa {
+    user_id: number;
+    secret_encrypted: string;
+    enabled_at: Date | null;
+    last_used_step: number | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/** Whether each role must use MFA */
+export type MfaPolicy = Record<UserRole, boolean>;
+
+export interface IUserSession {
+    id: string;
+    user_id: number;
+    user_agent: string | null;
+    ip_address: string | null;
+    created_at: Date;
+    last_used_at: Date;
+    expires_at: Date;
+    revoked_at: Date | null;
+    revoked_reason: string | null;
+}
+
+/** Device a login comes from, recorded on its session */
+export interface ClientInfo {
+    user_agent?: string;
+    ip_address?: string;
+}
+
+/** What an API key may do */
+export const API_KEY_SCOPES = ['leads:read', 'leads:write', 'tasks:read', 'tasks:write'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey {
+    id: number;
+    name: string;
+    /** First characters of the key, to tell keys apart */
+    key_prefix: string;
+    scopes: ApiKeyScope[];
+    /** User the key's requests act as */
+    user_id: number;
+    created_by: number | null;
+    expires_at: Date | null;
+    last_used_at: Date | null;
+    last_used_ip: string | null;
+    rotated_at: Date | null;
+    /** Until when the key replaced by the last rotation still works */
+    previous_key_expires_at: Date | null;
+    revoked_at: Date | null;
+    created_at: Date;
+}
+
+export type SecurityEventType = 'login_failed' | 'login_blocked' | 'account_locked' | 'account_unlocked';
+
+export interface ISecurityEvent {
+    id: number;
+    event_type: SecurityEventType;
+    email: string | null;
+    user_id: number | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    details: Record<string, any> | null;
+    created_at: Date;
+}
+
+export interface SecurityEventFilters {
+    event_type?: SecurityEventType;
+    email?: string;
+    user_id?: number;
+    ip_address?: string;
+    from?: Date;
+    to?: Date;
+}
+
+/** IP with many failed logins, often across many accounts (credential stuffing) */
+export interface SuspiciousIp {
+    ip_address: string;
+    failed_logins: number;
+    distinct_emails: number;
+    last_attempt_at: Date;
+}
+
+export interface UserFilters {
+    role?: UserRole;
+    is_active?: boolean;
+    /** Substring of the email or phone */
+    search?: string;
+}
+
 export type SafeUser = Omit<IUser, 'password_hash'>;
 
 export interface ILead {
@@ -50,12 +155,19 @@ export interface ILead {
     name: string;
     phone: string;
     email?: string;
-    status: LeadStatus;
+    status: string;
     source?: string;
     assigned_to?: number;
     image_url?: string;
     created_at: Date;
     updated_at: Date;
+    deleted_at?: Date | null;
+    merged_into?: number | null;
+    custom_fields?: Record<string, any> | null;
+    tags?: string[];
+    /** 0-100, computed by LeadScoringService */
+    score?: number;
+    score_updated_at?: Date | null;
 }
 
 export interface ICallTask {
@@ -78,6 +190,15 @@ export interface AuthRequest extends Request {
         id: number;
         email: string;
         role: UserRole;
+        sid?: string;
+        jti?: string;
+        exp?: number;
+    };
+    /** Set when the request authenticated with an API key */
+    apiKey?: {
+        id: number;
+        name: string;
+        scopes: ApiKeyScope[];
     };
     correlationId?: string;
 }
@@ -102,30 +223,321 @@ export interface PaginationParams {
     offset: number;
 }
 
+/** Keyset pagination fields returned alongside a page of results */
+export interface CursorPageInfo {
+    next_cursor: string | null;
+    prev_cursor: string | null;
+    /** Only present when requested (`include_total`) or for offset pages */
+    total?: number;
+}
+
+export interface IPipelineStage {
+    id: number;
+    stage_key: string;
+    name: string;
+    position: number;
+    is_terminal: boolean;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface PipelineTransition {
+    from: string;
+    to: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'boolean' | 'date' | 'enum';
+
+export interface CustomFieldValidation {
+    min?: number;
+    max?: number;
+    pattern?: string;
+}
+
+export interface ICustomFieldDefinition {
+    id: number;
+    field_key: string;
+    label: string;
+    field_type: CustomFieldType;
+    is_required: boolean;
+    options: string[] | null;
+    validation: CustomFieldValidation | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
 export interface LeadFilters {
-    status?: LeadStatus;
+    /** One stage or any of several */
+    status?: string | string[];
     source?: string;
     assigned_to?: number;
+    unassigned?: boolean;
+    has_email?: boolean;
+    include_deleted?: boolean;
+    custom_fields?: Record<string, string>;
+    /** Leads must carry every listed tag */
+    tags?: string[];
+    created_from?: string | Date;
+    created_to?: string | Date;
+    updated_from?: string | Date;
+    updated_to?: string | Date;
+    min_score?: number;
+    max_score?: number;
+    /** Set by LeadAccessService from the caller, never from request input */
+    scope?: LeadScope;
+}
+
+export type LeadBulkAction = 'assign' | 'status' | 'add_tags' | 'remove_tags' | 'delete';
+
+/** POST /api/leads/bulk: target leads by `ids` or by `filters` */
+export interface LeadBulkRequest {
+    ids?: number[];
+    filters?: LeadFilters;
+    action: LeadBulkAction;
+    agent_id?: number;
+    status?: string;
+    status_reason?: string;
+    tags?: string[];
 }
 
+/** Column-level change applied by LeadModel.bulkChange */
+export interface LeadBulkChange {
+    assigned_to?: number;
+    status?: string;
+    add_tags?: string[];
+    remove_tags?: string[];
+    delete?: boolean;
+}
+
+export interface LeadBulkResult {
+    action: LeadBulkAction;
+    matched: number;
+    succeeded: number;
+    failed: number;
+    results: Array<{ id: number; success: boolean; error?: string }>;
+}
+
+/** Indexed lead columns GET /api/leads can sort by */
+export const LEAD_SORT_FIELDS = ['id', 'created_at', 'updated_at', 'status', 'source', 'assigned_to', 'score'] as const;
+
+/** Lead attributes selectable via `fields` (tags are joined from lead_tags) */
+export const LEAD_SELECT_FIELDS = [
+    'id', 'name', 'phone', 'email', 'status', 'source', 'assigned_to', 'image_url',
+    'custom_fields', 'score', 'created_at', 'updated_at', 'tags'
+] as const;
+
+/** Export columns: lead attributes plus the assigned agent's email */
+export const LEAD_EXPORT_FIELDS = [...LEAD_SELECT_FIELDS, 'agent_email'] as const;
+
+export type LeadSortField = typeof LEAD_SORT_FIELDS[number];
+export type LeadSelectField = typeof LEAD_SELECT_FIELDS[number];
+export type LeadExportField = typeof LEAD_EXPORT_FIELDS[number];
+export type LeadExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+export interface LeadExportRequest {
+    format: LeadExportFormat;
+    filters?: LeadFilters;
+    fields?: LeadExportField[];
+}
+
+export interface LeadListOptions {
+    sort?: LeadSortField;
+    order?: 'asc' | 'desc';
+    fields?: LeadSelectField[];
+    /** Opaque keyset cursor; when set `page` is ignored */
+    cursor?: string;
+    include_total?: boolean;
+}
+
+export interface LeadPage extends CursorPageInfo {
+    leads: ILead[];
+    page?: number;
+    totalPages?: number;
+}
+
+export interface ILeadSegment {
+    id: number;
+    name: string;
+    description?: string | null;
+    filters: LeadFilters;
+    created_by?: number | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export type LeadSearchField = 'name' | 'phone' | 'email';
+
+/** A search result: the lead plus its relevance and matched [start, end) ranges per field */
+export type LeadSearchHit = ILead & {
+    relevance: number;
+    highlights: Partial<Record<LeadSearchField, Array<[number, number]>>>;
+};
+
 export interface CreateLeadInput {
     name: string;
     phone: string;
     email?: string;
-    status?: LeadStatus;
+    status?: string;
     source?: string;
     assigned_to?: number;
     image_url?: string;
+    custom_fields?: Record<string, any>;
 }
 
 export interface UpdateLeadInput {
     name?: string;
     phone?: string;
     email?: string;
-    status?: LeadStatus;
+    status?: string;
     source?: string;
     assigned_to?: number;
     image_url?: string;
+    custom_fields?: Record<string, any>;
+}
+
+export type LeadScoreSignal = 'source' | 'status' | 'call_outcomes' | 'recency' | 'email';
+
+/**
+ * Lead scoring weights. Each signal yields a factor between 0 and 1; the score is
+ * the weighted average of the factors scaled to 0-100.
+ */
+export interface LeadScoringConfig {
+    weights: Record<LeadScoreSignal, number>;
+    /** Factor per lead source (unknown sources count as 0.5) */
+    sources: Record<string, number>;
+    /** Factor per pipeline stage (unknown stages count as 0.5) */
+    statuses: Record<string, number>;
+    /** Value per completed-call outcome, from -1 (bad) to 1 (good) */
+    outcomes: Record<string, number>;
+    /** Days after which the recency factor halves */
+    recency_half_life_days: number;
+}
+
+export interface LeadScoreBreakdown {
+    score: number;
+    /** Points each signal contributed */
+    signals: Record<LeadScoreSignal, number>;
+    last_contact_at: Date | null;
+}
+
+export type AgentAvailabilityStatus = 'available' | 'busy' | 'on_leave' | 'offline';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** Daily shift in the agent's own time zone, e.g. 09:00-18:00 Mon-Fri */
+export interface WorkingHours {
+    timezone: string;
+    days: Weekday[];
+    start: string;
+    end: string;
+}
+
+export interface IAgentAvailability {
+    user_id: number;
+    status: AgentAvailabilityStatus;
+    /** Leave/offline ends automatically after this time */
+    away_until: Date | null;
+    /** Maximum leads in non-terminal stages; null means unlimited */
+    max_open_leads: number | null;
+    working_hours: WorkingHours | null;
+    updated_at?: Date;
+}
+
+export interface ITeam {
+    id: number;
+    name: string;
+    /** Manager who manages the members; a manager may run several teams */
+    manager_id: number | null;
+    member_ids: number[];
+    created_at: Date;
+    updated_at: Date;
+}
+
+export type AssignmentStrategy = 'round_robin' | 'least_loaded';
+
+export type AssignmentTrigger = 'create' | 'csv_import' | 'backlog';
+
+/** Routing rule: the first active rule (by priority) whose conditions match picks an agent */
+export interface IAssignmentRule {
+    id: number;
+    name: string;
+    priority: number;
+    strategy: AssignmentStrategy;
+    match_source: string | null;
+    match_phone_prefix: string | null;
+    /** Agent pool; null means every active agent */
+    agent_ids: number[] | null;
+    is_active: boolean;
+    last_assigned_agent_id: number | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+export interface AssignmentDecision {
+    agent_id: number | null;
+    rule_id: number | null;
+    rule_name: string | null;
+    strategy: AssignmentStrategy | null;
+    reason: string;
+    candidates: Array<{ agent_id: number; pending_tasks?: number; excluded?: string }>;
+}
+
+export type LeadAuditAction = 'update' | 'assign' | 'delete' | 'restore' | 'purge' | 'merge';
+
+export interface LeadFieldChange {
+    field: string;
+    from: any;
+    to: any;
+}
+
+export type DuplicateMatchReason = 'phone' | 'email' | 'name';
+
+export interface LeadDuplicateGroup {
+    leads: ILead[];
+    reasons: DuplicateMatchReason[];
+}
+
+export interface AuditContext {
+    user_id?: number;
+    /** Role of the acting user; with user_id it scopes lead access (none = system) */
+    role?: UserRole;
+    correlation_id?: string;
+    reason?: string;
+}
+
+/** The authenticated user a lead read is made for */
+export interface Actor {
+    id: number;
+    role: UserRole;
+}
+
+/** Row-level lead access: leads assigned to, or with call tasks for, one of `agent_ids` */
+export interface LeadScope {
+    agent_ids: number[];
+    /** Also unassigned leads */
+    include_unassigned?: boolean;
+}
+
+export type LeadTimelineEventType =
+    | 'lead_created'
+    | 'lead_changed'
+    | 'call_task_created'
+    | 'call_logged'
+    | 'notification';
+
+export interface LeadTimelineEvent {
+    type: LeadTimelineEventType;
+    timestamp: Date;
+    reference_id: number | string;
+    data: Record<string, any>;
+}
+
+export interface LeadTimeline {
+    lead_id: number;
+    events: LeadTimelineEvent[];
+    total: number;
+    page: number;
+    totalPages: number;
 }
 
 export interface CsvLeadRow {
@@ -133,6 +545,7 @@ export interface CsvLeadRow {
     phone: string;
     email?: string;
     source?: string;
+    custom_fields?: Record<string, any>;
 }
 export interface DailyTaskSummary {
     date: string;
@@ -206,11 +619,22 @@ export interface JWTTokenPayload {
     id: number;
     email: string;
     role: UserRole;
+    /** Login session the token belongs to */
+    sid?: string;
+    /** User's token version when issued (access tokens) */
+    ver?: number;
 }
 
 export interface JWTPayload extends JWTTokenPayload {
     iat?: number;
     exp?: number;
+    jti?: string;
+}
+
+/** Short-lived token between the password and MFA steps of login */
+export interface MfaChallengePayload extends JWTPayload {
+    purpose: 'mfa' | 'mfa_setup';
+    jti: string;
 }
 
 
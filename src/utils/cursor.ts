@@ -0,0 +1,123 @@
+/**
+ * Opaque keyset pagination cursors
+ */
+import { ValidationError } from './errors';
+
+export type CursorDirection = 'next' | 'prev';
+
+/** Sort column value of a boundary row; dates travel as ISO strings */
+export type CursorValue = string | number | null;
+
+export interface CursorPayload {
+  /** Sort the cursor was issued for, e.g. "created_at:desc" */
+  sort: string;
+  /** Sort column value of the boundary row */
+  value: CursorValue;
+  /** Tie-breaking ID of the boundary row */
+  id: number | string;
+  direction: CursorDirection;
+}
+
+/** What the sort column and ID of a cursor must hold, checked before they reach a query */
+export interface CursorShape {
+  value: 'date' | 'number' | 'string';
+  /** Whether the sort column may be NULL */
+  nullable?: boolean;
+  /** MySQL row IDs or Mongo ObjectIds */
+  id: 'number' | 'object_id';
+}
+
+const VALUE_CHECKS: Record<CursorShape['value'], (value: unknown) => boolean> = {
+  date: value => typeof value === 'string' && !Number.isNaN(Date.parse(value)),
+  number: value => typeof value === 'number' && Number.isFinite(value),
+  string: value => typeof value === 'string'
+};
+
+const ID_CHECKS: Record<CursorShape['id'], (id: unknown) => boolean> = {
+  number: id => Number.isSafeInteger(id) && (id as number) > 0,
+  object_id: id => typeof id === 'string' && /^[0-9a-f]{24}$/i.test(id)
+};
+
+export const encodeCursor = (payload: CursorPayload): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+export const decodeCursor = (cursor: string, sort: string, shape: CursorShape): CursorPayload => {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  if (!payload || typeof payload !== 'object' || !['next', 'prev'].includes(payload.direction)) {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (payload.sort !== sort) {
+    throw new ValidationError('Cursor does not match the requested sort order');
+  }
+  const valueOk = payload.value === null ? Boolean(shape.nullable) : VALUE_CHECKS[shape.value](payload.value);
+  if (!valueOk || !ID_CHECKS[shape.id](payload.id)) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  return payload;
+};
+
+/**
+ * SQL condition selecting the rows after (next) or before (prev) the cursor row
+ * for `ORDER BY column <order>, id <order>`. MySQL sorts NULL lowest.
+ */
+export const keysetCondition = (
+  column: string,
+  order: 'asc' | 'desc',
+  cursor: CursorPayload,
+  value: CursorValue | Date = cursor.value
+): { sql: string; params: any[] } => {
+  const greater = (order === 'asc') === (cursor.direction === 'next');
+  const op = greater ? '>' : '<';
+
+  if (column === 'id') {
+    return { sql: `id ${op} ?`, params: [cursor.id] };
+  }
+
+  if (value === null || value === undefined) {
+    return greater
+      ? { sql: `((${column} IS NULL AND id > ?) OR ${column} IS NOT NULL)`, params: [cursor.id] }
+      : { sql: `(${column} IS NULL AND id < ?)`, params: [cursor.id] };
+  }
+
+  return {
+    sql: `(${column} ${op} ? OR (${column} = ? AND id ${op} ?)${greater ? '' : ` OR ${column} IS NULL`})`,
+    params: [value, value, cursor.id]
+  };
+};
+
+/**
+ * Build next/prev cursors for a page fetched with one extra row (`hasMore`).
+ * `hasPrevious` covers offset requests past the first page.
+ */
+export const buildCursors = <T>(
+  items: T[],
+  hasMore: boolean,
+  sort: string,
+  keyOf: (item: T) => { value: CursorValue | Date; id: number | string },
+  cursor?: CursorPayload,
+  hasPrevious: boolean = false
+): { next_cursor: string | null; prev_cursor: string | null } => {
+  if (items.length === 0) {
+    return { next_cursor: null, prev_cursor: null };
+  }
+
+  const hasNext = cursor?.direction === 'prev' ? true : hasMore;
+  const hasPrev = cursor ? (cursor.direction === 'prev' ? hasMore : true) : hasPrevious;
+
+  const encode = (item: T, direction: CursorDirection): string => {
+    const { value, id } = keyOf(item);
+    return encodeCursor({ sort, value: value instanceof Date ? value.toISOString() : value, id, direction });
+  };
+
+  return {
+    next_cursor: hasNext ? encode(items[items.length - 1], 'next') : null,
+    prev_cursor: hasPrev ? encode(items[0], 'prev') : null
+  };
+};
@@ -35,7 +35,15 @@ export class NotFoundError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message: string) {
+  /** Optional payload returned as `data` (e.g. a suggested alternative) */
+  constructor(message: string, public details?: Record<string, any>) {
     super(409, message);
   }
-}
\ No newline at end of file
+}
+
+export class TooManyRequestsError extends AppError {
+  /** Optional payload returned as `data` (e.g. when to retry) */
+  constructor(message = 'Too many requests', public details?: Record<string, any>) {
+    super(429, message);
+  }
+}
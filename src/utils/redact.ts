@@ -0,0 +1,36 @@
+/**
+ * Masking of credentials in request and response bodies before they are logged
+ */
+
+// Raw secrets the API accepts or returns once; the database only keeps their hashes
+const SECRET_FIELDS = new Set([
+  'key',
+  'token',
+  'password',
+  'newPassword',
+  'currentPassword',
+  'refreshToken',
+  'accessToken',
+  'challengeToken',
+  'secret',
+  'otpauth_url',
+  'recovery_codes'
+]);
+
+export const REDACTED = '[REDACTED]';
+
+/** Deep copy of `value` with every secret field replaced by `[REDACTED]` */
+export const redactSecrets = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, fieldValue]) => [
+        field,
+        SECRET_FIELDS.has(field) ? REDACTED : redactSecrets(fieldValue)
+      ])
+    );
+  }
+  return value;
+};
@@ -0,0 +1,22 @@
+/**
+ * Admin-supplied regular expressions (custom field `validation.pattern`)
+ */
+
+// A quantified group that itself contains a quantifier, e.g. (a+)+ or (\w*\s?)*: the classic
+// catastrophic-backtracking shape. A heuristic, not a proof that a pattern is safe.
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)\s*(?:[*+]|\{\d+,?\d*\})/;
+
+/**
+ * Compile a pattern, or explain why it is rejected
+ * @returns The RegExp, or an error message
+ */
+export const compilePattern = (pattern: string): RegExp | string => {
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    return 'must not repeat a group that contains a quantifier';
+  }
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    return `is not a valid regular expression (${(error as Error).message})`;
+  }
+};
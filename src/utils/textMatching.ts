@@ -0,0 +1,85 @@
+/**
+ * Helpers for fuzzy matching of lead contact details
+ */
+
+/** Strip everything but digits from a phone number ("+1 (555) 123" -> "1555123") */
+export const normalizePhone = (phone: string | null | undefined): string =>
+  (phone ?? '').replace(/\D/g, '');
+
+/** Lowercase and trim an email address; empty values become '' */
+export const normalizeEmail = (email: string | null | undefined): string =>
+  (email ?? '').trim().toLowerCase();
+
+/** Lowercase, strip punctuation and collapse whitespace in a person's name */
+export const normalizeName = (name: string | null | undefined): string =>
+  (name ?? '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Levenshtein edit distance between two strings */
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/** Name similarity in [0, 1], 1 meaning identical after normalization */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  const longest = Math.max(left.length, right.length);
+
+  if (longest === 0) return 0;
+  return 1 - levenshtein(left, right) / longest;
+};
+
+export interface WordSpan {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/** Lowercased words of a string with their [start, end) offsets in the original */
+export const wordSpans = (text: string | null | undefined): WordSpan[] =>
+  Array.from((text ?? '').matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+
+/**
+ * How well a typed word matches a stored word: 1 exact, 0.9 prefix,
+ * otherwise scaled edit-distance similarity against the word or its prefix
+ * (0 below the typo tolerance)
+ */
+export const wordMatchScore = (typed: string, stored: string, tolerance: number = 0.75): number => {
+  if (typed === stored) return 1;
+  if (typed.length >= 2 && stored.startsWith(typed)) return 0.9;
+
+  const similarity = 1 - levenshtein(typed, stored) / Math.max(typed.length, stored.length);
+  if (similarity >= tolerance) return similarity * 0.8;
+
+  // Typo inside a partially typed word ("jonh" for "jonathan")
+  if (typed.length >= 4 && stored.length > typed.length) {
+    const prefix = stored.slice(0, typed.length);
+    const prefixSimilarity = 1 - levenshtein(typed, prefix) / typed.length;
+    if (prefixSimilarity >= tolerance) return prefixSimilarity * 0.7;
+  }
+
+  return 0;
+};
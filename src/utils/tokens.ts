@@ -0,0 +1,10 @@
+/**
+ * Random one-time tokens that are stored only as a hash
+ */
+import crypto from 'crypto';
+
+/** 64 hex characters */
+export const generateToken = (): string => crypto.randomBytes(32).toString('hex');
+
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,150 @@
+import { ApiKeyService } from '../src/services/apiKeyService';
+import { ApiKeyModel } from '../src/models/mysql/ApiKey';
+import { UserModel } from '../src/models/mysql/User';
+import { hashToken } from '../src/utils/tokens';
+import { REDACTED, redactSecrets } from '../src/utils/redact';
+import { mysqlPool } from '../src/config/database';
+import { UserRole } from '../src/types';
+
+jest.mock('../src/models/mysql/ApiKey', () => ({
+  ApiKeyModel: {
+    create: jest.fn(),
+    findById: jest.fn(),
+    findUsableByHash: jest.fn(),
+    rotate: jest.fn(),
+    touch: jest.fn()
+  }
+}));
+jest.mock('../src/config/database', () => ({ mysqlPool: { execute: jest.fn() } }));
+jest.mock('../src/models/mysql/User', () => ({ UserModel: { findById: jest.fn() } }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const apiKeyModel = ApiKeyModel as jest.Mocked<typeof ApiKeyModel>;
+const userModel = UserModel as jest.Mocked<typeof UserModel>;
+const execute = mysqlPool.execute as jest.Mock;
+
+const user = { id: 3, email: 'integration@example.com', role: UserRole.ADMIN };
+const apiKey = { id: 11, name: 'Website forms', scopes: ['leads:read', 'leads:write'] } as any;
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    apiKeyModel.touch.mockResolvedValue();
+  });
+
+  it('should return the raw key once and store only its hash', async () => {
+    userModel.findById.mockResolvedValue(user as any);
+    apiKeyModel.create.mockResolvedValue(11);
+    apiKeyModel.findById.mockResolvedValue(apiKey);
+
+    const { key } = await ApiKeyService.createKey({ name: 'Website forms', scopes: ['leads:read'] }, 3);
+
+    expect(key).toMatch(/^uk_/);
+    const stored = apiKeyModel.create.mock.calls[0][0];
+    expect(stored.key_hash).toBe(hashToken(key));
+    expect(stored.key_prefix).toBe(key.slice(0, 11));
+    expect(JSON.stringify(stored)).not.toContain(key);
+  });
+
+  it('should resolve a key that has the requested scope', async () => {
+    apiKeyModel.findUsableByHash.mockResolvedValue({ key: apiKey, user });
+
+    const result = await ApiKeyService.authenticate('uk_secret', 'leads:write', '203.0.113.5');
+
+    expect(result).toEqual({ apiKey, user });
+    expect(apiKeyModel.findUsableByHash).toHaveBeenCalledWith(hashToken('uk_secret'));
+    expect(apiKeyModel.touch).toHaveBeenCalledWith(11, '203.0.113.5');
+  });
+
+  it('should forbid keys missing the requested scope', async () => {
+    apiKeyModel.findUsableByHash.mockResolvedValue({ key: { ...apiKey, scopes: ['leads:read'] }, user });
+
+    await expect(ApiKeyService.authenticate('uk_secret', 'leads:write')).rejects.toMatchObject({
+      statusCode: 403,
+      message: 'API key is missing the leads:write scope'
+    });
+  });
+
+  it('should reject unknown, expired or revoked keys', async () => {
+    // The model only returns keys that are unrevoked, unexpired and in their grace period
+    apiKeyModel.findUsableByHash.mockResolvedValue(null);
+
+    await expect(ApiKeyService.authenticate('uk_expired', 'leads:read')).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should reject keys without the key prefix without a lookup', async () => {
+    await expect(ApiKeyService.authenticate('not-a-key', 'leads:read')).rejects.toMatchObject({ statusCode: 401 });
+    expect(apiKeyModel.findUsableByHash).not.toHaveBeenCalled();
+  });
+
+  it('should keep the old secret usable for the grace period after rotation', async () => {
+    apiKeyModel.rotate.mockResolvedValue(true);
+    apiKeyModel.findById.mockResolvedValue(apiKey);
+
+    const before = Date.now();
+    await ApiKeyService.rotateKey(11, 30, 3);
+    await ApiKeyService.rotateKey(11, 0, 3);
+
+    const previousExpiresAt = apiKeyModel.rotate.mock.calls[0][3] as Date;
+    expect(previousExpiresAt.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    expect(previousExpiresAt.getTime()).toBeLessThan(before + 31 * 60 * 1000);
+    expect(apiKeyModel.rotate.mock.calls[1][3]).toBeNull();
+  });
+
+  it('should not fail the request when usage tracking fails', async () => {
+    apiKeyModel.findUsableByHash.mockResolvedValue({ key: apiKey, user });
+    apiKeyModel.touch.mockRejectedValue(new Error('Lock wait timeout'));
+
+    await expect(ApiKeyService.authenticate('uk_secret', 'leads:read')).resolves.toEqual({ apiKey, user });
+  });
+});
+
+describe('ApiKeyModel.findUsableByHash', () => {
+  const { ApiKeyModel: RealApiKeyModel } = jest.requireActual('../src/models/mysql/ApiKey');
+
+  it('should only match unrevoked, unexpired keys and old secrets still in their grace period', async () => {
+    execute.mockResolvedValue([[]]);
+
+    await expect(RealApiKeyModel.findUsableByHash('hash')).resolves.toBeNull();
+
+    const [sql, params] = execute.mock.calls[0];
+    expect(sql).toContain('k.previous_key_hash = ? AND k.previous_key_expires_at > NOW()');
+    expect(sql).toContain('k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > NOW())');
+    expect(sql).toContain('u.is_active = TRUE');
+    expect(params).toEqual(['hash', 'hash']);
+  });
+});
+
+describe('redactSecrets', () => {
+  it('should mask secret fields at any depth', () => {
+    const body = {
+      email: 'admin@example.com',
+      password: 'hunter22',
+      data: {
+        api_key: { id: 11, key_prefix: 'uk_abcdefgh' },
+        key: 'uk_abcdefghijkl',
+        sessions: [{ refreshToken: 'eyJ...', device: 'Firefox' }]
+      }
+    };
+
+    expect(redactSecrets(body)).toEqual({
+      email: 'admin@example.com',
+      password: REDACTED,
+      data: {
+        api_key: { id: 11, key_prefix: 'uk_abcdefgh' },
+        key: REDACTED,
+        sessions: [{ refreshToken: REDACTED, device: 'Firefox' }]
+      }
+    });
+    // The logged copy must not change the body sent to the client
+    expect(body.password).toBe('hunter22');
+  });
+
+  it('should leave non-object values alone', () => {
+    const createdAt = new Date();
+
+    expect(redactSecrets('plain text')).toBe('plain text');
+    expect(redactSecrets(null)).toBeNull();
+    expect(redactSecrets({ created_at: createdAt })).toEqual({ created_at: createdAt });
+  });
+});
@@ -0,0 +1,132 @@
+import { AvailabilityService } from '../src/services/availabilityService';
+import { AgentAvailabilityModel } from '../src/models/mysql/AgentAvailability';
+import { LeadModel } from '../src/models/mysql/Lead';
+import { UserModel } from '../src/models/mysql/User';
+import { PipelineService } from '../src/services/pipelineService';
+import { IAgentAvailability, WorkingHours } from '../src/types';
+
+jest.mock('../src/models/mysql/AgentAvailability', () => ({
+  AgentAvailabilityModel: { findByUser: jest.fn(), findByUsers: jest.fn() }
+}));
+jest.mock('../src/models/mysql/Lead', () => ({ LeadModel: { countOpenByAgents: jest.fn() } }));
+jest.mock('../src/models/mysql/User', () => ({ UserModel: { findAgents: jest.fn() } }));
+jest.mock('../src/services/pipelineService', () => ({ PipelineService: { getPipeline: jest.fn() } }));
+jest.mock('../src/services/teamService', () => ({ TeamService: {} }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const availabilityModel = AgentAvailabilityModel as jest.Mocked<typeof AgentAvailabilityModel>;
+const leadModel = LeadModel as jest.Mocked<typeof LeadModel>;
+const userModel = UserModel as jest.Mocked<typeof UserModel>;
+const pipelineService = PipelineService as jest.Mocked<typeof PipelineService>;
+
+const availabilityOf = (data: Partial<IAgentAvailability> = {}): IAgentAvailability => ({
+  user_id: 5,
+  status: 'available',
+  away_until: null,
+  max_open_leads: null,
+  working_hours: null,
+  ...data
+});
+
+const withShift = (working_hours: WorkingHours) => {
+  availabilityModel.findByUser.mockResolvedValue(availabilityOf({ working_hours }));
+};
+
+describe('AvailabilityService working hours', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    userModel.findAgents.mockResolvedValue([]);
+    availabilityModel.findByUsers.mockResolvedValue({});
+    leadModel.countOpenByAgents.mockResolvedValue({});
+    pipelineService.getPipeline.mockResolvedValue({ stages: [] } as any);
+  });
+
+  it('should check the shift in the shift time zone', async () => {
+    // Monday 19 October 2026, 09:00-17:00 in Tokyo (UTC+9)
+    withShift({ timezone: 'Asia/Tokyo', days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '09:00', end: '17:00' });
+
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-19T00:30:00Z'))).resolves.toBeUndefined();
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-18T23:30:00Z'))).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'Agent 5 cannot take this call task: outside working hours (mon,tue,wed,thu,fri 09:00-17:00 Asia/Tokyo)'
+    });
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-19T08:00:00Z'))).rejects.toMatchObject({
+      statusCode: 409
+    });
+  });
+
+  it('should count overnight shifts from the day they start', async () => {
+    // Monday night 22:00 to Tuesday 06:00 in New York (UTC-4 in October)
+    withShift({ timezone: 'America/New_York', days: ['mon'], start: '22:00', end: '06:00' });
+
+    // Monday 23:00 and Tuesday 03:00 local
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-20T03:00:00Z'))).resolves.toBeUndefined();
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-20T07:00:00Z'))).resolves.toBeUndefined();
+    // Monday 21:00, Tuesday 06:30 and Tuesday 23:00 local
+    for (const at of ['2026-10-20T01:00:00Z', '2026-10-20T10:30:00Z', '2026-10-21T03:00:00Z']) {
+      await expect(AvailabilityService.assertCanTakeTask(5, new Date(at))).rejects.toMatchObject({ statusCode: 409 });
+    }
+  });
+
+  it('should suggest another agent who is on shift', async () => {
+    withShift({ timezone: 'UTC', days: ['mon'], start: '09:00', end: '17:00' });
+    userModel.findAgents.mockResolvedValue([{ id: 5 }, { id: 6 }, { id: 7 }] as any);
+    availabilityModel.findByUsers.mockResolvedValue({
+      6: availabilityOf({ user_id: 6, working_hours: { timezone: 'UTC', days: ['mon'], start: '09:00', end: '17:00' } }),
+      7: availabilityOf({ user_id: 7 })
+    });
+    leadModel.countOpenByAgents.mockResolvedValue({ 6: 0, 7: 3 });
+
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-19T18:00:00Z'))).rejects.toMatchObject({
+      details: { suggested_agent_id: 7 }
+    });
+  });
+});
+
+describe('AvailabilityService away statuses', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    userModel.findAgents.mockResolvedValue([]);
+    pipelineService.getPipeline.mockResolvedValue({ stages: [{ stage_key: 'converted', is_terminal: true }] } as any);
+    leadModel.countOpenByAgents.mockResolvedValue({ 5: 0 });
+  });
+
+  it('should block agents on leave until away_until', async () => {
+    const returning = new Date(Date.now() + 60 * 60 * 1000);
+    availabilityModel.findByUsers.mockResolvedValue({ 5: availabilityOf({ status: 'on_leave', away_until: returning }) });
+
+    await expect(AvailabilityService.leadBlockers([5])).resolves.toEqual({ 5: 'agent is on leave' });
+  });
+
+  it('should treat leave that has lapsed as available', async () => {
+    const returned = new Date(Date.now() - 60 * 1000);
+    availabilityModel.findByUsers.mockResolvedValue({ 5: availabilityOf({ status: 'on_leave', away_until: returned }) });
+
+    await expect(AvailabilityService.leadBlockers([5])).resolves.toEqual({ 5: null });
+  });
+
+  it('should keep offline agents without away_until offline', async () => {
+    availabilityModel.findByUsers.mockResolvedValue({ 5: availabilityOf({ status: 'offline' }) });
+
+    await expect(AvailabilityService.leadBlockers([5])).resolves.toEqual({ 5: 'agent is offline' });
+  });
+
+  it('should accept tasks scheduled after the leave ends', async () => {
+    availabilityModel.findByUser.mockResolvedValue(
+      availabilityOf({ status: 'on_leave', away_until: new Date('2026-10-20T00:00:00Z') })
+    );
+
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-19T12:00:00Z'))).rejects.toMatchObject({
+      message: 'Agent 5 cannot take this call task: agent is on leave'
+    });
+    await expect(AvailabilityService.assertCanTakeTask(5, new Date('2026-10-20T12:00:00Z'))).resolves.toBeUndefined();
+  });
+
+  it('should block agents at their open lead limit', async () => {
+    availabilityModel.findByUsers.mockResolvedValue({ 5: availabilityOf({ max_open_leads: 2 }) });
+    leadModel.countOpenByAgents.mockResolvedValue({ 5: 2 });
+
+    await expect(AvailabilityService.leadBlockers([5])).resolves.toEqual({ 5: 'at capacity (2/2 open leads)' });
+    expect(leadModel.countOpenByAgents).toHaveBeenCalledWith([5], ['converted']);
+  });
+});
@@ -0,0 +1,126 @@
+import { LeadService } from '../src/services/leadService';
+import { LeadModel } from '../src/models/mysql/Lead';
+import { LeadAuditLog } from '../src/models/mongodb/LeadAuditLog';
+import { AvailabilityService } from '../src/services/availabilityService';
+import { LeadAccessService } from '../src/services/leadAccessService';
+import { TeamService } from '../src/services/teamService';
+import { ConflictError } from '../src/utils/errors';
+import { ILead } from '../src/types';
+
+jest.mock('../src/models/mysql/Lead', () => ({
+  LeadModel: { findIds: jest.fn(), findByIds: jest.fn(), bulkChange: jest.fn() }
+}));
+jest.mock('../src/models/mysql/LeadTag', () => ({ LeadTagModel: {} }));
+jest.mock('../src/models/mysql/CallTask', () => ({ CallTaskModel: {} }));
+jest.mock('../src/models/mongodb/CallLog', () => ({ CallLog: {} }));
+jest.mock('../src/models/mongodb/NotificationLog', () => ({ NotificationLog: {} }));
+jest.mock('../src/models/mongodb/LeadAuditLog', () => ({ LeadAuditLog: { insertMany: jest.fn() } }));
+jest.mock('../src/services/pipelineService', () => ({ PipelineService: {} }));
+jest.mock('../src/services/customFieldService', () => ({ CustomFieldService: {} }));
+jest.mock('../src/services/assignmentService', () => ({ AssignmentService: {} }));
+jest.mock('../src/services/availabilityService', () => ({
+  AvailabilityService: { remainingLeadCapacity: jest.fn() }
+}));
+jest.mock('../src/services/leadScoringService', () => ({ LeadScoringService: {} }));
+jest.mock('../src/services/leadAccessService', () => ({
+  LeadAccessService: { scopeFor: jest.fn(), actorFrom: jest.fn() }
+}));
+jest.mock('../src/services/teamService', () => ({ TeamService: { assertCanManage: jest.fn() } }));
+jest.mock('../src/config/redis', () => ({ cacheService: { delMany: jest.fn(), flushPattern: jest.fn() } }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const leadModel = LeadModel as jest.Mocked<typeof LeadModel>;
+const auditLog = LeadAuditLog as unknown as { insertMany: jest.Mock };
+const availability = AvailabilityService as jest.Mocked<typeof AvailabilityService>;
+const access = LeadAccessService as jest.Mocked<typeof LeadAccessService>;
+const teamService = TeamService as jest.Mocked<typeof TeamService>;
+
+const leadOf = (id: number, assigned_to: number | null = null) =>
+  ({ id, name: `Lead ${id}`, phone: `555000${id}`, status: 'new', assigned_to } as ILead);
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// Leads 1-N exist and are unassigned unless listed in `assigned`
+const withLeads = (assigned: Record<number, number> = {}) => {
+  leadModel.findByIds.mockImplementation(async ids => ids.map(id => leadOf(id, assigned[id] ?? null)));
+  leadModel.bulkChange.mockImplementation(async (ids, change) => ids.map(id => leadOf(id, change.assigned_to)));
+};
+
+describe('LeadService.bulkUpdateLeads', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    access.scopeFor.mockResolvedValue(undefined);
+    teamService.assertCanManage.mockResolvedValue();
+    auditLog.insertMany.mockResolvedValue([]);
+  });
+
+  it('should hand out the agent capacity lead by lead', async () => {
+    withLeads({ 1: 9 });
+    availability.remainingLeadCapacity.mockResolvedValue(2);
+
+    const result = await LeadService.bulkUpdateLeads({ action: 'assign', agent_id: 9, ids: [1, 2, 3, 4] });
+
+    // Lead 1 is already assigned to the agent and takes no capacity
+    expect(result).toMatchObject({ matched: 4, succeeded: 3, failed: 1 });
+    expect(result.results[3]).toEqual({ id: 4, success: false, error: 'Agent 9 is at capacity' });
+    expect(leadModel.bulkChange).toHaveBeenCalledWith([2, 3], { assigned_to: 9 });
+  });
+
+  it('should not limit agents without a lead limit', async () => {
+    withLeads();
+    availability.remainingLeadCapacity.mockResolvedValue(null);
+
+    const result = await LeadService.bulkUpdateLeads({ action: 'assign', agent_id: 9, ids: range(1, 10) });
+
+    expect(result.succeeded).toBe(10);
+  });
+
+  it('should fail the whole request when the agent is away', async () => {
+    withLeads();
+    availability.remainingLeadCapacity.mockRejectedValue(new ConflictError('Agent 9 cannot take new leads: agent is on leave'));
+
+    await expect(LeadService.bulkUpdateLeads({ action: 'assign', agent_id: 9, ids: [1, 2] })).rejects.toMatchObject({
+      statusCode: 409
+    });
+    expect(leadModel.bulkChange).not.toHaveBeenCalled();
+  });
+
+  it('should report a rolled back chunk and give its capacity back', async () => {
+    withLeads();
+    availability.remainingLeadCapacity.mockResolvedValue(210);
+    leadModel.bulkChange.mockRejectedValueOnce(new Error('Deadlock found when trying to get lock'));
+
+    const result = await LeadService.bulkUpdateLeads({ action: 'assign', agent_id: 9, ids: range(1, 250) });
+
+    // The first chunk of 200 failed as a whole; the second still had capacity for all 50
+    expect(result).toMatchObject({ matched: 250, succeeded: 50, failed: 200 });
+    expect(result.results[0]).toEqual({ id: 1, success: false, error: 'Not applied: the chunk was rolled back' });
+    expect(result.results[249]).toEqual({ id: 250, success: true });
+    expect(auditLog.insertMany).toHaveBeenCalledTimes(1);
+    expect(auditLog.insertMany.mock.calls[0][0]).toHaveLength(50);
+  });
+
+  it('should report leads outside the scope as not found', async () => {
+    access.scopeFor.mockResolvedValue({ agent_ids: [5] });
+    leadModel.findByIds.mockResolvedValue([leadOf(2, 5)]);
+    leadModel.bulkChange.mockResolvedValue([{ ...leadOf(2, 5), deleted_at: new Date() } as ILead]);
+
+    const result = await LeadService.bulkUpdateLeads({ action: 'delete', ids: [1, 2] });
+
+    expect(result.results).toEqual([
+      { id: 1, success: false, error: 'Lead not found' },
+      { id: 2, success: true }
+    ]);
+    expect(leadModel.findByIds).toHaveBeenCalledWith([1, 2], { agent_ids: [5] });
+  });
+
+  it('should refuse filters matching more than the bulk limit', async () => {
+    leadModel.findIds.mockResolvedValue(range(1, 5001));
+
+    await expect(LeadService.bulkUpdateLeads({ action: 'delete', filters: { status: 'new' } })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Bulk actions are limited to 5000 leads; narrow the filters'
+    });
+    expect(leadModel.findIds).toHaveBeenCalledWith({ status: 'new', scope: undefined }, 5001);
+  });
+});
@@ -0,0 +1,150 @@
+import { buildCursors, decodeCursor, encodeCursor, keysetCondition, CursorPayload } from '../src/utils/cursor';
+
+const cursorOf = (data: Partial<CursorPayload>): CursorPayload => ({
+  sort: 'created_at:desc',
+  value: '2026-10-19T08:00:00.000Z',
+  id: 42,
+  direction: 'next',
+  ...data
+});
+
+const dateCursor = { value: 'date', id: 'number' } as const;
+
+describe('decodeCursor', () => {
+  it('should round-trip an encoded cursor', () => {
+    const cursor = cursorOf({});
+
+    expect(decodeCursor(encodeCursor(cursor), 'created_at:desc', dateCursor)).toEqual(cursor);
+  });
+
+  it('should reject cursors that are not base64 JSON', () => {
+    expect(() => decodeCursor('not-a-cursor', 'created_at:desc', dateCursor)).toThrow('Invalid cursor');
+    expect(() => decodeCursor(encodeCursor(cursorOf({ direction: 'up' as any })), 'created_at:desc', dateCursor)).toThrow(
+      'Invalid cursor'
+    );
+  });
+
+  it('should reject a cursor issued for another sort', () => {
+    expect(() => decodeCursor(encodeCursor(cursorOf({})), 'created_at:asc', dateCursor)).toThrow(
+      'Cursor does not match the requested sort order'
+    );
+  });
+
+  it('should check the value against the sort column type', () => {
+    const decode = (value: any, shape: any) => () =>
+      decodeCursor(encodeCursor(cursorOf({ sort: 'x', value })), 'x', { id: 'number', ...shape });
+
+    expect(decode('yesterday', { value: 'date' })).toThrow('Invalid cursor');
+    expect(decode(1760860800000, { value: 'date' })).toThrow('Invalid cursor');
+    expect(decode('50', { value: 'number' })).toThrow('Invalid cursor');
+    expect(decode(50, { value: 'number' })).not.toThrow();
+    expect(decode({ $gt: '' }, { value: 'string' })).toThrow('Invalid cursor');
+    expect(decode(null, { value: 'string' })).toThrow('Invalid cursor');
+    expect(decode(null, { value: 'string', nullable: true })).not.toThrow();
+  });
+
+  it('should check the ID type', () => {
+    const decode = (id: any, shape: any) => () =>
+      decodeCursor(encodeCursor(cursorOf({ id })), 'created_at:desc', { value: 'date', ...shape });
+
+    expect(decode('42', { id: 'number' })).toThrow('Invalid cursor');
+    expect(decode(-1, { id: 'number' })).toThrow('Invalid cursor');
+    expect(decode(1.5, { id: 'number' })).toThrow('Invalid cursor');
+    expect(decode('652f1c2e9b1d8a0012345678', { id: 'object_id' })).not.toThrow();
+    expect(decode('652f1c2e9b1d8a00123456', { id: 'object_id' })).toThrow('Invalid cursor');
+  });
+
+  it('should fail with a 400', () => {
+    try {
+      decodeCursor('not-a-cursor', 'created_at:desc', dateCursor);
+    } catch (error) {
+      expect(error).toMatchObject({ statusCode: 400 });
+    }
+    expect.assertions(1);
+  });
+});
+
+describe('keysetCondition', () => {
+  it('should page by id alone when sorting by id', () => {
+    expect(keysetCondition('id', 'desc', cursorOf({ sort: 'id:desc', value: 42 }))).toEqual({
+      sql: 'id < ?',
+      params: [42]
+    });
+  });
+
+  it('should break ties on the id in the sort direction', () => {
+    expect(keysetCondition('score', 'asc', cursorOf({ value: 70 }))).toEqual({
+      sql: '(score > ? OR (score = ? AND id > ?))',
+      params: [70, 70, 42]
+    });
+  });
+
+  it('should include NULL rows, which sort lowest, when walking down', () => {
+    // Descending next page and ascending previous page both move towards NULLs
+    expect(keysetCondition('source', 'desc', cursorOf({ value: 'website' }))).toEqual({
+      sql: '(source < ? OR (source = ? AND id < ?) OR source IS NULL)',
+      params: ['website', 'website', 42]
+    });
+    expect(keysetCondition('source', 'asc', cursorOf({ value: 'website', direction: 'prev' })).sql).toBe(
+      '(source < ? OR (source = ? AND id < ?) OR source IS NULL)'
+    );
+  });
+
+  it('should page within the NULL rows from a NULL cursor', () => {
+    expect(keysetCondition('assigned_to', 'asc', cursorOf({ value: null }))).toEqual({
+      sql: '((assigned_to IS NULL AND id > ?) OR assigned_to IS NOT NULL)',
+      params: [42]
+    });
+    expect(keysetCondition('assigned_to', 'desc', cursorOf({ value: null }))).toEqual({
+      sql: '(assigned_to IS NULL AND id < ?)',
+      params: [42]
+    });
+  });
+
+  it('should use a converted value when given', () => {
+    const at = new Date('2026-10-19T08:00:00.000Z');
+
+    expect(keysetCondition('created_at', 'desc', cursorOf({}), at).params).toEqual([at, at, 42]);
+  });
+});
+
+describe('buildCursors', () => {
+  const rows = [
+    { id: 7, source: 'website' },
+    { id: 3, source: null }
+  ];
+  const keyOf = (row: { id: number; source: string | null }) => ({ value: row.source, id: row.id });
+  const decode = (cursor: string | null) =>
+    cursor && decodeCursor(cursor, 'source:desc', { value: 'string', nullable: true, id: 'number' });
+
+  it('should return no cursors for an empty page', () => {
+    expect(buildCursors([], true, 'source:desc', keyOf)).toEqual({ next_cursor: null, prev_cursor: null });
+  });
+
+  it('should point the next cursor at the last row, NULL values included', () => {
+    const { next_cursor, prev_cursor } = buildCursors(rows, true, 'source:desc', keyOf);
+
+    expect(decode(next_cursor)).toEqual({ sort: 'source:desc', value: null, id: 3, direction: 'next' });
+    expect(prev_cursor).toBeNull();
+  });
+
+  it('should offer a previous page after a next cursor and a next page after a prev cursor', () => {
+    const after = buildCursors(rows, false, 'source:desc', keyOf, cursorOf({ sort: 'source:desc' }));
+    expect(after.next_cursor).toBeNull();
+    expect(decode(after.prev_cursor)).toEqual({ sort: 'source:desc', value: 'website', id: 7, direction: 'prev' });
+
+    const before = buildCursors(rows, false, 'source:desc', keyOf, cursorOf({ sort: 'source:desc', direction: 'prev' }));
+    expect(before.next_cursor).not.toBeNull();
+    expect(before.prev_cursor).toBeNull();
+  });
+
+  it('should encode dates as ISO strings', () => {
+    const createdAt = new Date('2026-10-19T08:00:00.000Z');
+    const { next_cursor } = buildCursors([{ id: 1, created_at: createdAt }], true, 'created_at:desc', row => ({
+      value: row.created_at,
+      id: row.id
+    }));
+
+    expect(decodeCursor(next_cursor!, 'created_at:desc', dateCursor).value).toBe('2026-10-19T08:00:00.000Z');
+  });
+});
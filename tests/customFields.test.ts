@@ -0,0 +1,20 @@
+import { compilePattern } from '../src/utils/safeRegex';
+
+describe('Custom field patterns', () => {
+  it('should compile ordinary patterns', () => {
+    for (const pattern of ['^[A-Z]{2}\\d+$', '^(foo|bar)-\\d{3}$', '^\\w+@example\\.com$']) {
+      expect(compilePattern(pattern)).toBeInstanceOf(RegExp);
+    }
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(compilePattern('(')).toMatch(/^is not a valid regular expression/);
+    expect(compilePattern('[a-')).toMatch(/^is not a valid regular expression/);
+  });
+
+  it('should reject repeated groups that contain a quantifier', () => {
+    for (const pattern of ['(a+)+$', '^(\\w*\\s?)*$', '(x{2,})+', '(a|aa)*b(c+){2,}']) {
+      expect(compilePattern(pattern)).toBe('must not repeat a group that contains a quantifier');
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { LeadAccessService } from '../src/services/leadAccessService';
+import { TeamService } from '../src/services/teamService';
+import { mysqlPool } from '../src/config/database';
+import { UserRole } from '../src/types';
+
+jest.mock('../src/services/teamService', () => ({ TeamService: { managedAgentIds: jest.fn() } }));
+jest.mock('../src/config/database', () => ({ mysqlPool: { execute: jest.fn() } }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const teamService = TeamService as jest.Mocked<typeof TeamService>;
+const execute = mysqlPool.execute as jest.Mock;
+
+const admin = { id: 1, role: UserRole.ADMIN };
+const manager = { id: 2, role: UserRole.MANAGER };
+const agent = { id: 5, role: UserRole.AGENT };
+
+describe('LeadAccessService.scopeFor', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should not restrict admins or internal callers', async () => {
+    await expect(LeadAccessService.scopeFor(admin)).resolves.toBeUndefined();
+    await expect(LeadAccessService.scopeFor(undefined)).resolves.toBeUndefined();
+  });
+
+  it('should limit agents to their own leads', async () => {
+    await expect(LeadAccessService.scopeFor(agent)).resolves.toEqual({ agent_ids: [5] });
+    expect(teamService.managedAgentIds).not.toHaveBeenCalled();
+  });
+
+  it('should limit managers to their teams, themselves and unassigned leads', async () => {
+    teamService.managedAgentIds.mockResolvedValue([5, 6, 2]);
+
+    await expect(LeadAccessService.scopeFor(manager)).resolves.toEqual({
+      agent_ids: [2, 5, 6],
+      include_unassigned: true
+    });
+  });
+
+  it('should narrow list filters only for restricted actors', async () => {
+    await expect(LeadAccessService.scopeFilters({ status: 'new' }, agent)).resolves.toEqual({
+      status: 'new',
+      scope: { agent_ids: [5] }
+    });
+    await expect(LeadAccessService.scopeFilters({ status: 'new' }, admin)).resolves.toEqual({ status: 'new' });
+  });
+});
+
+describe('LeadAccessService.assertCanAccess', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should look the lead up within the agent scope, deleted leads included', async () => {
+    execute.mockResolvedValue([[{ id: 42 }]]);
+
+    await expect(LeadAccessService.assertCanAccess(42, agent)).resolves.toBeUndefined();
+
+    const [sql, params] = execute.mock.calls[0];
+    expect(sql).toContain('(assigned_to IN (?) OR id IN (SELECT lead_id FROM call_tasks WHERE agent_id IN (?)))');
+    expect(sql).not.toContain('deleted_at IS NULL');
+    expect(params).toEqual([5, 5, 42]);
+  });
+
+  it('should report out-of-scope leads as not found', async () => {
+    execute.mockResolvedValue([[]]);
+
+    await expect(LeadAccessService.assertCanAccess(42, agent)).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Lead not found'
+    });
+  });
+
+  it('should include unassigned leads for managers', async () => {
+    teamService.managedAgentIds.mockResolvedValue([5]);
+    execute.mockResolvedValue([[{ id: 42 }]]);
+
+    await LeadAccessService.assertCanAccess(42, manager);
+
+    expect(execute.mock.calls[0][0]).toContain('OR assigned_to IS NULL)');
+  });
+
+  it('should not query for admins', async () => {
+    await expect(LeadAccessService.assertCanAccess(42, admin)).resolves.toBeUndefined();
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
+
+describe('LeadAccessService.actorFrom', () => {
+  it('should need both the user and the role of the audit context', () => {
+    expect(LeadAccessService.actorFrom({ user_id: 5, role: UserRole.AGENT })).toEqual(agent);
+    expect(LeadAccessService.actorFrom({ user_id: 5 })).toBeUndefined();
+    expect(LeadAccessService.actorFrom({})).toBeUndefined();
+  });
+});
@@ -19,32 +19,15 @@ export const options = {
   },
 };
 
-// Test data
+// Test data: registration is invite-only, so log in as an existing user
 const testUser = {
-  email: `test${Date.now()}@example.com`,
-  password: 'TestPass123!',
-  role: 'agent',
-  phone: '+1234567890'
+  email: __ENV.LOAD_TEST_EMAIL || 'loadtest@example.com',
+  password: __ENV.LOAD_TEST_PASSWORD || 'TestPass123!'
 };
 
 let authToken = '';
 
 export function setup() {
-  // Register a test user
-  const registerRes = http.post(
-    `${BASE_URL}/api/auth/register`,
-    JSON.stringify(testUser),
-    {
-      headers: { 'Content-Type': 'application/json' },
-    }
-  );
-
-  if (registerRes.status === 201) {
-    const body = JSON.parse(registerRes.body);
-    return { token: body.data.accessToken };
-  }
-
-  // If registration fails, try logging in
   const loginRes = http.post(
     `${BASE_URL}/api/auth/login`,
     JSON.stringify({
@@ -0,0 +1,118 @@
+import { LoginProtectionService } from '../src/services/loginProtectionService';
+import { SecurityEventService } from '../src/services/securityEventService';
+
+// In-memory stand-in for the Redis calls the service makes
+const store = new Map<string, any>();
+
+jest.mock('../src/config/redis', () => ({
+  redis: {
+    multi: () => {
+      const ops: (() => [null, any])[] = [];
+      const chain = {
+        incr: (key: string) => {
+          ops.push(() => {
+            store.set(key, (store.get(key) ?? 0) + 1);
+            return [null, store.get(key)];
+          });
+          return chain;
+        },
+        expire: () => chain,
+        exec: async () => ops.map(op => op())
+      };
+      return chain;
+    }
+  },
+  cacheService: {
+    getMany: async (keys: string[]) => keys.map(key => store.get(key) ?? null),
+    set: async (key: string, value: any) => store.set(key, value),
+    delMany: async (keys: string[]) => keys.forEach(key => store.delete(key)),
+    flushPattern: async () => undefined
+  }
+}));
+jest.mock('../src/services/securityEventService', () => ({ SecurityEventService: { record: jest.fn() } }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const securityEvents = SecurityEventService as jest.Mocked<typeof SecurityEventService>;
+
+const client = { ip_address: '203.0.113.5' };
+const otherClient = { ip_address: '198.51.100.9' };
+
+const failTimes = async (times: number, email: string, from = client) => {
+  for (let i = 0; i < times; i++) {
+    await LoginProtectionService.recordFailure(email, from, 7);
+  }
+};
+
+describe('LoginProtectionService', () => {
+  beforeEach(() => {
+    store.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should allow logins below the IP+email threshold', async () => {
+    await failTimes(4, 'agent@example.com');
+
+    await expect(LoginProtectionService.assertNotLocked('agent@example.com', client)).resolves.toBeUndefined();
+  });
+
+  it('should lock the IP+email pair at the threshold', async () => {
+    await failTimes(5, 'agent@example.com');
+
+    await expect(LoginProtectionService.assertNotLocked('Agent@Example.com ', client)).rejects.toMatchObject({
+      statusCode: 429,
+      details: { retryAfter: 60 }
+    });
+    // Other IPs may still log in to the account
+    await expect(LoginProtectionService.assertNotLocked('agent@example.com', otherClient)).resolves.toBeUndefined();
+    expect(securityEvents.record).toHaveBeenCalledWith('login_blocked', expect.anything());
+  });
+
+  it('should double the lock with every further failure', async () => {
+    await failTimes(7, 'agent@example.com');
+
+    await expect(LoginProtectionService.assertNotLocked('agent@example.com', client)).rejects.toMatchObject({
+      details: { retryAfter: 240 }
+    });
+  });
+
+  it('should lock the whole account after failures from many IPs', async () => {
+    for (let i = 0; i < 20; i++) {
+      await LoginProtectionService.recordFailure('agent@example.com', { ip_address: `192.0.2.${i}` }, 7);
+    }
+
+    await expect(LoginProtectionService.assertNotLocked('agent@example.com', otherClient)).rejects.toMatchObject({
+      statusCode: 429
+    });
+  });
+
+  it('should record why a login failed', async () => {
+    await LoginProtectionService.recordFailure('nobody@example.com', client);
+    await LoginProtectionService.recordFailure('agent@example.com', client, 7, 'invalid_mfa_code');
+
+    expect(securityEvents.record).toHaveBeenCalledWith(
+      'login_failed',
+      expect.objectContaining({ details: { reason: 'unknown_email', failures: 1 } })
+    );
+    expect(securityEvents.record).toHaveBeenCalledWith(
+      'login_failed',
+      expect.objectContaining({ user_id: 7, details: { reason: 'invalid_mfa_code', failures: 1 } })
+    );
+  });
+
+  it('should forget failures after a successful login', async () => {
+    await failTimes(4, 'agent@example.com');
+    await LoginProtectionService.recordSuccess('agent@example.com', client);
+    await failTimes(4, 'agent@example.com');
+
+    await expect(LoginProtectionService.assertNotLocked('agent@example.com', client)).resolves.toBeUndefined();
+  });
+
+  it('should lift the account lock on unlock', async () => {
+    await failTimes(20, 'agent@example.com');
+
+    await LoginProtectionService.unlock('agent@example.com', 1, 7);
+
+    await expect(LoginProtectionService.assertNotLocked('agent@example.com', otherClient)).resolves.toBeUndefined();
+    expect(securityEvents.record).toHaveBeenCalledWith('account_unlocked', expect.anything());
+  });
+});
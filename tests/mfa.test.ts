@@ -0,0 +1,106 @@
+import { currentTotpStep, totpCode, verifyTotp } from '../src/utils/totp';
+import { MfaService } from '../src/services/mfaService';
+import { MfaModel } from '../src/models/mysql/Mfa';
+
+jest.mock('../src/models/mysql/Mfa', () => ({
+  MfaModel: {
+    findByUserId: jest.fn(),
+    savePending: jest.fn(),
+    useStep: jest.fn(),
+    useRecoveryCode: jest.fn()
+  }
+}));
+jest.mock('../src/config/redis', () => ({ cacheService: { get: jest.fn(), set: jest.fn(), del: jest.fn() } }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const mfaModel = MfaModel as jest.Mocked<typeof MfaModel>;
+
+// RFC 6238 appendix B, SHA-1 seed "12345678901234567890" (last 6 of the 8 digits)
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037']
+];
+
+describe('TOTP', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    for (const [seconds, code] of RFC_VECTORS) {
+      expect(totpCode(RFC_SECRET, currentTotpStep(seconds * 1000))).toBe(code);
+    }
+  });
+
+  it('should accept codes one step either side of the current one', () => {
+    const now = 1234567890 * 1000;
+    const step = currentTotpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), 1, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), 1, now)).toBeNull();
+  });
+
+  it('should reject codes that are not 6 digits', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('MfaService.verifyCode', () => {
+  let secret: string;
+  let secretEncrypted: string;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mfaModel.findByUserId.mockResolvedValue(null);
+    ({ secret } = await MfaService.beginSetup({ id: 1, email: 'agent@example.com' }));
+    secretEncrypted = mfaModel.savePending.mock.calls[0][1];
+
+    mfaModel.findByUserId.mockResolvedValue({
+      user_id: 1,
+      secret_encrypted: secretEncrypted,
+      enabled_at: new Date()
+    } as any);
+  });
+
+  it('should store the secret encrypted', () => {
+    expect(secretEncrypted).not.toContain(secret);
+  });
+
+  it('should accept a current code once and mark its step used', async () => {
+    const step = currentTotpStep();
+    mfaModel.useStep.mockResolvedValue(true);
+
+    await expect(MfaService.verifyCode(1, totpCode(secret, step))).resolves.toBe(true);
+    expect(mfaModel.useStep).toHaveBeenCalledWith(1, step);
+  });
+
+  it('should reject a replayed code whose step was already used', async () => {
+    mfaModel.useStep.mockResolvedValue(false);
+
+    await expect(MfaService.verifyCode(1, totpCode(secret, currentTotpStep()))).resolves.toBe(false);
+  });
+
+  it('should reject a wrong code without using a step', async () => {
+    const wrong = totpCode(secret, currentTotpStep() + 5);
+
+    await expect(MfaService.verifyCode(1, wrong)).resolves.toBe(false);
+    expect(mfaModel.useStep).not.toHaveBeenCalled();
+  });
+
+  it('should check recovery codes without the dash or case', async () => {
+    mfaModel.useRecoveryCode.mockResolvedValue(true);
+
+    await expect(MfaService.verifyCode(1, 'ABCDE-12345')).resolves.toBe(true);
+    await MfaService.verifyCode(1, 'abcde12345');
+    expect(mfaModel.useRecoveryCode.mock.calls[0][1]).toBe(mfaModel.useRecoveryCode.mock.calls[1][1]);
+  });
+
+  it('should reject codes while MFA is not enabled', async () => {
+    mfaModel.findByUserId.mockResolvedValue(null);
+
+    await expect(MfaService.verifyCode(1, totpCode(secret, currentTotpStep()))).resolves.toBe(false);
+  });
+});
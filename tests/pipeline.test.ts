@@ -0,0 +1,79 @@
+import { PipelineService } from '../src/services/pipelineService';
+import { PipelineStageModel } from '../src/models/mysql/PipelineStage';
+import { cacheService } from '../src/config/redis';
+
+jest.mock('../src/models/mysql/PipelineStage', () => ({
+  PipelineStageModel: { findAll: jest.fn(), findTransitions: jest.fn() }
+}));
+jest.mock('../src/models/mysql/Lead', () => ({ LeadModel: {} }));
+jest.mock('../src/config/redis', () => ({ cacheService: { get: jest.fn(), set: jest.fn() } }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const stageModel = PipelineStageModel as jest.Mocked<typeof PipelineStageModel>;
+const cache = cacheService as jest.Mocked<typeof cacheService>;
+
+const stage = (id: number, stage_key: string, is_terminal = false) =>
+  ({ id, stage_key, name: stage_key, position: id, is_terminal } as any);
+
+const stages = [stage(1, 'new'), stage(2, 'contacted'), stage(3, 'qualified'), stage(4, 'converted', true)];
+const transitions = [
+  { from: 'new', to: 'contacted' },
+  { from: 'contacted', to: 'qualified' },
+  { from: 'qualified', to: 'converted' },
+  { from: 'qualified', to: 'contacted' },
+  { from: 'converted', to: 'new' }
+];
+
+describe('PipelineService.validateTransition', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    cache.get.mockResolvedValue(null);
+    stageModel.findAll.mockResolvedValue(stages);
+    stageModel.findTransitions.mockResolvedValue(transitions);
+  });
+
+  it('should allow forward moves that have a transition rule', async () => {
+    await expect(PipelineService.validateTransition('new', 'contacted')).resolves.toBeUndefined();
+    await expect(PipelineService.validateTransition('qualified', 'converted')).resolves.toBeUndefined();
+  });
+
+  it('should reject moves without a transition rule', async () => {
+    await expect(PipelineService.validateTransition('new', 'qualified')).rejects.toMatchObject({
+      statusCode: 400,
+      message: "Cannot move lead from 'new' to 'qualified'"
+    });
+  });
+
+  it('should require a reason to move a lead back', async () => {
+    await expect(PipelineService.validateTransition('qualified', 'contacted')).rejects.toMatchObject({
+      message: 'A reason is required when moving a lead back in the pipeline'
+    });
+    await expect(PipelineService.validateTransition('qualified', 'contacted', '   ')).rejects.toMatchObject({
+      statusCode: 400
+    });
+    await expect(PipelineService.validateTransition('qualified', 'contacted', 'Budget fell through')).resolves.toBeUndefined();
+  });
+
+  it('should not let leads leave a terminal stage, even with a rule', async () => {
+    await expect(PipelineService.validateTransition('converted', 'new', 'Reopened')).rejects.toMatchObject({
+      message: "Leads in 'converted' cannot change status"
+    });
+  });
+
+  it('should reject unknown target stages', async () => {
+    await expect(PipelineService.validateTransition('new', 'won')).rejects.toMatchObject({
+      message: "Unknown lead status 'won'"
+    });
+  });
+
+  it('should let leads in a removed stage move to any stage', async () => {
+    await expect(PipelineService.validateTransition('archived', 'qualified')).resolves.toBeUndefined();
+  });
+
+  it('should use the cached pipeline when there is one', async () => {
+    cache.get.mockResolvedValue(JSON.stringify({ stages, transitions: [] }));
+
+    await expect(PipelineService.validateTransition('new', 'contacted')).rejects.toMatchObject({ statusCode: 400 });
+    expect(stageModel.findAll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+import jwt from 'jsonwebtoken';
+import { AuthService } from '../src/services/authService';
+import { UserModel } from '../src/models/mysql/User';
+import { UserSessionModel } from '../src/models/mysql/UserSession';
+import { TokenRevocationService } from '../src/services/tokenRevocationService';
+import { hashToken } from '../src/utils/tokens';
+import { UserRole } from '../src/types';
+
+jest.mock('../src/models/mysql/User', () => ({ UserModel: { findById: jest.fn() } }));
+jest.mock('../src/models/mysql/UserInvite', () => ({ UserInviteModel: {} }));
+jest.mock('../src/models/mysql/PasswordResetToken', () => ({ PasswordResetTokenModel: {} }));
+jest.mock('../src/models/mysql/UserSession', () => ({
+  UserSessionModel: { rotate: jest.fn(), findById: jest.fn(), revoke: jest.fn() }
+}));
+jest.mock('../src/services/twilioService', () => ({ TwilioService: {} }));
+jest.mock('../src/services/snsService', () => ({ SNSService: {} }));
+jest.mock('../src/services/mfaService', () => ({ MfaService: {} }));
+jest.mock('../src/services/loginProtectionService', () => ({ LoginProtectionService: {} }));
+jest.mock('../src/services/securityEventService', () => ({ SecurityEventService: {} }));
+jest.mock('../src/services/tokenRevocationService', () => ({
+  TokenRevocationService: { getTokenVersion: jest.fn(), revokeSessions: jest.fn() }
+}));
+jest.mock('../src/config/redis', () => ({ cacheService: {} }));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const userModel = UserModel as jest.Mocked<typeof UserModel>;
+const sessionModel = UserSessionModel as jest.Mocked<typeof UserSessionModel>;
+const revocation = TokenRevocationService as jest.Mocked<typeof TokenRevocationService>;
+
+const REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret';
+
+const refreshTokenFor = (sid?: string) =>
+  jwt.sign({ id: 7, email: 'agent@example.com', role: UserRole.AGENT, sid }, REFRESH_SECRET, {
+    expiresIn: '7d',
+    jwtid: 'old'
+  });
+
+describe('Refresh token rotation', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    userModel.findById.mockResolvedValue({ id: 7, email: 'agent@example.com', role: UserRole.AGENT } as any);
+    revocation.getTokenVersion.mockResolvedValue(2);
+  });
+
+  it('should swap the session to the hash of a new refresh token', async () => {
+    const refreshToken = refreshTokenFor('session-1');
+    sessionModel.rotate.mockResolvedValue(true);
+
+    const tokens = await AuthService.refreshAccessToken(refreshToken);
+
+    expect(tokens.refreshToken).not.toBe(refreshToken);
+    expect(sessionModel.rotate).toHaveBeenCalledWith(
+      'session-1',
+      hashToken(refreshToken),
+      hashToken(tokens.refreshToken),
+      expect.any(Date),
+      undefined
+    );
+    expect(jwt.decode(tokens.accessToken)).toMatchObject({ id: 7, sid: 'session-1', ver: 2 });
+  });
+
+  it('should revoke the session when a rotated-out token is reused', async () => {
+    sessionModel.rotate.mockResolvedValue(false);
+    sessionModel.findById.mockResolvedValue({
+      id: 'session-1',
+      revoked_at: null,
+      expires_at: new Date(Date.now() + 60 * 60 * 1000)
+    } as any);
+    sessionModel.revoke.mockResolvedValue(true);
+
+    await expect(AuthService.refreshAccessToken(refreshTokenFor('session-1'))).rejects.toMatchObject({
+      statusCode: 401
+    });
+    expect(sessionModel.revoke).toHaveBeenCalledWith('session-1', 'reuse_detected', undefined);
+    expect(revocation.revokeSessions).toHaveBeenCalledWith(['session-1']);
+  });
+
+  it('should reject tokens of revoked sessions without revoking again', async () => {
+    sessionModel.rotate.mockResolvedValue(false);
+    sessionModel.findById.mockResolvedValue({
+      id: 'session-1',
+      revoked_at: new Date(),
+      expires_at: new Date(Date.now() + 60 * 60 * 1000)
+    } as any);
+
+    await expect(AuthService.refreshAccessToken(refreshTokenFor('session-1'))).rejects.toMatchObject({
+      statusCode: 401
+    });
+    expect(sessionModel.revoke).not.toHaveBeenCalled();
+  });
+
+  it('should end the session when the user is no longer active', async () => {
+    userModel.findById.mockResolvedValue(null);
+    sessionModel.revoke.mockResolvedValue(true);
+
+    await expect(AuthService.refreshAccessToken(refreshTokenFor('session-1'))).rejects.toMatchObject({
+      statusCode: 401
+    });
+    expect(sessionModel.revoke).toHaveBeenCalledWith('session-1', 'user_inactive', undefined);
+    expect(sessionModel.rotate).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens without a session or with a bad signature', async () => {
+    await expect(AuthService.refreshAccessToken(refreshTokenFor())).rejects.toMatchObject({ statusCode: 401 });
+    await expect(
+      AuthService.refreshAccessToken(jwt.sign({ id: 7, sid: 'session-1' }, 'wrong-secret'))
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(sessionModel.rotate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,123 @@
+import { TokenRevocationService } from '../src/services/tokenRevocationService';
+import { UserModel } from '../src/models/mysql/User';
+import { UserSessionModel } from '../src/models/mysql/UserSession';
+import { redis, cacheService } from '../src/config/redis';
+import { JWTPayload, UserRole } from '../src/types';
+
+jest.mock('../src/models/mysql/User', () => ({
+  UserModel: { getTokenVersion: jest.fn(), incrementTokenVersion: jest.fn() }
+}));
+jest.mock('../src/models/mysql/UserSession', () => ({ UserSessionModel: { findById: jest.fn() } }));
+jest.mock('../src/config/redis', () => ({
+  redis: { mget: jest.fn() },
+  cacheService: { get: jest.fn(), set: jest.fn() }
+}));
+jest.mock('../src/utils/logger', () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn() }));
+
+const userModel = UserModel as jest.Mocked<typeof UserModel>;
+const sessionModel = UserSessionModel as jest.Mocked<typeof UserSessionModel>;
+const redisClient = redis as unknown as { mget: jest.Mock };
+const cache = cacheService as jest.Mocked<typeof cacheService>;
+
+const payload: JWTPayload = {
+  id: 7,
+  email: 'agent@example.com',
+  role: UserRole.AGENT,
+  jti: 'token-1',
+  sid: 'session-1',
+  ver: 3
+};
+
+describe('TokenRevocationService.isRevoked', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should accept a token of the current version that is not denylisted', async () => {
+    redisClient.mget.mockResolvedValue(['3', null, null]);
+
+    await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(false);
+    expect(redisClient.mget).toHaveBeenCalledWith(
+      'auth:token_version:7',
+      'auth:revoked:jti:token-1',
+      'auth:revoked:sid:session-1'
+    );
+  });
+
+  it('should reject a denylisted token or session', async () => {
+    redisClient.mget.mockResolvedValue(['3', '1', null]);
+    await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(true);
+
+    redisClient.mget.mockResolvedValue(['3', null, '1']);
+    await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(true);
+  });
+
+  it('should reject tokens issued before the token version was bumped', async () => {
+    redisClient.mget.mockResolvedValue(['4', null, null]);
+
+    await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(true);
+  });
+
+  it('should load and cache the token version on a cache miss', async () => {
+    redisClient.mget.mockResolvedValue([null, null, null]);
+    userModel.getTokenVersion.mockResolvedValue(3);
+
+    await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(false);
+    expect(cache.set).toHaveBeenCalledWith('auth:token_version:7', 3, expect.any(Number));
+  });
+
+  describe('when Redis fails', () => {
+    beforeEach(() => {
+      redisClient.mget.mockRejectedValue(new Error('Connection is closed'));
+    });
+
+    it('should accept a token whose session is live and version is current', async () => {
+      sessionModel.findById.mockResolvedValue({ id: 'session-1', revoked_at: null } as any);
+      userModel.getTokenVersion.mockResolvedValue(3);
+
+      await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(false);
+    });
+
+    it('should reject a token whose session was revoked', async () => {
+      sessionModel.findById.mockResolvedValue({ id: 'session-1', revoked_at: new Date() } as any);
+      userModel.getTokenVersion.mockResolvedValue(3);
+
+      await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(true);
+    });
+
+    it('should reject a token of an old version', async () => {
+      sessionModel.findById.mockResolvedValue({ id: 'session-1', revoked_at: null } as any);
+      userModel.getTokenVersion.mockResolvedValue(4);
+
+      await expect(TokenRevocationService.isRevoked(payload)).resolves.toBe(true);
+    });
+
+    it('should reject a token without a session', async () => {
+      await expect(TokenRevocationService.isRevoked({ ...payload, sid: undefined })).resolves.toBe(true);
+      expect(sessionModel.findById).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('TokenRevocationService.revokeToken', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should denylist the token until it expires', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 120;
+
+    await TokenRevocationService.revokeToken('token-1', exp);
+
+    const [key, value, ttl] = cache.set.mock.calls[0];
+    expect([key, value]).toEqual(['auth:revoked:jti:token-1', 1]);
+    expect(ttl).toBeGreaterThan(115);
+    expect(ttl).toBeLessThanOrEqual(120);
+  });
+
+  it('should skip tokens that already expired', async () => {
+    await TokenRevocationService.revokeToken('token-1', Math.floor(Date.now() / 1000) - 10);
+
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+});